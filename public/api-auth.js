@@ -0,0 +1,58 @@
+/**
+ * Demo page credentials
+ * With AUTH_ENABLED on, the chat API and the realtime WebSocket need a key
+ * with the chat scope. Open a page once with ?apiKey=... (or enter the key
+ * when asked) and it is kept in localStorage and sent on same-origin /api
+ * requests and realtime WebSocket connections
+ */
+(function () {
+    const STORAGE_KEY = 'voiceAgentApiKey';
+
+    // Take the key out of the address bar so it isn't bookmarked or shared
+    const params = new URLSearchParams(window.location.search);
+    if (params.has('apiKey')) {
+        localStorage.setItem(STORAGE_KEY, params.get('apiKey').trim());
+        params.delete('apiKey');
+        const query = params.toString();
+        history.replaceState(null, '', window.location.pathname + (query ? `?${query}` : '') + window.location.hash);
+    }
+
+    const getKey = () => localStorage.getItem(STORAGE_KEY) || '';
+    const originalFetch = window.fetch.bind(window);
+
+    window.fetch = async (input, init = {}) => {
+        const url = new URL(typeof input === 'string' ? input : input.url, window.location.href);
+        if (url.origin !== window.location.origin || !url.pathname.startsWith('/api/')) {
+            return originalFetch(input, init);
+        }
+
+        const send = () => {
+            const headers = new Headers(init.headers || (typeof input === 'string' ? undefined : input.headers));
+            const key = getKey();
+            if (key) headers.set('Authorization', `Bearer ${key}`);
+            return originalFetch(input, { ...init, headers });
+        };
+
+        let response = await send();
+        if (response.status === 401) {
+            const key = window.prompt('This server requires an API key with the chat scope:');
+            if (key && key.trim()) {
+                localStorage.setItem(STORAGE_KEY, key.trim());
+                response = await send();
+            }
+        }
+        return response;
+    };
+
+    /**
+     * Realtime WebSocket URL carrying the key; browsers can't set headers on a
+     * WebSocket, so it goes in ?token=. The status check first asks for a key
+     * when the server needs one and none is stored
+     */
+    window.authorizedWebSocketUrl = async (wsUrl) => {
+        await fetch('/api/openai-realtime/status').catch(() => undefined);
+        const key = getKey();
+        if (!key) return wsUrl;
+        return `${wsUrl}${wsUrl.includes('?') ? '&' : '?'}token=${encodeURIComponent(key)}`;
+    };
+})();
@@ -0,0 +1,104 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Test for API authentication
+ * Checks that requests and realtime WebSocket upgrades without the required
+ * scope are refused, and that keys and JWTs with it get through
+ */
+
+import crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import express from 'express';
+import axios from 'axios';
+import { AddressInfo } from 'net';
+import { config } from '../src/config';
+import { authorizeUpgrade, requireScope } from '../src/middleware/auth.middleware';
+import { ApiKeyService, hasScope } from '../src/services/api-key.service';
+import { InMemoryApiKeyStore } from '../src/services/api-key-store.service';
+
+const ADMIN_KEY = 'test-admin-key';
+const JWT_SECRET = 'test-jwt-secret';
+
+function assert(condition: unknown, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+  console.log(`  ✓ ${message}`);
+}
+
+function signJwt(scope: string): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode({ sub: 'test', scope, exp: Math.floor(Date.now() / 1000) + 60 })}`;
+  return `${unsigned}.${crypto.createHmac('sha256', JWT_SECRET).update(unsigned).digest('base64url')}`;
+}
+
+async function runApiAuthTests() {
+  console.log('🚀 Starting API Auth Tests\n');
+
+  Object.assign(config.auth, { enabled: true, adminApiKey: ADMIN_KEY, jwtSecret: JWT_SECRET, jwtIssuer: '' });
+
+  const app = express();
+  app.get('/api/chat/status', requireScope('chat'), (_req, res) => { res.json({ success: true }); });
+  app.get('/api/costs', requireScope('admin'), (_req, res) => { res.json({ success: true }); });
+  const server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  const baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  const get = (path: string, credential?: string) => axios.get(`${baseUrl}${path}`, {
+    headers: credential ? { Authorization: `Bearer ${credential}` } : {},
+    validateStatus: () => true
+  });
+
+  try {
+    console.log('📋 Test 1: Scope rules');
+    assert(hasScope(['admin'], 'chat'), 'admin covers every scope');
+    assert(hasScope(['appointments:write'], 'appointments:read'), 'appointments:write includes reading');
+    assert(!hasScope(['appointments:read'], 'appointments:write'), 'appointments:read does not allow changes');
+    assert(!hasScope(['chat'], 'admin'), 'chat does not grant admin');
+
+    console.log('\n🔒 Test 2: Requests are denied without the scope');
+    assert((await get('/api/chat/status')).status === 401, 'no credential gets 401');
+    assert((await get('/api/chat/status', 'not-a-key')).status === 401, 'unknown credential gets 401');
+    assert((await get('/api/costs', signJwt('chat'))).status === 403, 'chat JWT on an admin route gets 403');
+    assert((await get('/api/chat/status', signJwt('appointments:read'))).status === 403, 'appointments:read JWT on chat gets 403');
+
+    console.log('\n✅ Test 3: Requests with the scope are allowed');
+    assert((await get('/api/chat/status', signJwt('chat'))).status === 200, 'chat JWT reaches chat');
+    assert((await get('/api/costs', ADMIN_KEY)).status === 200, 'ADMIN_API_KEY reaches an admin route');
+    const headerResponse = await axios.get(`${baseUrl}/api/chat/status`, { headers: { 'X-API-Key': ADMIN_KEY }, validateStatus: () => true });
+    assert(headerResponse.status === 200, 'X-API-Key header is accepted');
+
+    console.log('\n🔑 Test 4: Managed keys');
+    const keys = new ApiKeyService(new InMemoryApiKeyStore(), config.auth);
+    const created = await keys.createKey({ name: 'chat widget', scopes: ['chat'] });
+    assert(created.success && created.key, 'chat key created');
+    const principal = await keys.authenticate(created.key!);
+    assert(principal && hasScope(principal.scopes, 'chat'), 'managed key grants chat');
+    assert(principal && !hasScope(principal.scopes, 'appointments:write'), 'managed key does not grant appointments:write');
+    await keys.revokeKey(created.apiKey!.id);
+    assert(await keys.authenticate(created.key!) === null, 'revoked key is refused');
+
+    console.log('\n🔌 Test 5: Realtime WebSocket upgrades');
+    const upgrade = (url: string, headers: IncomingHttpHeaders = {}) => authorizeUpgrade({ url, headers }, 'chat');
+    assert(await upgrade('/ws/openai-realtime') === 401, 'upgrade without a credential gets 401');
+    assert(await upgrade(`/ws/openai-realtime?token=${signJwt('appointments:read')}`) === 403, 'upgrade without the chat scope gets 403');
+    assert(await upgrade(`/ws/openai-realtime?token=${signJwt('chat')}`) === null, 'chat JWT in ?token= is allowed');
+    assert(await upgrade('/ws/openai-realtime', { authorization: `Bearer ${ADMIN_KEY}` }) === null, 'bearer header is allowed');
+  } finally {
+    server.close();
+  }
+}
+
+// Run tests if this script is executed directly
+if (require.main === module) {
+  runApiAuthTests()
+    .then(() => {
+      console.log('\n✅ API auth tests completed successfully');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('\n❌ API auth tests failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runApiAuthTests };
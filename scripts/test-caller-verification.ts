@@ -0,0 +1,108 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Test for caller verification
+ * Checks that repeated wrong answers lock an appointment, that the lock holds
+ * across calls and restarts and blocks changes, and that it lifts once it
+ * expires
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { config } from '../src/config';
+import { Appointment } from '../src/services/appointment-management.service';
+import { CallerVerificationService } from '../src/services/caller-verification.service';
+import { CallerVerificationStore, FileCallerVerificationStore, InMemoryCallerVerificationStore } from '../src/services/caller-verification-store.service';
+import type { CallContext } from '../src/services/call-context.service';
+
+const MAX_ATTEMPTS = 3;
+const LOCKOUT_MINUTES = 30;
+
+function assert(condition: unknown, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+  console.log(`  ✓ ${message}`);
+}
+
+async function runCallerVerificationTests() {
+  console.log('🚀 Starting Caller Verification Tests\n');
+
+  const appointment = {
+    id: 'appt-verify-1',
+    customerName: 'Test Customer',
+    customerPhone: '+1-555-0100',
+    address: '1200 Oak St',
+    zipCode: '02101',
+  } as Appointment;
+  const sentCodes: string[] = [];
+  const createService = (store: CallerVerificationStore) => new CallerVerificationService(
+    store,
+    { send: async (_to, body) => { sentCodes.push(body); } },
+    { ...config.verification, enabled: true, maxAttempts: MAX_ATTEMPTS, lockoutMinutes: LOCKOUT_MINUTES },
+    async id => (id === appointment.id ? appointment : null)
+  );
+  const verification = createService(new InMemoryCallerVerificationStore());
+  const caller = { callerNumber: '+15550100' } as CallContext;
+  const now = Date.now();
+
+  console.log('📋 Test 1: Wrong answers count down the remaining tries');
+  for (let attempt = 1; attempt < MAX_ATTEMPTS; attempt++) {
+    const result = await verification.verify(caller, 'call-1', { appointmentId: appointment.id, zipCode: '99999' }, now);
+    assert(result.error === 'mismatch' && result.data.attemptsRemaining === MAX_ATTEMPTS - attempt,
+      `attempt ${attempt} refused with ${MAX_ATTEMPTS - attempt} left`);
+  }
+
+  console.log(`\n🔒 Test 2: Attempt ${MAX_ATTEMPTS} locks the appointment`);
+  const locking = await verification.verify(caller, 'call-1', { appointmentId: appointment.id, streetNumber: '1' }, now);
+  assert(locking.error === 'locked', 'appointment locked after the last wrong answer');
+
+  const correct = await verification.verify(caller, 'call-1', { appointmentId: appointment.id, zipCode: '02101' }, now + 1000);
+  assert(correct.error === 'locked', 'even the right answer is refused while locked');
+
+  console.log('\n📞 Test 3: The lock holds on a new call');
+  const redial = await verification.verify(caller, 'call-2', { appointmentId: appointment.id, zipCode: '02101' }, now + 2000);
+  assert(redial.error === 'locked', 'verification refused on another call');
+  const code = await verification.sendCode('call-2', appointment.id, 'Test Co', now + 2000);
+  assert(code.error === 'locked' && sentCodes.length === 0, 'no SMS code sent while locked');
+  const change = await verification.requireVerified('call-2', appointment.id, now + 2000);
+  assert(change?.error === 'locked', 'appointment changes refused while locked');
+
+  console.log('\n🔓 Test 4: The lock lifts once it expires');
+  const later = now + LOCKOUT_MINUTES * 60 * 1000 + 1000;
+  const verified = await verification.verify(caller, 'call-3', { appointmentId: appointment.id, zipCode: '02101' }, later);
+  assert(verified.success, 'caller verified after the lockout');
+  assert(await verification.requireVerified('call-3', appointment.id, later) === null, 'verified call may change the appointment');
+  const fresh = await verification.verify(caller, 'call-4', { appointmentId: appointment.id, zipCode: '99999' }, later);
+  assert(fresh.data?.attemptsRemaining === MAX_ATTEMPTS - 1, 'failure count starts over after a success');
+
+  console.log('\n💾 Test 5: The lock survives a restart with the file store');
+  const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'caller-verification-'));
+  try {
+    const beforeRestart = createService(new FileCallerVerificationStore(dataDir));
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      await beforeRestart.verify(caller, 'call-5', { appointmentId: appointment.id, zipCode: '99999' }, now);
+    }
+    const afterRestart = createService(new FileCallerVerificationStore(dataDir));
+    const result = await afterRestart.verify(caller, 'call-6', { appointmentId: appointment.id, zipCode: '02101' }, now + 1000);
+    assert(result.error === 'locked', 'appointment still locked after reloading the store');
+  } finally {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  }
+}
+
+// Run tests if this script is executed directly
+if (require.main === module) {
+  runCallerVerificationTests()
+    .then(() => {
+      console.log('\n✅ Caller verification tests completed successfully');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('\n❌ Caller verification tests failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runCallerVerificationTests };
@@ -0,0 +1,99 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Test for cost budgets
+ * Spends a daily budget and checks that, in hard-stop mode, new realtime
+ * sessions are refused - both by the ledger and on the browser WebSocket
+ */
+
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import { config } from '../src/config';
+import { initializeOpenAIRealtimeWebSocket } from '../src/routes/openai-realtime.routes';
+import { BudgetAlert, CostLedgerService, costLedgerService } from '../src/services/cost-ledger.service';
+import { InMemoryCostLedgerStore } from '../src/services/cost-ledger-store.service';
+
+const DAILY_BUDGET = 5;
+const TEST_MODEL = 'test-realtime-model';
+
+function assert(condition: unknown, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+  console.log(`  ✓ ${message}`);
+}
+
+async function runCostBudgetTests() {
+  console.log('🚀 Starting Cost Budget Tests\n');
+
+  const settings = { ...config.costs, dailyBudget: DAILY_BUDGET, monthlyBudget: 0, hardStop: true, alertThresholds: [80, 100] };
+  const alerts: BudgetAlert[] = [];
+  const ledger = new CostLedgerService(
+    new InMemoryCostLedgerStore(),
+    { notify: async alert => { alerts.push(alert); } },
+    settings,
+    { [TEST_MODEL]: { provider: 'openai_realtime', inputTokens: 1_000_000 } } // $1 per token
+  );
+
+  console.log('📋 Test 1: Sessions are allowed under the budget');
+  ledger.record('session-1', 'openai_realtime', TEST_MODEL, { inputTokens: 3 });
+  const under = await ledger.checkBudget();
+  assert(under.allowed, 'session allowed with $3 of $5 spent');
+  assert(under.budgets[0]?.remaining === 2, 'daily budget has $2 remaining');
+
+  console.log('\n💸 Test 2: A session is refused once the budget is spent');
+  ledger.record('session-2', 'openai_realtime', TEST_MODEL, { inputTokens: 2 });
+  const spent = await ledger.checkBudget();
+  assert(!spent.allowed, 'new session refused with $5 of $5 spent');
+  assert(spent.message?.includes('daily'), 'refusal names the daily budget');
+  await new Promise(resolve => setImmediate(resolve));
+  assert(alerts.some(alert => alert.threshold === 100), '100% budget alert sent');
+
+  const softLimit = new CostLedgerService(new InMemoryCostLedgerStore(), { notify: async () => undefined }, { ...settings, hardStop: false },
+    { [TEST_MODEL]: { provider: 'openai_realtime', inputTokens: 1_000_000 } });
+  softLimit.record('session-3', 'openai_realtime', TEST_MODEL, { inputTokens: 10 });
+  assert((await softLimit.checkBudget()).allowed, 'without COST_HARD_STOP a spent budget only alerts');
+
+  console.log('\n🔌 Test 3: The realtime WebSocket refuses a session once the budget is spent');
+  // No alert thresholds, so the shared ledger writes nothing to the data directory
+  Object.assign(config.costs, { dailyBudget: DAILY_BUDGET, monthlyBudget: 0, hardStop: true, alertThresholds: [] });
+  config.auth.enabled = false;
+  process.env.OPENAI_API_KEY = process.env.OPENAI_API_KEY || 'test-key'; // Never used - the session is refused first
+  costLedgerService.record('ws-session', 'openai_realtime', undefined, { inputAudioTokens: 1_000_000_000 });
+
+  const server = createServer();
+  initializeOpenAIRealtimeWebSocket(server);
+  server.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+
+  try {
+    const ws = new WebSocket(`ws://localhost:${(server.address() as AddressInfo).port}/ws/openai-realtime`);
+    const messages: Array<{ type: string; error?: { code?: string; message?: string } }> = [];
+    ws.on('message', data => messages.push(JSON.parse(data.toString())));
+    await new Promise(resolve => ws.once('open', resolve));
+    ws.send(JSON.stringify({ type: 'session.update', session: {} }));
+    await new Promise(resolve => ws.once('close', resolve));
+
+    const refusal = messages.find(message => message.type === 'error');
+    assert(refusal?.error?.code === 'budget_exhausted', 'client told the budget is exhausted');
+    assert(ws.readyState === WebSocket.CLOSED, 'connection closed without starting a session');
+  } finally {
+    server.close();
+  }
+}
+
+// Run tests if this script is executed directly
+if (require.main === module) {
+  runCostBudgetTests()
+    .then(() => {
+      console.log('\n✅ Cost budget tests completed successfully');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('\n❌ Cost budget tests failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runCostBudgetTests };
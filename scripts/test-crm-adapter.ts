@@ -0,0 +1,88 @@
+#!/usr/bin/env ts-node
+
+/**
+ * End-to-end test for the CRM adapter against the bundled mock CRM
+ * Books, reschedules and cancels through AppointmentManagementService and
+ * checks that the CRM events follow along
+ */
+
+import { AddressInfo } from 'net';
+import { createMockCrmApp, MockCrmState } from '../src/mock-crm/server';
+import { RestCrmAdapter } from '../src/services/crm-adapter.service';
+import { AppointmentManagementService } from '../src/services/appointment-management.service';
+import { InMemoryAppointmentStore } from '../src/services/appointment-store.service';
+
+function assert(condition: unknown, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+  console.log(`  ✓ ${message}`);
+}
+
+async function runCrmAdapterTests() {
+  console.log('🚀 Starting CRM Adapter Tests\n');
+
+  const state = new MockCrmState();
+  const server = createMockCrmApp(state).listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  const baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+  try {
+    const crm = new RestCrmAdapter(baseUrl);
+    const appointments = new AppointmentManagementService(new InMemoryAppointmentStore(), crm);
+
+    console.log('📋 Test 1: Availability and customer lookup');
+    const availability = await crm.listAvailability({ staffIds: ['staff-001'] });
+    assert(availability.length > 0, `mock CRM returned ${availability.length} open slots`);
+    const customers = await crm.findCustomer({ phone: '15550123' });
+    assert(customers[0]?.name === 'John Smith', 'customer found by phone');
+
+    console.log('\n📅 Test 2: Booking creates a CRM event');
+    const [slot] = await appointments.getAvailableSlots('02101');
+    const booking = await appointments.createAppointment({
+      customerName: 'Test Customer',
+      customerPhone: '+1-555-0999',
+      scheduledTime: slot.scheduledTime,
+      address: '1 Test St',
+      city: 'Boston',
+      state: 'MA',
+      zipCode: '02101',
+      staffId: slot.userId,
+      staffName: slot.staffName
+    });
+    const eventId = booking.appointment?.eventId;
+    assert(booking.success && eventId, `appointment linked to CRM event ${eventId}`);
+    assert(state.events.get(eventId!)?.Staff === slot.userId, 'CRM event assigned to the booked consultant');
+
+    console.log('\n🔄 Test 3: Reschedule and cancel update the CRM event');
+    const [newSlot] = (await appointments.getAvailableSlots('02101'))
+      .filter(s => s.userId === slot.userId && s.scheduledTime !== slot.scheduledTime);
+    const reschedule = await appointments.rescheduleAppointment(booking.appointment!.id, newSlot.scheduledTime);
+    assert(reschedule.success, 'appointment rescheduled');
+    assert(state.events.get(eventId!)?.Scheduled_Time === newSlot.scheduledTime, 'CRM event moved to the new time');
+    assert(state.events.get(eventId!)?.Status === 'Rescheduled', 'CRM event marked Rescheduled');
+
+    await appointments.cancelAppointment(booking.appointment!.id, 'Testing');
+    assert(state.events.get(eventId!)?.Status === 'Cancelled', 'CRM event marked Cancelled');
+
+    const found = await appointments.findCrmCustomers({ name: 'Test Customer' });
+    assert(found.length === 1, 'new customer created in the CRM');
+  } finally {
+    server.close();
+  }
+}
+
+// Run tests if this script is executed directly
+if (require.main === module) {
+  runCrmAdapterTests()
+    .then(() => {
+      console.log('\n✅ CRM adapter tests completed successfully');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('\n❌ CRM adapter tests failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runCrmAdapterTests };
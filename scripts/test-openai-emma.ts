@@ -4,6 +4,7 @@
 
 import { OpenAIRealtimeService } from '../src/services/openai-realtime.service';
 import { EMMA_SYSTEM_PROMPT } from '../src/config/emma-prompt';
+import { agentPromptService } from '../src/services/agent-prompt.service';
 import * as dotenv from 'dotenv';
 
 dotenv.config();
@@ -20,7 +21,7 @@ async function testEmmaIntegration() {
   // Initialize service with Emma's prompt
   const realtime = new OpenAIRealtimeService(apiKey, {
     voice: 'alloy',
-    instructions: EMMA_SYSTEM_PROMPT,
+    instructions: agentPromptService.render(EMMA_SYSTEM_PROMPT, { agentName: 'Emma', companyName: 'Luxury Makeover' }),
     temperature: 0.8,
     maxResponseLength: 4096
   });
@@ -15,6 +15,24 @@ import chatRoutes from './routes/chat.routes';
 import chatStreamingRoutes from './routes/chat-streaming.routes';
 import openaiRealtimeRoutes from './routes/openai-realtime.routes';
 import appointmentCancellationRoutes from './routes/appointment-cancellation.routes';
+import campaignRoutes from './routes/campaign.routes';
+import callsRoutes from './routes/calls.routes';
+import agentRoutes from './routes/agent.routes';
+import knowledgeRoutes from './routes/knowledge.routes';
+import transferRoutes from './routes/transfer.routes';
+import authRoutes from './routes/auth.routes';
+import costRoutes from './routes/cost.routes';
+import { requireScope, validateTwilioSignature } from './middleware/auth.middleware';
+
+// Appointment lookups sent as POST (they carry customer details in the body)
+const APPOINTMENT_READ_POSTS = ['/find', '/available-slots'];
+
+/**
+ * Scope an /api/appointments request needs: reads vs. changes to appointments
+ */
+function appointmentScope(req: Request): 'appointments:read' | 'appointments:write' {
+  return req.method === 'GET' || APPOINTMENT_READ_POSTS.includes(req.path) ? 'appointments:read' : 'appointments:write';
+}
 
 /**
  * Create and configure Express application
@@ -52,13 +70,20 @@ export function createApp(): Application {
   // Serve static files from public directory
   app.use(express.static(path.join(__dirname, '../public')));
 
-  // Routes
+  // Routes - API scopes apply when AUTH_ENABLED is on
   app.use('/health', healthRoutes);
-  app.use('/webhooks/twilio', twilioRoutes);
-  app.use('/api/chat', chatRoutes);
-  app.use('/api/chat/stream', chatStreamingRoutes);
-  app.use('/api/openai-realtime', openaiRealtimeRoutes);
-  app.use('/api/appointments', appointmentCancellationRoutes);
+  app.use('/webhooks/twilio', validateTwilioSignature, twilioRoutes);
+  app.use('/api/chat', requireScope('chat'), chatRoutes);
+  app.use('/api/chat/stream', requireScope('chat'), chatStreamingRoutes);
+  app.use('/api/openai-realtime', requireScope('chat'), openaiRealtimeRoutes);
+  app.use('/api/appointments', requireScope(appointmentScope), appointmentCancellationRoutes);
+  app.use('/api/campaigns', requireScope('admin'), campaignRoutes);
+  app.use('/api/calls', requireScope('admin'), callsRoutes);
+  app.use('/api/agents', requireScope('admin'), agentRoutes);
+  app.use('/api/knowledge', requireScope('admin'), knowledgeRoutes);
+  app.use('/api/transfers', requireScope('admin'), transferRoutes);
+  app.use('/api/auth', requireScope('admin'), authRoutes);
+  app.use('/api/costs', requireScope('admin'), costRoutes);
 
   // Root endpoint - serve landing page
   app.get('/', (_req: Request, res: Response) => {
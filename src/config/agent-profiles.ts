@@ -0,0 +1,23 @@
+/**
+ * Built-in agent profile
+ * Seeded into the agent profile store on first start and used whenever a call
+ * or session cannot be matched to a specific agent
+ */
+
+import { EMMA_UNIFIED_SYSTEM_PROMPT } from './emma-unified-prompt';
+
+export const DEFAULT_AGENT_ID = 'emma';
+
+// Voices supported by the OpenAI Realtime API
+export const REALTIME_VOICES = ['alloy', 'ash', 'ballad', 'coral', 'echo', 'sage', 'shimmer', 'verse'];
+
+export const DEFAULT_AGENT_PROFILE = {
+  id: DEFAULT_AGENT_ID,
+  name: 'Emma',
+  companyName: 'Luxury Makeover',
+  promptTemplate: EMMA_UNIFIED_SYSTEM_PROMPT,
+  voice: 'alloy',
+  knowledgeBaseId: 'default', // data/knowledge-base.json
+  phoneNumbers: [] as string[],
+  isDefault: true,
+};
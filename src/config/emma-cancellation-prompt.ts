@@ -46,6 +46,10 @@ Step 1: Acknowledge & Gather Information
 
 (Use 'find_customer_appointment' tool to locate their appointment)
 
+"For your security, can you confirm the zip code or the street number for the appointment address?"
+
+(Use 'verify_caller_identity' - if the caller isn't calling from the number on file, use 'send_verification_code' and verify the code they read back. Never make changes until verification succeeds; if the appointment is locked, offer a transfer or a callback)
+
 "I see your consultation scheduled for [Date] at [Time] with our Design Consultant [Name]. Before we make any changes, may I ask what's prompting you to cancel? I might be able to help find a solution."
 
 Step 2: Empathetic Response & First Rebuttal
@@ -89,11 +93,13 @@ TOOL USAGE FOR CANCELLATIONS
 
 Available Tools:
 1. find_customer_appointment - Locate customer's existing appointment
-2. get_appointment_availability - Check available slots for rescheduling  
-3. reschedule_appointment - Move appointment to new date/time
-4. cancel_appointment - Cancel appointment if retention fails
-5. start_cancellation_attempt - Begin tracking retention efforts
-6. update_cancellation_attempt - Track rebuttal stages and outcomes
+2. verify_caller_identity - Confirm the caller owns it (zip code or street number, or a texted code)
+3. send_verification_code - Text a one-time code to the phone on file
+4. get_appointment_availability - Check available slots for rescheduling  
+5. reschedule_appointment - Move appointment to new date/time (requires verification)
+6. cancel_appointment - Cancel appointment if retention fails (requires verification)
+7. start_cancellation_attempt - Begin tracking retention efforts
+8. update_cancellation_attempt - Track rebuttal stages and outcomes
 
 RETENTION STRATEGIES BY OBJECTION TYPE
 
@@ -191,5 +197,13 @@ export const CANCELLATION_REBUTTALS = {
     "I understand the timing might not feel perfect right now.",
     "What if we moved this out a bit further to when you're feeling more ready?",
     "The consultation can actually help you plan the perfect timing for your project."
+  ],
+
+  other_concerns: [
+    "I understand your concerns. Let me see what options we have to make this work better for you.",
+    "Before we cancel, would you be open to exploring some alternatives?",
+    "What if we could address your specific concerns? I'd love to help find a solution."
   ]
-};
\ No newline at end of file
+};
+export type CancellationRebuttalType = keyof typeof CANCELLATION_REBUTTALS;
+export type CancellationRebuttals = Record<CancellationRebuttalType, string[]>;
@@ -24,6 +24,10 @@ export const config = {
     authToken: process.env.TWILIO_AUTH_TOKEN || '',
     phoneNumber: process.env.TWILIO_PHONE_NUMBER || '',
     phoneNumbers: process.env.TWILIO_PHONE_NUMBERS?.split(',').map(num => num.trim()) || [],
+    voiceMode: (process.env.TWILIO_VOICE_MODE || 'media-stream') as 'media-stream' | 'gather',
+    mediaStreamUrl: process.env.TWILIO_MEDIA_STREAM_URL || '', // Defaults to wss://<request host>/ws/twilio-media
+    machineDetection: process.env.TWILIO_MACHINE_DETECTION !== 'false', // Answering machine detection on outbound calls
+    machineDetectionTimeoutSeconds: parseInt(process.env.TWILIO_MACHINE_DETECTION_TIMEOUT_SECONDS || '30', 10),
   },
   
   // Google Gemini configuration
@@ -38,6 +42,112 @@ export const config = {
     timeout: parseInt(process.env.CALL_TIMEOUT || '300', 10),
   },
   
+  // Browser chat session configuration
+  chat: {
+    sessionIdleMinutes: parseInt(process.env.CHAT_SESSION_IDLE_MINUTES || '30', 10), // Idle sessions are ended after this long
+  },
+  
+  // REST API authentication (on by default in production)
+  auth: {
+    enabled: process.env.AUTH_ENABLED ? process.env.AUTH_ENABLED === 'true' : process.env.NODE_ENV === 'production',
+    adminApiKey: process.env.ADMIN_API_KEY || '', // Bootstrap key with the admin scope, e.g. to create the first managed keys
+    apiKeySecret: process.env.API_KEY_SECRET || '', // Pepper for stored API key hashes
+    jwtSecret: process.env.JWT_SECRET || '', // HS256; JWTs are rejected when unset
+    jwtIssuer: process.env.JWT_ISSUER || '', // Checked against the iss claim when set
+    validateTwilioSignature: process.env.TWILIO_VALIDATE_SIGNATURE
+      ? process.env.TWILIO_VALIDATE_SIGNATURE === 'true'
+      : process.env.NODE_ENV === 'production',
+  },
+  
+  // Staff calendar configuration
+  calendar: {
+    timeZone: process.env.BUSINESS_TIME_ZONE || 'America/New_York',
+    appointmentDurationMinutes: parseInt(process.env.APPOINTMENT_DURATION_MINUTES || '90', 10),
+    bufferMinutes: parseInt(process.env.APPOINTMENT_BUFFER_MINUTES || '30', 10),
+    slotIntervalMinutes: parseInt(process.env.SLOT_INTERVAL_MINUTES || '60', 10),
+    minimumLeadTimeMinutes: parseInt(process.env.MINIMUM_LEAD_TIME_MINUTES || '120', 10),
+    defaultSearchDays: parseInt(process.env.AVAILABILITY_SEARCH_DAYS || '3', 10),
+    slotHoldTtlSeconds: parseInt(process.env.SLOT_HOLD_TTL_SECONDS || '300', 10),
+  },
+  
+  // CRM configuration
+  crm: {
+    driver: (process.env.CRM_DRIVER || (process.env.CRM_API_BASE_URL ? 'rest' : 'none')) as 'rest' | 'none',
+    baseUrl: process.env.CRM_API_BASE_URL || '',
+    apiKey: process.env.CRM_API_KEY || '',
+    timeoutMs: parseInt(process.env.CRM_TIMEOUT_MS || '10000', 10),
+    mockPort: parseInt(process.env.MOCK_CRM_PORT || '4010', 10),
+  },
+  
+  // Outbound campaign configuration
+  campaigns: {
+    publicBaseUrl: process.env.PUBLIC_BASE_URL || '', // Public https URL Twilio uses for webhooks
+    confirmation: {
+      enabled: process.env.CONFIRMATION_CAMPAIGN_ENABLED === 'true',
+      windowStartHours: parseInt(process.env.CONFIRMATION_WINDOW_START_HOURS || '24', 10),
+      windowEndHours: parseInt(process.env.CONFIRMATION_WINDOW_END_HOURS || '48', 10),
+      callingHoursStart: process.env.CONFIRMATION_CALLING_HOURS_START || '09:00', // Customer's local time
+      callingHoursEnd: process.env.CONFIRMATION_CALLING_HOURS_END || '20:00',
+      maxAttempts: parseInt(process.env.CONFIRMATION_MAX_ATTEMPTS || '3', 10),
+      retryDelayMinutes: parseInt(process.env.CONFIRMATION_RETRY_DELAY_MINUTES || '120', 10),
+      pollIntervalSeconds: parseInt(process.env.CONFIRMATION_POLL_INTERVAL_SECONDS || '300', 10),
+      // Left after the beep when a machine answers; an agent's voicemailTemplate takes precedence
+      voicemailTemplate: process.env.CONFIRMATION_VOICEMAIL_TEMPLATE ||
+        "Hi {{customerName|there}}, this is {{agentName}} from {{companyName}}, calling to confirm your {{appointment|upcoming appointment}}. Please call us back at {{callbackNumber|this number}} to confirm, reschedule or cancel. Thank you, and have a great day!",
+    },
+  },
+  
+  // Caller verification before appointment changes by phone or voice session
+  verification: {
+    enabled: process.env.CALLER_VERIFICATION_ENABLED !== 'false',
+    maxAttempts: parseInt(process.env.CALLER_VERIFICATION_MAX_ATTEMPTS || '3', 10), // Failed checks before the appointment is locked
+    lockoutMinutes: parseInt(process.env.CALLER_VERIFICATION_LOCKOUT_MINUTES || '30', 10),
+    codeTtlMinutes: parseInt(process.env.CALLER_VERIFICATION_CODE_TTL_MINUTES || '10', 10),
+    smsFrom: process.env.CALLER_VERIFICATION_SMS_FROM || process.env.TWILIO_PHONE_NUMBER || '',
+  },
+  
+  // Human transfer configuration
+  transfer: {
+    numbers: process.env.TRANSFER_NUMBERS?.split(',').map(num => num.trim()).filter(Boolean) || [], // On-call staff or queue lines, tried in order
+    callerId: process.env.TRANSFER_CALLER_ID || process.env.TWILIO_PHONE_NUMBER || '',
+    ringTimeoutSeconds: parseInt(process.env.TRANSFER_RING_TIMEOUT_SECONDS || '20', 10),
+    voicemailMaxSeconds: parseInt(process.env.TRANSFER_VOICEMAIL_MAX_SECONDS || '120', 10),
+  },
+  
+  // Call recording configuration
+  recording: {
+    transcripts: process.env.CALL_TRANSCRIPTS_ENABLED !== 'false',
+    audio: process.env.CALL_AUDIO_RECORDING_ENABLED === 'true', // Twilio dual-channel recording of phone calls
+  },
+  
+  // Knowledge base configuration
+  knowledgeBase: {
+    dir: process.env.KNOWLEDGE_BASE_DIR || path.join(__dirname, '../../data'),
+    searchMode: (process.env.KNOWLEDGE_SEARCH_MODE || 'tfidf') as 'tfidf' | 'keyword',
+    topK: parseInt(process.env.KNOWLEDGE_SEARCH_TOP_K || '3', 10),
+    minScore: parseFloat(process.env.KNOWLEDGE_SEARCH_MIN_SCORE || '0.1'), // Minimum TF-IDF similarity, 0-1
+    promptTokenBudget: parseInt(process.env.KNOWLEDGE_PROMPT_TOKEN_BUDGET || '10000', 10),
+    chunkWords: parseInt(process.env.KNOWLEDGE_CHUNK_WORDS || '150', 10), // Max words per entry ingested from a document
+    grounding: (process.env.KNOWLEDGE_GROUNDING || 'strict') as 'strict' | 'off', // strict: prices and policies must cite an entry
+  },
+  
+  // Cost ledger, budgets and alerts (USD; 0 means no budget)
+  costs: {
+    pricingFile: process.env.COST_PRICING_FILE || '', // JSON overrides for src/config/pricing.ts, keyed by model
+    dailyBudget: parseFloat(process.env.COST_DAILY_BUDGET || '0'),
+    monthlyBudget: parseFloat(process.env.COST_MONTHLY_BUDGET || '0'),
+    alertThresholds: (process.env.COST_ALERT_THRESHOLDS || '50,80,100').split(',').map(pct => parseFloat(pct.trim())).filter(pct => pct > 0), // Percent of a budget
+    alertWebhookUrl: process.env.COST_ALERT_WEBHOOK_URL || '', // Receives a JSON POST for each alert
+    hardStop: process.env.COST_HARD_STOP === 'true', // Refuse new realtime sessions once a budget is spent
+    flushIntervalSeconds: parseInt(process.env.COST_LEDGER_FLUSH_SECONDS || '30', 10), // How often live sessions are written to the ledger
+  },
+  
+  // Storage configuration
+  storage: {
+    driver: (process.env.STORAGE_DRIVER || 'file') as 'file' | 'memory',
+    dataDir: process.env.DATA_DIR || path.join(__dirname, '../../data/store'),
+  },
+  
   // Logging configuration
   logging: {
     level: process.env.LOG_LEVEL || 'info',
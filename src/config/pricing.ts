@@ -0,0 +1,70 @@
+/**
+ * Model pricing
+ * USD per 1M units for each model the agent bills against. Override or add
+ * models with a JSON file of the same shape (COST_PRICING_FILE)
+ */
+
+import fs from 'fs';
+import { config } from './index';
+import logger from '../utils/logger';
+
+export type CostProvider = 'gemini_chat' | 'gemini_tts' | 'openai_realtime';
+
+export const COST_PROVIDERS: CostProvider[] = ['gemini_chat', 'gemini_tts', 'openai_realtime'];
+
+export interface ModelPricing {
+  provider: CostProvider;
+  inputTokens?: number; // Text tokens
+  outputTokens?: number;
+  inputAudioTokens?: number;
+  outputAudioTokens?: number;
+  characters?: number; // Text-to-speech input
+}
+
+export const DEFAULT_PRICING: Record<string, ModelPricing> = {
+  'gemini-2.0-flash-exp': { provider: 'gemini_chat', inputTokens: 0.10, outputTokens: 0.40 },
+  'gemini-2.0-flash': { provider: 'gemini_chat', inputTokens: 0.10, outputTokens: 0.40 },
+  'gemini-2.5-flash': { provider: 'gemini_chat', inputTokens: 0.30, outputTokens: 2.50 },
+  'gemini-2.5-pro-preview-tts': { provider: 'gemini_tts', characters: 16.00 },
+  'gemini-2.5-flash-tts-preview': { provider: 'gemini_tts', characters: 8.00 },
+  'gpt-4o-realtime-preview-2024-12-17': { provider: 'openai_realtime', inputTokens: 5.00, outputTokens: 20.00, inputAudioTokens: 40.00, outputAudioTokens: 80.00 },
+  'gpt-4o-realtime-preview': { provider: 'openai_realtime', inputTokens: 5.00, outputTokens: 20.00, inputAudioTokens: 40.00, outputAudioTokens: 80.00 },
+  'gpt-4o-mini-realtime-preview': { provider: 'openai_realtime', inputTokens: 0.60, outputTokens: 2.40, inputAudioTokens: 10.00, outputAudioTokens: 20.00 },
+};
+
+/**
+ * Models billed when a caller doesn't say which one it used
+ * (the defaults of the Gemini, TTS and OpenAI Realtime services)
+ */
+export const DEFAULT_MODELS: Record<CostProvider, string> = {
+  gemini_chat: config.gemini.model,
+  gemini_tts: 'gemini-2.5-pro-preview-tts',
+  openai_realtime: 'gpt-4o-realtime-preview-2024-12-17',
+};
+
+/**
+ * Default pricing merged with the overrides in a JSON file, if any
+ */
+export function loadPricing(filePath?: string): Record<string, ModelPricing> {
+  if (!filePath) return { ...DEFAULT_PRICING };
+
+  try {
+    const overrides: Record<string, ModelPricing> = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    const invalid = Object.entries(overrides)
+      .filter(([, pricing]) => !pricing || !COST_PROVIDERS.includes(pricing.provider))
+      .map(([model]) => model);
+    if (invalid.length > 0) {
+      logger.warn('Ignoring pricing entries without a valid provider', { filePath, models: invalid });
+    }
+
+    const valid = Object.entries(overrides).filter(([model]) => !invalid.includes(model));
+    logger.info('Loaded model pricing overrides', { filePath, models: valid.map(([model]) => model) });
+    return { ...DEFAULT_PRICING, ...Object.fromEntries(valid) };
+  } catch (error) {
+    logger.error('Failed to load model pricing, using defaults', {
+      filePath,
+      error: error instanceof Error ? error.message : error
+    });
+    return { ...DEFAULT_PRICING };
+  }
+}
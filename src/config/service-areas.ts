@@ -0,0 +1,65 @@
+/**
+ * Service area definitions
+ * Maps zip codes to the territories (and consultants) that cover them
+ */
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface ServiceTerritory {
+  id: string;
+  name: string;
+  staffIds: string[];
+  zipCodes?: string[]; // Exact 5-digit zip codes
+  zipPrefixes?: string[]; // 3-digit sectional center prefixes
+  center?: GeoPoint; // Radius coverage around a point (requires ZIP_COORDINATES entry)
+  radiusMiles?: number;
+  excludedZipCodes?: string[];
+}
+
+export const SERVICE_TERRITORIES: ServiceTerritory[] = [
+  {
+    id: 'greater-boston',
+    name: 'Greater Boston',
+    staffIds: ['staff-001', 'staff-003'],
+    zipPrefixes: ['021', '022'],
+    center: { latitude: 42.3601, longitude: -71.0589 },
+    radiusMiles: 20,
+  },
+  {
+    id: 'central-ma',
+    name: 'Central Massachusetts',
+    staffIds: ['staff-002'],
+    zipPrefixes: ['015', '016'],
+    center: { latitude: 42.2626, longitude: -71.8023 },
+    radiusMiles: 25,
+  },
+  {
+    id: 'metrowest',
+    name: 'MetroWest',
+    staffIds: ['staff-002', 'staff-003'],
+    zipCodes: ['01701', '01702', '01760', '01778', '01721'],
+  },
+];
+
+/**
+ * Approximate zip code centroids used for radius coverage
+ */
+export const ZIP_COORDINATES: Record<string, GeoPoint> = {
+  '01545': { latitude: 42.2848, longitude: -71.7143 }, // Shrewsbury
+  '01581': { latitude: 42.2676, longitude: -71.6173 }, // Westborough
+  '01701': { latitude: 42.3195, longitude: -71.4367 }, // Framingham
+  '01752': { latitude: 42.3459, longitude: -71.5523 }, // Marlborough
+  '01801': { latitude: 42.4829, longitude: -71.1573 }, // Woburn
+  '01880': { latitude: 42.5030, longitude: -71.0657 }, // Wakefield
+  '01890': { latitude: 42.4520, longitude: -71.1442 }, // Winchester
+  '01970': { latitude: 42.5195, longitude: -70.8967 }, // Salem
+  '02351': { latitude: 42.1176, longitude: -70.9566 }, // Abington
+  '02360': { latitude: 41.9584, longitude: -70.6673 }, // Plymouth
+  '02453': { latitude: 42.3704, longitude: -71.2370 }, // Waltham
+  '02458': { latitude: 42.3529, longitude: -71.1873 }, // Newton
+  '02467': { latitude: 42.3155, longitude: -71.1626 }, // Chestnut Hill
+  '02481': { latitude: 42.3097, longitude: -71.2757 }, // Wellesley
+};
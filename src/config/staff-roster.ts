@@ -0,0 +1,63 @@
+/**
+ * Design consultant roster
+ * Working hours are wall-clock times in each consultant's time zone
+ */
+
+export type Weekday = 'sunday' | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday';
+
+export const WEEKDAYS: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export interface WorkingHours {
+  start: string; // HH:mm
+  end: string; // HH:mm - last appointment must finish by this time
+}
+
+export interface StaffMember {
+  id: string;
+  name: string;
+  timeZone: string; // IANA time zone, e.g. America/New_York
+  workingHours: Partial<Record<Weekday, WorkingHours>>;
+}
+
+const WEEKDAY_HOURS: WorkingHours = { start: '09:00', end: '20:00' };
+const SATURDAY_HOURS: WorkingHours = { start: '09:00', end: '15:00' };
+
+export const STAFF_ROSTER: StaffMember[] = [
+  {
+    id: 'staff-001',
+    name: 'Mike Johnson',
+    timeZone: 'America/New_York',
+    workingHours: {
+      monday: WEEKDAY_HOURS,
+      tuesday: WEEKDAY_HOURS,
+      wednesday: WEEKDAY_HOURS,
+      thursday: WEEKDAY_HOURS,
+      friday: WEEKDAY_HOURS,
+      saturday: SATURDAY_HOURS,
+    },
+  },
+  {
+    id: 'staff-002',
+    name: 'David Chen',
+    timeZone: 'America/New_York',
+    workingHours: {
+      tuesday: WEEKDAY_HOURS,
+      wednesday: WEEKDAY_HOURS,
+      thursday: WEEKDAY_HOURS,
+      friday: WEEKDAY_HOURS,
+      saturday: SATURDAY_HOURS,
+    },
+  },
+  {
+    id: 'staff-003',
+    name: 'Sarah Martinez',
+    timeZone: 'America/New_York',
+    workingHours: {
+      monday: { start: '12:00', end: '20:00' },
+      tuesday: { start: '12:00', end: '20:00' },
+      wednesday: { start: '12:00', end: '20:00' },
+      thursday: { start: '12:00', end: '20:00' },
+      sunday: { start: '10:00', end: '16:00' },
+    },
+  },
+];
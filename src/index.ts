@@ -9,6 +9,8 @@ import { config, validateConfig } from './config';
 import logger from './utils/logger';
 import { initializeWebSocketServer } from './websocket/server';
 import { initializeOpenAIRealtimeWebSocket } from './routes/openai-realtime.routes';
+import { confirmationCampaignService } from './services/confirmation-campaign.service';
+import { costLedgerService } from './services/cost-ledger.service';
 
 /**
  * Start the server
@@ -31,6 +33,14 @@ async function startServer(): Promise<void> {
     // Initialize OpenAI Realtime WebSocket
     initializeOpenAIRealtimeWebSocket(httpServer);
 
+    // Write live session costs to the ledger periodically
+    costLedgerService.start();
+
+    // Start outbound confirmation calls
+    if (config.campaigns.confirmation.enabled) {
+      confirmationCampaignService.start();
+    }
+
     // Start listening
     httpServer.listen(config.port, () => {
       logger.info(`Voice Agent server started`, {
@@ -68,7 +78,9 @@ For testing with Twilio:
       httpServer.close(() => {
         logger.info('HTTP server closed');
         wsServer.shutdown();
-        process.exit(0);
+        costLedgerService.flush()
+          .catch(error => logger.error('Failed to write cost ledger on shutdown', { error }))
+          .finally(() => process.exit(0));
       });
     });
 
@@ -77,7 +89,9 @@ For testing with Twilio:
       httpServer.close(() => {
         logger.info('HTTP server closed');
         wsServer.shutdown();
-        process.exit(0);
+        costLedgerService.flush()
+          .catch(error => logger.error('Failed to write cost ledger on shutdown', { error }))
+          .finally(() => process.exit(0));
       });
     });
 
@@ -0,0 +1,113 @@
+/**
+ * Authentication middleware
+ * API key / JWT scopes for REST routes and Twilio signatures for webhooks
+ */
+
+import { IncomingMessage } from 'http';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { config } from '../config';
+import { ApiScope, apiKeyService, AuthPrincipal, hasScope } from '../services/api-key.service';
+import { TwilioService } from '../services/twilio.service';
+import logger from '../utils/logger';
+
+/**
+ * Credential from "Authorization: Bearer <key or JWT>" or the X-API-Key header
+ */
+function getCredential(req: Request): string {
+  const authorization = req.get('authorization') || '';
+  const bearer = authorization.match(/^Bearer\s+(.+)$/i);
+  return (bearer ? bearer[1] : req.get('x-api-key') || '').trim();
+}
+
+/**
+ * The request's principal, resolved once and kept on res.locals.auth
+ */
+async function resolvePrincipal(req: Request, res: Response): Promise<AuthPrincipal | null> {
+  if (res.locals.auth === undefined) {
+    res.locals.auth = await apiKeyService.authenticate(getCredential(req));
+  }
+  return res.locals.auth;
+}
+
+/**
+ * Require a scope (or one of several, per request) when AUTH_ENABLED is on
+ */
+export function requireScope(scope: ApiScope | ((req: Request) => ApiScope)): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!config.auth.enabled) {
+      next();
+      return;
+    }
+
+    const principal = await resolvePrincipal(req, res);
+    if (!principal) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required - send an API key as "Authorization: Bearer <key>"'
+      });
+      return;
+    }
+
+    const required = typeof scope === 'function' ? scope(req) : scope;
+    if (!hasScope(principal.scopes, required)) {
+      logger.warn('Request denied - missing scope', { principal: principal.id, required, path: req.originalUrl });
+      res.status(403).json({
+        success: false,
+        message: `This key does not have the ${required} scope`
+      });
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * Check a WebSocket upgrade request for a scope when AUTH_ENABLED is on.
+ * Browsers cannot set headers on a WebSocket, so the credential may also come
+ * from the ?token= query parameter. Returns the HTTP status to refuse with,
+ * or null when the upgrade may go ahead
+ */
+export async function authorizeUpgrade(request: Pick<IncomingMessage, 'url' | 'headers'>, scope: ApiScope): Promise<401 | 403 | null> {
+  if (!config.auth.enabled) return null;
+
+  const authorization = request.headers.authorization || '';
+  const bearer = authorization.match(/^Bearer\s+(.+)$/i);
+  const apiKeyHeader = request.headers['x-api-key'];
+  const query = new URL(request.url || '/', 'http://localhost').searchParams;
+  const credential = (bearer ? bearer[1] : (Array.isArray(apiKeyHeader) ? apiKeyHeader[0] : apiKeyHeader) || query.get('token') || '').trim();
+
+  const principal = await apiKeyService.authenticate(credential);
+  if (!principal) return 401;
+
+  if (!hasScope(principal.scopes, scope)) {
+    logger.warn('WebSocket upgrade denied - missing scope', { principal: principal.id, required: scope, path: request.url?.split('?')[0] });
+    return 403;
+  }
+  return null;
+}
+
+/**
+ * Reject Twilio webhooks without a valid X-Twilio-Signature when
+ * TWILIO_VALIDATE_SIGNATURE is on. The signed URL is rebuilt from
+ * PUBLIC_BASE_URL when set, since proxies change the host and protocol
+ */
+export function validateTwilioSignature(req: Request, res: Response, next: NextFunction): void {
+  if (!config.auth.validateTwilioSignature) {
+    next();
+    return;
+  }
+
+  const signature = req.get('x-twilio-signature') || '';
+  const baseUrl = config.campaigns.publicBaseUrl || `${req.protocol}://${req.get('host')}`;
+  const url = `${baseUrl}${req.originalUrl}`;
+  const params = req.method === 'POST' ? req.body || {} : {};
+
+  if (!signature || !TwilioService.validateWebhookSignature(signature, url, params)) {
+    logger.warn('Rejected Twilio webhook with an invalid signature', { url, hasSignature: !!signature });
+    res.status(403).send('Forbidden');
+    return;
+  }
+
+  next();
+}
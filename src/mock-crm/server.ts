@@ -0,0 +1,242 @@
+/**
+ * Local mock CRM server
+ * Implements the CRM REST shape used by RestCrmAdapter so appointment tools
+ * can be exercised end-to-end without the real CRM
+ *
+ * Run with: npm run mock-crm
+ */
+
+import express, { Application, Request, Response } from 'express';
+import { config } from '../config';
+import logger from '../utils/logger';
+import { staffCalendarService } from '../services/staff-calendar.service';
+import type {
+  RestCrmAvailabilityRecord,
+  RestCrmCustomerRecord,
+  RestCrmEventRecord,
+} from '../services/crm-adapter.service';
+import { addDays, getZonedDateTime } from '../utils/time-zone';
+import { normalizePhone } from '../utils/phone';
+
+const EVENT_STATUSES = ['Scheduled', 'Confirmed', 'Cancelled', 'Rescheduled', 'Completed'];
+const UPDATABLE_FIELDS = [
+  'Scheduled_Time', 'Status', 'Staff', 'Notes_for_Sales_Rep', 'Cancellation_Reason',
+  'Customer_Phone', 'Customer_Email', 'Address', 'Street', 'City', 'State', 'ZipCode',
+] as const satisfies ReadonlyArray<keyof RestCrmEventRecord>;
+const REQUIRED_EVENT_FIELDS: Array<keyof RestCrmEventRecord> = [
+  'Scheduled_Time', 'Customer_Name', 'Address', 'City', 'State', 'ZipCode', 'Staff',
+];
+const MAX_AVAILABILITY_DAYS = 14;
+
+/**
+ * Fields a PATCH may change
+ */
+type RestCrmEventUpdate = Partial<Pick<RestCrmEventRecord, typeof UPDATABLE_FIELDS[number]>>;
+
+/**
+ * In-memory CRM data
+ */
+export class MockCrmState {
+  events = new Map<string, RestCrmEventRecord>();
+  customers = new Map<string, RestCrmCustomerRecord>();
+  private nextId = 1;
+
+  constructor() {
+    this.seed();
+  }
+
+  generateId(prefix: string): string {
+    return `${prefix}-${String(this.nextId++).padStart(4, '0')}`;
+  }
+
+  /**
+   * Find or create the customer record for an event
+   */
+  upsertCustomer(event: RestCrmEventRecord): RestCrmCustomerRecord {
+    const existing = Array.from(this.customers.values()).find(c =>
+      (event.Customer_Phone && normalizePhone(c.Phone) === normalizePhone(event.Customer_Phone)) ||
+      c.Name.toLowerCase() === event.Customer_Name.toLowerCase()
+    );
+    if (existing) return existing;
+
+    const customer: RestCrmCustomerRecord = {
+      Id: this.generateId('cust'),
+      Name: event.Customer_Name,
+      Phone: event.Customer_Phone,
+      Email: event.Customer_Email,
+      Street: event.Street || event.Address,
+      City: event.City,
+      State: event.State,
+      ZipCode: event.ZipCode,
+    };
+    this.customers.set(customer.Id, customer);
+    return customer;
+  }
+
+  private seed(): void {
+    [
+      { Name: 'John Smith', Phone: '+1-555-0123', Street: '123 Main St', City: 'Boston', State: 'MA', ZipCode: '02101' },
+      { Name: 'Sarah Wilson', Phone: '+1-555-0456', Street: '456 Oak Ave', City: 'Worcester', State: 'MA', ZipCode: '01608' },
+    ].forEach(customer => {
+      const Id = this.generateId('cust');
+      this.customers.set(Id, { Id, ...customer });
+    });
+  }
+}
+
+/**
+ * Create the mock CRM Express app
+ */
+export function createMockCrmApp(state: MockCrmState = new MockCrmState()): Application {
+  const app = express();
+  app.use(express.json());
+
+  // Create an event
+  app.post('/events', (req: Request, res: Response) => {
+    const body = req.body || {};
+    const missing = REQUIRED_EVENT_FIELDS.filter(field => !body[field]);
+    if (missing.length > 0) {
+      res.status(400).json({ success: false, error: `Missing required fields: ${missing.join(', ')}` });
+      return;
+    }
+    if (isNaN(Date.parse(body.Scheduled_Time))) {
+      res.status(400).json({ success: false, error: 'Scheduled_Time must be an ISO 8601 date-time' });
+      return;
+    }
+
+    const event: RestCrmEventRecord = {
+      Event_Type: 'Sales Appointment',
+      Name: `Consultation for ${body.Customer_Name}`,
+      Status: 'Scheduled',
+      Street: body.Address,
+      ...body,
+      Id: state.generateId('evt'),
+    };
+
+    state.events.set(event.Id, event);
+    state.upsertCustomer(event);
+    logger.info('Mock CRM event created', { eventId: event.Id, staff: event.Staff });
+
+    res.status(201).json(event);
+  });
+
+  // List events
+  app.get('/events', (req: Request, res: Response) => {
+    const staff = req.query.staff as string | undefined;
+    const events = Array.from(state.events.values())
+      .filter(event => !staff || event.Staff === staff)
+      .sort((a, b) => a.Scheduled_Time.localeCompare(b.Scheduled_Time));
+
+    res.json({ success: true, message: `${events.length} events`, data: events });
+  });
+
+  // Get an event
+  app.get('/events/:id', (req: Request, res: Response) => {
+    const event = state.events.get(req.params.id);
+    if (!event) {
+      res.status(404).json({ success: false, error: 'Event not found' });
+      return;
+    }
+    res.json(event);
+  });
+
+  // Update an event
+  app.patch('/events/:id', (req: Request, res: Response) => {
+    const event = state.events.get(req.params.id);
+    if (!event) {
+      res.status(404).json({ success: false, error: 'Event not found' });
+      return;
+    }
+
+    const body = req.body || {};
+    if (body.Status !== undefined && !EVENT_STATUSES.includes(body.Status)) {
+      res.status(400).json({ success: false, error: `Status must be one of: ${EVENT_STATUSES.join(', ')}` });
+      return;
+    }
+
+    const update: RestCrmEventUpdate = {};
+    const invalid: string[] = [];
+    UPDATABLE_FIELDS.forEach(field => {
+      const value = body[field];
+      if (value === undefined || value === null) return;
+      if (typeof value === 'string') {
+        update[field] = value;
+      } else {
+        invalid.push(field);
+      }
+    });
+    if (invalid.length > 0) {
+      res.status(400).json({ success: false, error: `Fields must be strings: ${invalid.join(', ')}` });
+      return;
+    }
+
+    Object.assign(event, update);
+    logger.info('Mock CRM event updated', { eventId: event.Id, status: event.Status });
+
+    res.json(event);
+  });
+
+  // Open sales rep slots, computed from the staff roster and booked events
+  app.get('/sales-rep-availability', (req: Request, res: Response) => {
+    const staffIds = req.query.staff ? String(req.query.staff).split(',') : undefined;
+    const dates = getDateRange(req.query.from as string | undefined, req.query.to as string | undefined);
+
+    const entries = Array.from(state.events.values()).map(event => ({
+      id: event.Id,
+      staffId: event.Staff,
+      scheduledTime: event.Scheduled_Time,
+      status: event.Status === 'Cancelled' ? 'cancelled' as const : 'scheduled' as const,
+    }));
+
+    const data: RestCrmAvailabilityRecord[] = staffCalendarService
+      .getAvailableSlots(entries, { dates, staffIds })
+      .map(slot => ({
+        Staff: slot.staffId,
+        Staff_Name: slot.staffName,
+        Start_Time: slot.start,
+        End_Time: slot.end,
+      }));
+
+    res.json({ success: true, message: 'Availability retrieved', data });
+  });
+
+  // Search customers by phone and/or name
+  app.get('/customers', (req: Request, res: Response) => {
+    const phone = normalizePhone(req.query.phone as string | undefined);
+    const name = (req.query.name as string | undefined)?.toLowerCase();
+
+    const data = Array.from(state.customers.values()).filter(customer =>
+      (phone && normalizePhone(customer.Phone) === phone) ||
+      (name && customer.Name.toLowerCase().includes(name))
+    );
+
+    res.json({ success: true, message: `${data.length} customers`, data });
+  });
+
+  return app;
+}
+
+/**
+ * Business-time-zone dates between two ISO instants (defaults to the calendar's search window)
+ */
+function getDateRange(from?: string, to?: string): string[] | undefined {
+  if (!from || isNaN(Date.parse(from)) || (to && isNaN(Date.parse(to)))) return undefined;
+
+  const tz = config.calendar.timeZone;
+  const start = getZonedDateTime(new Date(from), tz).date;
+  const end = to ? getZonedDateTime(new Date(to), tz).date : start;
+
+  const dates: string[] = [];
+  for (let date = start; date <= end && dates.length < MAX_AVAILABILITY_DAYS; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+if (require.main === module) {
+  const port = config.crm.mockPort;
+  createMockCrmApp().listen(port, () => {
+    logger.info(`Mock CRM listening on http://localhost:${port}`);
+    console.log(`Mock CRM running at http://localhost:${port} - set CRM_API_BASE_URL=http://localhost:${port}`);
+  });
+}
@@ -0,0 +1,125 @@
+import { Router, Request, Response } from 'express';
+import { agentProfileService, AgentProfileResult } from '../services/agent-profile.service';
+import logger from '../utils/logger';
+
+const router = Router();
+
+const STATUS_BY_REASON: Record<NonNullable<AgentProfileResult['reason']>, number> = {
+  not_found: 404,
+  invalid: 400,
+  conflict: 409,
+};
+
+function sendResult(res: Response, result: AgentProfileResult, successStatus = 200): void {
+  if (!result.success) {
+    res.status(STATUS_BY_REASON[result.reason || 'invalid']).json({
+      success: false,
+      message: result.message,
+      errors: result.errors
+    });
+    return;
+  }
+
+  res.status(successStatus).json({
+    success: true,
+    message: result.message,
+    data: { profile: result.profile }
+  });
+}
+
+function sendError(res: Response, route: string, error: unknown): void {
+  logger.error(`Error in ${route} route:`, error);
+  res.status(500).json({
+    success: false,
+    message: 'Internal server error',
+    error: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+/**
+ * List agent profiles
+ * GET /api/agents
+ */
+router.get('/', async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const profiles = await agentProfileService.listProfiles();
+
+    res.json({
+      success: true,
+      message: `${profiles.length} agent profiles found`,
+      data: { profiles }
+    });
+  } catch (error) {
+    sendError(res, 'list agents', error);
+  }
+});
+
+/**
+ * Get an agent profile
+ * GET /api/agents/:id
+ */
+router.get('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const profile = await agentProfileService.getProfile(req.params.id);
+
+    if (!profile) {
+      res.status(404).json({
+        success: false,
+        message: 'Agent profile not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Agent profile retrieved',
+      data: {
+        profile,
+        withinBusinessHours: agentProfileService.isWithinBusinessHours(profile)
+      }
+    });
+  } catch (error) {
+    sendError(res, 'get agent', error);
+  }
+});
+
+/**
+ * Create an agent profile
+ * POST /api/agents
+ */
+router.post('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await agentProfileService.createProfile(req.body || {});
+    sendResult(res, result, 201);
+  } catch (error) {
+    sendError(res, 'create agent', error);
+  }
+});
+
+/**
+ * Update an agent profile (partial)
+ * PATCH /api/agents/:id
+ */
+router.patch('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await agentProfileService.updateProfile(req.params.id, req.body || {});
+    sendResult(res, result);
+  } catch (error) {
+    sendError(res, 'update agent', error);
+  }
+});
+
+/**
+ * Delete an agent profile
+ * DELETE /api/agents/:id
+ */
+router.delete('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await agentProfileService.deleteProfile(req.params.id);
+    sendResult(res, result);
+  } catch (error) {
+    sendError(res, 'delete agent', error);
+  }
+});
+
+export default router;
@@ -1,5 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { appointmentCancellationToolsService } from '../services/appointment-cancellation-tools.service';
+import { appointmentManagementService, Appointment } from '../services/appointment-management.service';
+import { serviceAreaService } from '../services/service-area.service';
 import logger from '../utils/logger';
 
 const router = Router();
@@ -120,7 +122,7 @@ router.post('/cancellation/update', async (req: Request, res: Response): Promise
  */
 router.post('/reschedule', async (req: Request, res: Response): Promise<void> => {
   try {
-    const { appointmentId, newDate, newTime, newStaffId, reason, attemptId } = req.body;
+    const { appointmentId, newDate, newTime, newStaffId, reason, attemptId, holdId } = req.body;
     
     if (!appointmentId || !newDate || !newTime) {
       res.status(400).json({
@@ -154,7 +156,8 @@ router.post('/reschedule', async (req: Request, res: Response): Promise<void> =>
       newTime,
       newStaffId,
       reason,
-      attemptId
+      attemptId,
+      holdId
     });
 
     res.json(result);
@@ -280,4 +283,142 @@ router.get('/cancellation/stats', async (_req: Request, res: Response): Promise<
   }
 });
 
+/**
+ * List cancellation attempts
+ * GET /api/appointments/cancellation/attempts?appointmentId=
+ */
+router.get('/cancellation/attempts', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const appointmentId = typeof req.query.appointmentId === 'string' ? req.query.appointmentId : undefined;
+    const attempts = await appointmentManagementService.listCancellationAttempts(appointmentId);
+
+    res.json({
+      success: true,
+      message: `Found ${attempts.length} cancellation attempt(s)`,
+      data: { attempts }
+    });
+  } catch (error) {
+    logger.error('Error in list cancellation attempts route:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Check whether a zip code is inside the service area
+ * GET /api/appointments/service-area/:zipCode
+ */
+router.get('/service-area/:zipCode', (req: Request, res: Response) => {
+  const match = serviceAreaService.lookup(req.params.zipCode);
+
+  res.json({
+    success: true,
+    message: match.served ? 'Zip code is in the service area' : 'Zip code is outside the service area',
+    data: match
+  });
+});
+
+/**
+ * List appointments
+ * GET /api/appointments?status=&customerPhone=&staffId=&from=&to=
+ */
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { status, customerPhone, staffId, from, to } = req.query;
+
+    const appointments = await appointmentManagementService.listAppointments({
+      status: typeof status === 'string' ? status as Appointment['status'] : undefined,
+      customerPhone: typeof customerPhone === 'string' ? customerPhone : undefined,
+      staffId: typeof staffId === 'string' ? staffId : undefined,
+      from: typeof from === 'string' ? from : undefined,
+      to: typeof to === 'string' ? to : undefined
+    });
+
+    res.json({
+      success: true,
+      message: `Found ${appointments.length} appointment(s)`,
+      data: { appointments }
+    });
+  } catch (error) {
+    logger.error('Error in list appointments route:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Post-call summaries for an appointment, newest first
+ * GET /api/appointments/:id/call-summaries?followUpNeeded=true
+ */
+router.get('/:id/call-summaries', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const appointment = await appointmentManagementService.getAppointmentById(req.params.id);
+
+    if (!appointment) {
+      res.status(404).json({
+        success: false,
+        message: 'Appointment not found'
+      });
+      return;
+    }
+
+    const followUpOnly = req.query.followUpNeeded === 'true';
+    const callSummaries = (appointment.callSummaries || [])
+      .filter(summary => !followUpOnly || summary.followUpNeeded)
+      .reverse();
+
+    res.json({
+      success: true,
+      message: `Found ${callSummaries.length} call summary(ies)`,
+      data: { appointmentId: appointment.id, callSummaries }
+    });
+  } catch (error) {
+    logger.error('Error in call summaries route:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Get appointment details with its cancellation history and call summaries
+ * GET /api/appointments/:id
+ */
+router.get('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const appointment = await appointmentManagementService.getAppointmentById(req.params.id);
+
+    if (!appointment) {
+      res.status(404).json({
+        success: false,
+        message: 'Appointment not found'
+      });
+      return;
+    }
+
+    const cancellationAttempts = await appointmentManagementService.listCancellationAttempts(appointment.id);
+
+    res.json({
+      success: true,
+      message: 'Appointment found',
+      data: { appointment, cancellationAttempts, callSummaries: appointment.callSummaries || [] }
+    });
+  } catch (error) {
+    logger.error('Error in get appointment route:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
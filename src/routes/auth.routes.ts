@@ -0,0 +1,85 @@
+import { Router, Request, Response } from 'express';
+import { apiKeyService, ApiKeyResult, API_SCOPES } from '../services/api-key.service';
+import logger from '../utils/logger';
+
+const router = Router();
+
+const STATUS_BY_REASON: Record<NonNullable<ApiKeyResult['reason']>, number> = {
+  not_found: 404,
+  invalid: 400,
+};
+
+function sendResult(res: Response, result: ApiKeyResult, successStatus = 200): void {
+  if (!result.success) {
+    res.status(STATUS_BY_REASON[result.reason || 'invalid']).json({
+      success: false,
+      message: result.message,
+      errors: result.errors
+    });
+    return;
+  }
+
+  res.status(successStatus).json({
+    success: true,
+    message: result.message,
+    data: {
+      apiKey: result.apiKey,
+      ...(result.key ? { key: result.key } : {})
+    }
+  });
+}
+
+function sendError(res: Response, route: string, error: unknown): void {
+  logger.error(`Error in ${route} route:`, error);
+  res.status(500).json({
+    success: false,
+    message: 'Internal server error',
+    error: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+/**
+ * List API keys (without the keys themselves)
+ * GET /api/auth/keys
+ */
+router.get('/keys', async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const keys = await apiKeyService.listKeys();
+    res.json({
+      success: true,
+      message: `${keys.length} API keys found`,
+      data: { keys, scopes: API_SCOPES }
+    });
+  } catch (error) {
+    sendError(res, 'list API keys', error);
+  }
+});
+
+/**
+ * Create an API key - the key is only returned in this response
+ * POST /api/auth/keys
+ * Body: { name, scopes: ['chat' | 'appointments:read' | 'appointments:write' | 'admin'], expiresAt? }
+ */
+router.post('/keys', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await apiKeyService.createKey(req.body || {});
+    sendResult(res, result, 201);
+  } catch (error) {
+    sendError(res, 'create API key', error);
+  }
+});
+
+/**
+ * Revoke an API key
+ * DELETE /api/auth/keys/:id
+ */
+router.delete('/keys/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await apiKeyService.revokeKey(req.params.id);
+    sendResult(res, result);
+  } catch (error) {
+    sendError(res, 'revoke API key', error);
+  }
+});
+
+export default router;
@@ -0,0 +1,130 @@
+import { Router, Request, Response } from 'express';
+import { callRecordingService, CallRecordQuery } from '../services/call-recording.service';
+import { TwilioService } from '../services/twilio.service';
+import logger from '../utils/logger';
+
+const router = Router();
+
+/**
+ * Search archived calls and voice sessions (newest first)
+ * GET /api/calls?q=&phone=&channel=&direction=&campaign=&appointmentId=&agentId=&unsupportedClaims=true&from=&to=&limit=
+ */
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { q, phone, channel, direction, campaign, appointmentId, agentId, unsupportedClaims, from, to, limit } = req.query as Record<string, string | undefined>;
+
+    if ((from && isNaN(Date.parse(from))) || (to && isNaN(Date.parse(to)))) {
+      res.status(400).json({
+        success: false,
+        message: 'from and to must be ISO 8601 dates'
+      });
+      return;
+    }
+
+    const query: CallRecordQuery = {
+      q,
+      phone,
+      channel: channel as CallRecordQuery['channel'],
+      direction: direction as CallRecordQuery['direction'],
+      campaign,
+      appointmentId,
+      agentId,
+      unsupportedClaims: unsupportedClaims === 'true',
+      from,
+      to,
+      limit: limit ? parseInt(limit, 10) || undefined : undefined
+    };
+
+    const calls = await callRecordingService.listCalls(query);
+
+    res.json({
+      success: true,
+      message: `${calls.length} calls found`,
+      data: { calls }
+    });
+  } catch (error) {
+    logger.error('Error in list calls route:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Full transcript of a call, including tool calls and results
+ * GET /api/calls/:id
+ */
+router.get('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const call = await callRecordingService.getCall(req.params.id);
+
+    if (!call) {
+      res.status(404).json({
+        success: false,
+        message: 'Call not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Call retrieved',
+      data: {
+        call,
+        recordingAudioUrl: call.recording ? `${req.baseUrl}/${encodeURIComponent(call.id)}/recording` : undefined
+      }
+    });
+  } catch (error) {
+    logger.error('Error in get call route:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Stream a phone call's audio recording (MP3)
+ * GET /api/calls/:id/recording
+ */
+router.get('/:id/recording', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const call = await callRecordingService.getCall(req.params.id);
+
+    if (!call?.recording) {
+      res.status(404).json({
+        success: false,
+        message: 'No recording for this call'
+      });
+      return;
+    }
+
+    const audio = await TwilioService.fetchRecordingAudio(call.recording.recordingSid);
+    audio.on('error', error => {
+      logger.error('Error streaming call recording', { callId: call.id, error: error.message });
+      if (res.headersSent) {
+        res.destroy(error);
+      } else {
+        res.status(502).json({
+          success: false,
+          message: 'Recording could not be retrieved',
+          error: error.message
+        });
+      }
+    });
+    res.type('audio/mpeg');
+    audio.pipe(res);
+  } catch (error) {
+    logger.error('Error in call recording route:', error);
+    res.status(502).json({
+      success: false,
+      message: 'Recording could not be retrieved',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,82 @@
+import { Router, Request, Response } from 'express';
+import { confirmationCampaignService } from '../services/confirmation-campaign.service';
+import { appointmentManagementService } from '../services/appointment-management.service';
+import { config } from '../config';
+import logger from '../utils/logger';
+
+const router = Router();
+
+/**
+ * Confirmation campaign status and the appointments it would call right now
+ * GET /api/campaigns/confirmation
+ */
+router.get('/confirmation', async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const due = await confirmationCampaignService.selectDueAppointments();
+    const tracked = (await appointmentManagementService.listAppointments())
+      .filter(apt => apt.confirmationCall);
+
+    res.json({
+      success: true,
+      message: `${due.length} appointments due for a confirmation call`,
+      data: {
+        enabled: config.campaigns.confirmation.enabled,
+        running: confirmationCampaignService.isRunning,
+        settings: config.campaigns.confirmation,
+        due: due.map(apt => ({
+          id: apt.id,
+          customerName: apt.customerName,
+          scheduledTime: apt.scheduledTime,
+          attempts: apt.confirmationCall?.attempts.length || 0
+        })),
+        calls: tracked.map(apt => ({
+          id: apt.id,
+          customerName: apt.customerName,
+          scheduledTime: apt.scheduledTime,
+          appointmentStatus: apt.status,
+          confirmationCall: apt.confirmationCall
+        }))
+      }
+    });
+  } catch (error) {
+    logger.error('Error in confirmation campaign status route:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Dial due appointments now instead of waiting for the next poll
+ * POST /api/campaigns/confirmation/run
+ */
+router.post('/confirmation/run', async (_req: Request, res: Response): Promise<void> => {
+  try {
+    if (!config.campaigns.publicBaseUrl) {
+      res.status(400).json({
+        success: false,
+        message: 'PUBLIC_BASE_URL must be configured so Twilio can reach the call webhooks'
+      });
+      return;
+    }
+
+    const result = await confirmationCampaignService.runOnce();
+
+    res.json({
+      success: true,
+      message: `Placed ${result.dialed.length} of ${result.due} due confirmation calls`,
+      data: result
+    });
+  } catch (error) {
+    logger.error('Error in confirmation campaign run route:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
@@ -6,34 +6,37 @@
 import { Router, Request, Response } from 'express';
 import { GeminiService } from '../services/gemini.service';
 import { StreamingTTSService, streamingTTS } from '../services/streaming-tts.service';
+import { ChatSessionService, getSessionToken } from '../services/chat-session.service';
 import logger from '../utils/logger';
 import { costTracker } from '../utils/cost-tracker';
 
 const router = Router();
 
-// Store active streaming sessions
-const activeStreamingSessions = new Map<string, {
+// Active streaming sessions by token
+const streamingSessions = new ChatSessionService<{
   geminiService: GeminiService;
   ttsProcessor: ReturnType<StreamingTTSService['createIncrementalProcessor']>;
-}>();
+}>('stream', session => {
+  session.data.geminiService.endConversation(session.id);
+  costTracker.endSession(session.id);
+});
 
 /**
  * POST /api/chat/stream/start
  * Start a new streaming chat session
  */
-router.post('/start', async (req: Request, res: Response) => {
+router.post('/start', async (_req: Request, res: Response) => {
   try {
-    const sessionId = req.ip || 'default';
-    
     // Create new services for this session
     const geminiService = new GeminiService();
     const ttsProcessor = streamingTTS.createIncrementalProcessor();
     
-    // Store session
-    activeStreamingSessions.set(sessionId, {
+    // Store session - the client sends the token back on every request
+    const session = streamingSessions.create({
       geminiService,
       ttsProcessor
     });
+    const sessionId = session.id;
     
     // Start conversation
     geminiService.startConversation(sessionId);
@@ -46,6 +49,8 @@ router.post('/start', async (req: Request, res: Response) => {
     res.json({ 
       success: true, 
       sessionId,
+      sessionToken: session.token,
+      expiresAfterIdleSeconds: streamingSessions.idleTimeoutSeconds,
       message: 'Streaming chat session started'
     });
   } catch (error) {
@@ -60,13 +65,15 @@ router.post('/start', async (req: Request, res: Response) => {
  */
 router.post('/message', async (req: Request, res: Response): Promise<void> => {
   const { message } = req.body;
-  const sessionId = req.ip || 'default';
+  const token = getSessionToken(req);
   
-  const session = activeStreamingSessions.get(sessionId);
-  if (!session) {
-    res.status(400).json({ error: 'No active session' });
+  const streamingSession = streamingSessions.get(token);
+  if (!streamingSession) {
+    res.status(401).json({ error: token ? 'Session expired or not found - start a new one' : 'Session token is required' });
     return;
   }
+  const sessionId = streamingSession.id;
+  const session = streamingSession.data;
   
   try {
     
@@ -185,15 +192,17 @@ router.post('/message', async (req: Request, res: Response): Promise<void> => {
  * POST /api/chat/stream/end
  * End a streaming chat session
  */
-router.post('/end', async (req: Request, res: Response) => {
+router.post('/end', async (req: Request, res: Response): Promise<void> => {
   try {
-    const sessionId = req.ip || 'default';
+    const token = getSessionToken(req);
     
-    const session = activeStreamingSessions.get(sessionId);
-    if (session) {
-      session.geminiService.endConversation(sessionId);
-      activeStreamingSessions.delete(sessionId);
+    const session = streamingSessions.end(token);
+    if (!session) {
+      res.status(401).json({ error: token ? 'Session expired or not found' : 'Session token is required' });
+      return;
     }
+    const sessionId = session.id;
+    session.data.geminiService.endConversation(sessionId);
     
     // Get cost summary
     const costSummary = costTracker.endSession(sessionId);
@@ -6,27 +6,47 @@
 import { Router, Request, Response } from 'express';
 import { GeminiService } from '../services/gemini.service';
 import { GeminiTTSService, GeminiVoice } from '../services/gemini-tts.service';
+import { ChatSession, ChatSessionService, getSessionToken } from '../services/chat-session.service';
+import { requireScope } from '../middleware/auth.middleware';
 import logger from '../utils/logger';
 import { costTracker } from '../utils/cost-tracker';
+import { costLedgerService } from '../services/cost-ledger.service';
 
 const router = Router();
 
-// Store active chat sessions (in production, use Redis)
-const activeSessions = new Map<string, GeminiService>();
+interface ChatSessionData {
+  geminiService: GeminiService;
+  ttsActive: boolean; // Prevents overlapping TTS requests
+}
+
+// Active chat sessions by token (in production, use Redis)
+const chatSessions = new ChatSessionService<ChatSessionData>('chat', session => {
+  session.data.geminiService.endConversation(session.id);
+  costTracker.endSession(session.id);
+});
 const ttsService = new GeminiTTSService(GeminiVoice.CALLIRRHOE); // Using Callirrhoe for more natural conversation
 
-// Track active TTS requests to prevent overlapping
-const activeTTSRequests = new Set<string>();
+/**
+ * The session for the request's token, or null after sending a 401
+ */
+function requireSession(req: Request, res: Response): ChatSession<ChatSessionData> | null {
+  const token = getSessionToken(req);
+  const session = chatSessions.get(token);
+  if (!session) {
+    res.status(401).json({
+      success: false,
+      error: token ? 'Session expired or not found - start a new one' : 'Session token is required',
+    });
+  }
+  return session;
+}
 
 /**
  * Start a new chat session
  * POST /api/chat/start
  */
-router.post('/start', async (req: Request, res: Response) => {
+router.post('/start', async (_req: Request, res: Response) => {
   try {
-    // Generate a simple session ID (in production, use proper session management)
-    const sessionId = req.ip || 'default';
-    
     // Create a new Gemini service instance for this session
     const geminiService = new GeminiService(
       `You are a helpful voice assistant having a phone conversation. 
@@ -36,15 +56,17 @@ router.post('/start', async (req: Request, res: Response) => {
       Respond as if you're having a natural conversation.`
     );
     
-    // Store the session
-    activeSessions.set(sessionId, geminiService);
+    // Store the session - the client sends the token back on every request
+    const session = chatSessions.create({ geminiService, ttsActive: false });
+    const sessionId = session.id;
     
     // Start the conversation
-    await geminiService.startConversation('User connected via web interface');
+    geminiService.startConversation(sessionId);
     
     // Get initial greeting
     const greeting = await geminiService.sendMessage(
-      'A user just connected to speak with you. Please greet them warmly and ask how you can help.'
+      'A user just connected to speak with you. Please greet them warmly and ask how you can help.',
+      sessionId
     );
     
     // Start cost tracking
@@ -62,6 +84,8 @@ router.post('/start', async (req: Request, res: Response) => {
     res.json({
       success: true,
       sessionId,
+      sessionToken: session.token,
+      expiresAfterIdleSeconds: chatSessions.idleTimeoutSeconds,
       greeting,
     });
   } catch (error) {
@@ -80,7 +104,9 @@ router.post('/start', async (req: Request, res: Response) => {
 router.post('/message', async (req: Request, res: Response): Promise<void> => {
   try {
     const { message } = req.body;
-    const sessionId = req.ip || 'default';
+    const session = requireSession(req, res);
+    if (!session) return;
+    const sessionId = session.id;
     
     if (!message) {
       res.status(400).json({
@@ -90,20 +116,10 @@ router.post('/message', async (req: Request, res: Response): Promise<void> => {
       return;
     }
     
-    // Get the session
-    let geminiService = activeSessions.get(sessionId);
-    
-    // If no session exists, create one
-    if (!geminiService) {
-      geminiService = new GeminiService();
-      await geminiService.startConversation('User reconnected');
-      activeSessions.set(sessionId, geminiService);
-    }
-    
     logger.info('Chat message received', { sessionId, message });
     
     // Send message to Gemini and get response
-    const response = await geminiService.sendMessage(message);
+    const response = await session.data.geminiService.sendMessage(message, sessionId);
     
     // Track chat cost
     costTracker.trackChatUsage(sessionId, message, response);
@@ -130,6 +146,9 @@ router.post('/message', async (req: Request, res: Response): Promise<void> => {
 router.post('/tts', async (req: Request, res: Response): Promise<void> => {
   try {
     const { text, voice } = req.body;
+    const session = requireSession(req, res);
+    if (!session) return;
+    const sessionId = session.id;
     
     if (!text) {
       res.status(400).json({
@@ -139,10 +158,8 @@ router.post('/tts', async (req: Request, res: Response): Promise<void> => {
       return;
     }
     
-    const sessionId = req.ip || 'default';
-    
     // Check if TTS is already in progress for this session
-    if (activeTTSRequests.has(sessionId)) {
+    if (session.data.ttsActive) {
       logger.warn('TTS request already in progress', { sessionId });
       res.status(429).json({
         success: false,
@@ -152,7 +169,7 @@ router.post('/tts', async (req: Request, res: Response): Promise<void> => {
     }
     
     // Mark TTS as active
-    activeTTSRequests.add(sessionId);
+    session.data.ttsActive = true;
     
     logger.info('TTS request received', { text: text.substring(0, 50) + '...', voice });
     
@@ -171,8 +188,8 @@ router.post('/tts', async (req: Request, res: Response): Promise<void> => {
       
       res.send(audioBuffer);
     } finally {
-      // Always remove from active requests
-      activeTTSRequests.delete(sessionId);
+      // Always clear the in-progress flag
+      session.data.ttsActive = false;
     }
   } catch (error) {
     logger.error('Error generating TTS', { error });
@@ -187,16 +204,15 @@ router.post('/tts', async (req: Request, res: Response): Promise<void> => {
  * End a chat session
  * POST /api/chat/end
  */
-router.post('/end', async (req: Request, res: Response) => {
+router.post('/end', async (req: Request, res: Response): Promise<void> => {
   try {
-    const sessionId = req.ip || 'default';
+    const session = requireSession(req, res);
+    if (!session) return;
+    const sessionId = session.id;
     
-    // Get and end the session
-    const geminiService = activeSessions.get(sessionId);
-    if (geminiService) {
-      geminiService.endConversation(sessionId);
-      activeSessions.delete(sessionId);
-    }
+    // End the session
+    chatSessions.end(session.token);
+    session.data.geminiService.endConversation(sessionId);
     
     // End cost tracking and get final cost
     const sessionCost = costTracker.endSession(sessionId);
@@ -222,19 +238,18 @@ router.post('/end', async (req: Request, res: Response) => {
 });
 
 /**
- * Get session status
+ * Get session status (for the session in the X-Session-Token header, if any)
  * GET /api/chat/status
  */
 router.get('/status', (req: Request, res: Response) => {
-  const sessionId = req.ip || 'default';
-  const hasActiveSession = activeSessions.has(sessionId);
-  const sessionCost = costTracker.getSessionCost(sessionId);
+  const session = chatSessions.get(getSessionToken(req));
+  const sessionCost = session ? costTracker.getSessionCost(session.id) : undefined;
   
   res.json({
     success: true,
-    sessionId,
-    active: hasActiveSession,
-    totalSessions: activeSessions.size,
+    sessionId: session?.id,
+    active: !!session,
+    totalSessions: chatSessions.size,
     currentCost: sessionCost?.totalCost || 0,
     costBreakdown: sessionCost ? {
       chat: sessionCost.chatCosts.totalCost,
@@ -255,16 +270,18 @@ router.get('/voices', (_req: Request, res: Response) => {
 });
 
 /**
- * Get cost summary
+ * Get cost summary (spend across all sessions, so admin only)
  * GET /api/chat/costs
  */
-router.get('/costs', (_req: Request, res: Response) => {
+router.get('/costs', requireScope('admin'), async (_req: Request, res: Response) => {
   const costs = costTracker.getTotalCosts();
+  const budgets = await costLedgerService.getBudgetStatus();
   
   res.json({
     success: true,
     ...costs,
-    note: 'Costs are estimates based on current Gemini API pricing',
+    budgets,
+    note: 'Costs are estimates based on the model pricing table (src/config/pricing.ts, COST_PRICING_FILE)',
   });
 });
 
@@ -0,0 +1,91 @@
+import { Router, Request, Response } from 'express';
+import { costLedgerService } from '../services/cost-ledger.service';
+import { costReportService, REPORT_BREAKDOWNS, ReportBreakdown } from '../services/cost-report.service';
+import logger from '../utils/logger';
+
+const router = Router();
+
+const REPORT_FORMATS = ['json', 'csv'];
+
+function sendError(res: Response, route: string, error: unknown): void {
+  logger.error(`Error in ${route} route:`, error);
+  res.status(500).json({
+    success: false,
+    message: 'Internal server error',
+    error: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+/**
+ * Cost and usage by day or week, provider, agent and call direction, with
+ * cost per booked appointment. format=csv downloads one breakdown as CSV
+ * GET /api/costs/report?from=YYYY-MM-DD&to=YYYY-MM-DD&interval=day|week&agentId=&direction=inbound|outbound&format=json|csv&breakdown=series|provider|agent|direction
+ */
+router.get('/report', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { from, to, interval, agentId, direction } = req.query;
+    const format = (req.query.format as string | undefined) || 'json';
+    const breakdown = (req.query.breakdown as ReportBreakdown | undefined) || 'series';
+
+    if (!REPORT_FORMATS.includes(format)) {
+      res.status(400).json({
+        success: false,
+        message: `format must be one of: ${REPORT_FORMATS.join(', ')}`
+      });
+      return;
+    }
+
+    if (!REPORT_BREAKDOWNS.includes(breakdown)) {
+      res.status(400).json({
+        success: false,
+        message: `breakdown must be one of: ${REPORT_BREAKDOWNS.join(', ')}`
+      });
+      return;
+    }
+
+    const result = await costReportService.buildReport({ from, to, interval, agentId, direction });
+    if (!result.success || !result.report) {
+      res.status(400).json({
+        success: false,
+        message: result.message,
+        errors: result.errors
+      });
+      return;
+    }
+
+    if (format === 'csv') {
+      res.type('text/csv');
+      res.attachment(`costs-${breakdown}-${result.report.from}-to-${result.report.to}.csv`);
+      res.send(costReportService.toCsv(result.report, breakdown));
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: result.message,
+      data: { report: result.report }
+    });
+  } catch (error) {
+    sendError(res, 'cost report', error);
+  }
+});
+
+/**
+ * Spend against the daily and monthly budgets, and whether hard stop is refusing sessions
+ * GET /api/costs/budgets
+ */
+router.get('/budgets', async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const { allowed, budgets, message } = await costLedgerService.checkBudget();
+
+    res.json({
+      success: true,
+      message: message || `${budgets.length} budgets configured`,
+      data: { budgets, acceptingSessions: allowed }
+    });
+  } catch (error) {
+    sendError(res, 'cost budgets', error);
+  }
+});
+
+export default router;
@@ -0,0 +1,443 @@
+import express, { Router, Request, Response } from 'express';
+import {
+  knowledgeManagementService,
+  KnowledgeEntryResult,
+  KnowledgeImportMode,
+  KnowledgeImportResult,
+} from '../services/knowledge-management.service';
+import { DOCUMENT_FORMATS, DocumentFormat, knowledgeIngestionService } from '../services/knowledge-ingestion.service';
+import { DEFAULT_KNOWLEDGE_BASE_ID } from '../services/simple-knowledge-base.service';
+import { KNOWLEDGE_FORMATS, KnowledgeFormat } from '../utils/knowledge-formats';
+import logger from '../utils/logger';
+
+const router = Router();
+
+const KNOWLEDGE_BASE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+const STATUS_BY_REASON: Record<NonNullable<KnowledgeEntryResult['reason']>, number> = {
+  not_found: 404,
+  invalid: 400,
+  conflict: 409,
+};
+
+const EXPORT_TYPES: Record<KnowledgeFormat, { contentType: string; extension: string }> = {
+  json: { contentType: 'application/json', extension: 'json' },
+  csv: { contentType: 'text/csv', extension: 'csv' },
+  markdown: { contentType: 'text/markdown', extension: 'md' },
+};
+
+// CSV and Markdown imports arrive as raw text; JSON uses the app-wide parser
+const textBody = express.text({ type: ['text/csv', 'text/markdown', 'text/plain'], limit: '5mb' });
+
+// Documents are ingested from the raw upload bytes whatever their type
+const documentBody = express.raw({ type: () => true, limit: '20mb' });
+
+/**
+ * Knowledge base from ?knowledgeBaseId= (default knowledge base when omitted)
+ */
+function getKnowledgeBaseId(req: Request, res: Response): string | null {
+  const knowledgeBaseId = typeof req.query.knowledgeBaseId === 'string'
+    ? req.query.knowledgeBaseId
+    : DEFAULT_KNOWLEDGE_BASE_ID;
+
+  if (!KNOWLEDGE_BASE_ID_PATTERN.test(knowledgeBaseId)) {
+    res.status(400).json({
+      success: false,
+      message: 'knowledgeBaseId must be lowercase letters, numbers, dashes or underscores'
+    });
+    return null;
+  }
+  return knowledgeBaseId;
+}
+
+function getFormat(req: Request, res: Response): KnowledgeFormat | null {
+  const format = typeof req.query.format === 'string' ? req.query.format : 'json';
+
+  if (!KNOWLEDGE_FORMATS.includes(format as KnowledgeFormat)) {
+    res.status(400).json({
+      success: false,
+      message: `format must be one of: ${KNOWLEDGE_FORMATS.join(', ')}`
+    });
+    return null;
+  }
+  return format as KnowledgeFormat;
+}
+
+function sendResult(res: Response, result: KnowledgeEntryResult, successStatus = 200): void {
+  if (!result.success) {
+    res.status(STATUS_BY_REASON[result.reason || 'invalid']).json({
+      success: false,
+      message: result.message,
+      errors: result.errors
+    });
+    return;
+  }
+
+  res.status(successStatus).json({
+    success: true,
+    message: result.message,
+    data: { entry: result.entry, version: result.version }
+  });
+}
+
+function sendImportResult(res: Response, result: KnowledgeImportResult): void {
+  const { success, message, errors, ...data } = result;
+
+  if (!success) {
+    res.status(400).json({ success: false, message, errors });
+    return;
+  }
+
+  res.json({ success: true, message, data });
+}
+
+function sendError(res: Response, route: string, error: unknown): void {
+  logger.error(`Error in ${route} route:`, error);
+  res.status(500).json({
+    success: false,
+    message: 'Internal server error',
+    error: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+/**
+ * List knowledge entries
+ * GET /api/knowledge/entries?knowledgeBaseId=&category=
+ */
+router.get('/entries', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const knowledgeBaseId = getKnowledgeBaseId(req, res);
+    if (!knowledgeBaseId) return;
+
+    const category = typeof req.query.category === 'string' ? req.query.category : undefined;
+    const entries = await knowledgeManagementService.listEntries(knowledgeBaseId, category);
+
+    res.json({
+      success: true,
+      message: `${entries.length} knowledge entries found`,
+      data: { knowledgeBaseId, entries }
+    });
+  } catch (error) {
+    sendError(res, 'list knowledge entries', error);
+  }
+});
+
+/**
+ * Get a knowledge entry
+ * GET /api/knowledge/entries/:id
+ */
+router.get('/entries/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const knowledgeBaseId = getKnowledgeBaseId(req, res);
+    if (!knowledgeBaseId) return;
+
+    const entry = await knowledgeManagementService.getEntry(knowledgeBaseId, req.params.id);
+
+    if (!entry) {
+      res.status(404).json({
+        success: false,
+        message: 'Knowledge entry not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Knowledge entry retrieved',
+      data: { entry }
+    });
+  } catch (error) {
+    sendError(res, 'get knowledge entry', error);
+  }
+});
+
+/**
+ * Create a knowledge entry
+ * POST /api/knowledge/entries
+ */
+router.post('/entries', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const knowledgeBaseId = getKnowledgeBaseId(req, res);
+    if (!knowledgeBaseId) return;
+
+    const result = await knowledgeManagementService.createEntry(knowledgeBaseId, req.body || {});
+    sendResult(res, result, 201);
+  } catch (error) {
+    sendError(res, 'create knowledge entry', error);
+  }
+});
+
+/**
+ * Update a knowledge entry (partial)
+ * PATCH /api/knowledge/entries/:id
+ */
+router.patch('/entries/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const knowledgeBaseId = getKnowledgeBaseId(req, res);
+    if (!knowledgeBaseId) return;
+
+    const result = await knowledgeManagementService.updateEntry(knowledgeBaseId, req.params.id, req.body || {});
+    sendResult(res, result);
+  } catch (error) {
+    sendError(res, 'update knowledge entry', error);
+  }
+});
+
+/**
+ * Delete a knowledge entry
+ * DELETE /api/knowledge/entries/:id
+ */
+router.delete('/entries/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const knowledgeBaseId = getKnowledgeBaseId(req, res);
+    if (!knowledgeBaseId) return;
+
+    const result = await knowledgeManagementService.deleteEntry(knowledgeBaseId, req.params.id);
+    sendResult(res, result);
+  } catch (error) {
+    sendError(res, 'delete knowledge entry', error);
+  }
+});
+
+/**
+ * Download the knowledge base
+ * GET /api/knowledge/export?format=json|csv|markdown
+ */
+router.get('/export', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const knowledgeBaseId = getKnowledgeBaseId(req, res);
+    const format = knowledgeBaseId && getFormat(req, res);
+    if (!knowledgeBaseId || !format) return;
+
+    const document = await knowledgeManagementService.exportEntries(knowledgeBaseId, format);
+    const { contentType, extension } = EXPORT_TYPES[format];
+
+    res.type(contentType);
+    res.attachment(`knowledge-base-${knowledgeBaseId}.${extension}`);
+    res.send(document);
+  } catch (error) {
+    sendError(res, 'export knowledge', error);
+  }
+});
+
+/**
+ * Upload entries; mode=merge adds/updates by id, mode=replace swaps the whole knowledge base
+ * POST /api/knowledge/import?format=json|csv|markdown&mode=merge|replace
+ */
+router.post('/import', textBody, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const knowledgeBaseId = getKnowledgeBaseId(req, res);
+    const format = knowledgeBaseId && getFormat(req, res);
+    if (!knowledgeBaseId || !format) return;
+
+    const mode = req.query.mode || 'merge';
+    if (mode !== 'merge' && mode !== 'replace') {
+      res.status(400).json({
+        success: false,
+        message: 'mode must be merge or replace'
+      });
+      return;
+    }
+
+    const result = await knowledgeManagementService.importEntries(
+      knowledgeBaseId,
+      format,
+      req.body,
+      mode as KnowledgeImportMode
+    );
+    sendImportResult(res, result);
+  } catch (error) {
+    sendError(res, 'import knowledge', error);
+  }
+});
+
+/**
+ * Documents ingested into the knowledge base
+ * GET /api/knowledge/documents
+ */
+router.get('/documents', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const knowledgeBaseId = getKnowledgeBaseId(req, res);
+    if (!knowledgeBaseId) return;
+
+    const documents = await knowledgeManagementService.listDocuments(knowledgeBaseId);
+
+    res.json({
+      success: true,
+      message: `${documents.length} documents found`,
+      data: { knowledgeBaseId, documents }
+    });
+  } catch (error) {
+    sendError(res, 'list knowledge documents', error);
+  }
+});
+
+/**
+ * Upload a Markdown, HTML or PDF document as the raw request body; it is chunked
+ * into entries, replacing those from an earlier upload with the same name
+ * POST /api/knowledge/documents?name=brochure.pdf&format=&category=&priority=
+ */
+router.post('/documents', documentBody, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const knowledgeBaseId = getKnowledgeBaseId(req, res);
+    if (!knowledgeBaseId) return;
+
+    const { name, format, category, priority } = req.query;
+    if (typeof name !== 'string' || !name.trim()) {
+      res.status(400).json({
+        success: false,
+        message: 'name query parameter is required (the document file name)'
+      });
+      return;
+    }
+    if (format !== undefined && !DOCUMENT_FORMATS.includes(format as DocumentFormat)) {
+      res.status(400).json({
+        success: false,
+        message: `format must be one of: ${DOCUMENT_FORMATS.join(', ')}`
+      });
+      return;
+    }
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Send the document as the raw request body'
+      });
+      return;
+    }
+
+    const result = await knowledgeIngestionService.ingestDocument(knowledgeBaseId, {
+      name,
+      content: req.body,
+      format: format as DocumentFormat | undefined,
+      contentType: req.get('content-type'),
+      category: typeof category === 'string' && category.trim() ? category.trim().toLowerCase() : undefined,
+      priority: priority !== undefined ? Number(priority) : undefined,
+    });
+    sendImportResult(res, result);
+  } catch (error) {
+    sendError(res, 'ingest knowledge document', error);
+  }
+});
+
+/**
+ * Remove the entries ingested from a document
+ * DELETE /api/knowledge/documents/:name
+ */
+router.delete('/documents/:name', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const knowledgeBaseId = getKnowledgeBaseId(req, res);
+    if (!knowledgeBaseId) return;
+
+    const result = await knowledgeManagementService.deleteDocument(knowledgeBaseId, req.params.name);
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        message: 'Knowledge document not found'
+      });
+      return;
+    }
+
+    sendImportResult(res, result);
+  } catch (error) {
+    sendError(res, 'delete knowledge document', error);
+  }
+});
+
+/**
+ * Version history, newest first
+ * GET /api/knowledge/versions
+ */
+router.get('/versions', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const knowledgeBaseId = getKnowledgeBaseId(req, res);
+    if (!knowledgeBaseId) return;
+
+    const versions = await knowledgeManagementService.listVersions(knowledgeBaseId);
+
+    res.json({
+      success: true,
+      message: `${versions.length} versions found`,
+      data: { knowledgeBaseId, versions }
+    });
+  } catch (error) {
+    sendError(res, 'list knowledge versions', error);
+  }
+});
+
+/**
+ * Entries as they were at a version
+ * GET /api/knowledge/versions/:version
+ */
+router.get('/versions/:version', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const knowledgeBaseId = getKnowledgeBaseId(req, res);
+    if (!knowledgeBaseId) return;
+
+    const version = await knowledgeManagementService.getVersion(knowledgeBaseId, Number(req.params.version));
+
+    if (!version) {
+      res.status(404).json({
+        success: false,
+        message: 'Knowledge base version not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Knowledge base version retrieved',
+      data: { version }
+    });
+  } catch (error) {
+    sendError(res, 'get knowledge version', error);
+  }
+});
+
+/**
+ * Roll back to a version
+ * POST /api/knowledge/versions/:version/restore
+ */
+router.post('/versions/:version/restore', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const knowledgeBaseId = getKnowledgeBaseId(req, res);
+    if (!knowledgeBaseId) return;
+
+    const result = await knowledgeManagementService.restoreVersion(knowledgeBaseId, Number(req.params.version));
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        message: 'Knowledge base version not found'
+      });
+      return;
+    }
+
+    sendImportResult(res, result);
+  } catch (error) {
+    sendError(res, 'restore knowledge version', error);
+  }
+});
+
+/**
+ * Re-read the knowledge base file after editing it by hand
+ * POST /api/knowledge/reload
+ */
+router.post('/reload', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const knowledgeBaseId = getKnowledgeBaseId(req, res);
+    if (!knowledgeBaseId) return;
+
+    const count = await knowledgeManagementService.reload(knowledgeBaseId);
+
+    res.json({
+      success: true,
+      message: `Reloaded ${count} knowledge entries`,
+      data: { knowledgeBaseId, count }
+    });
+  } catch (error) {
+    sendError(res, 'reload knowledge', error);
+  }
+});
+
+export default router;
@@ -6,65 +6,77 @@
 import { Router } from 'express';
 import { WebSocketServer } from 'ws';
 import { handleOpenAIRealtimeWebSocket } from '../websocket/openai-realtime.ws';
+import { handleTwilioMediaStreamWebSocket, TWILIO_MEDIA_STREAM_PATH } from '../websocket/twilio-media-stream.ws';
+import { authorizeUpgrade } from '../middleware/auth.middleware';
 import logger from '../utils/logger';
 
 const router = Router();
 
-// Store WebSocket server instance
-let wss: WebSocketServer | null = null;
+// WebSocket servers by upgrade path
+const OPENAI_REALTIME_PATH = '/ws/openai-realtime';
+const socketServers = new Map<string, WebSocketServer>();
 
 /**
- * Initialize OpenAI Realtime WebSocket server
+ * Initialize OpenAI Realtime WebSocket servers (browser demo and Twilio media streams)
  */
 export function initializeOpenAIRealtimeWebSocket(server: any) {
-  wss = new WebSocketServer({
-    noServer: true,
-    path: '/ws/openai-realtime'
+  const realtimeWss = new WebSocketServer({ noServer: true });
+  realtimeWss.on('connection', (ws, request) => {
+    logger.info('New OpenAI Realtime WebSocket connection');
+    handleOpenAIRealtimeWebSocket(ws, request);
+  });
+
+  const mediaStreamWss = new WebSocketServer({ noServer: true });
+  mediaStreamWss.on('connection', (ws, request) => {
+    handleTwilioMediaStreamWebSocket(ws, request);
   });
 
+  socketServers.set(OPENAI_REALTIME_PATH, realtimeWss);
+  socketServers.set(TWILIO_MEDIA_STREAM_PATH, mediaStreamWss);
+
   // Handle upgrade requests - check if already has upgrade listeners
   const existingListeners = server.listeners('upgrade');
-  
-  if (existingListeners.length > 0) {
+  const originalHandler = existingListeners.length > 0 ? existingListeners[0] : null;
+  if (originalHandler) {
     // Wrap existing upgrade handler
-    const originalHandler = existingListeners[0];
     server.removeListener('upgrade', originalHandler);
-    
-    server.on('upgrade', (request: any, socket: any, head: any) => {
-      const pathname = request.url;
-      
-      if (pathname === '/ws/openai-realtime') {
-        wss?.handleUpgrade(request, socket, head, (ws) => {
-          wss?.emit('connection', ws, request);
-        });
-      } else {
-        // Call original handler for other paths
-        originalHandler(request, socket, head);
-      }
-    });
-  } else {
-    // No existing handler, add our own
-    server.on('upgrade', (request: any, socket: any, head: any) => {
-      const pathname = request.url;
-      
-      if (pathname === '/ws/openai-realtime') {
-        wss?.handleUpgrade(request, socket, head, (ws) => {
-          wss?.emit('connection', ws, request);
-        });
-      } else {
-        // Close socket for unknown paths
-        socket.destroy();
-      }
-    });
   }
 
-  // Handle connections
-  wss.on('connection', (ws, request) => {
-    logger.info('New OpenAI Realtime WebSocket connection');
-    handleOpenAIRealtimeWebSocket(ws, request);
+  server.on('upgrade', (request: any, socket: any, head: any) => {
+    const pathname = (request.url || '').split('?')[0];
+    const wss = socketServers.get(pathname);
+
+    if (wss) {
+      // Browser sessions need the chat scope, like /api/openai-realtime; media
+      // streams are checked against the voice webhook's token on start
+      const authorize = pathname === OPENAI_REALTIME_PATH ? authorizeUpgrade(request, 'chat') : Promise.resolve(null);
+      authorize
+        .then(status => {
+          if (status) {
+            socket.write(`HTTP/1.1 ${status} ${status === 401 ? 'Unauthorized' : 'Forbidden'}\r\nConnection: close\r\n\r\n`);
+            socket.destroy();
+            return;
+          }
+          wss.handleUpgrade(request, socket, head, (ws) => {
+            wss.emit('connection', ws, request);
+          });
+        })
+        .catch(error => {
+          logger.error('Error authorizing WebSocket upgrade', { error });
+          socket.destroy();
+        });
+    } else if (originalHandler) {
+      // Call original handler for other paths
+      originalHandler(request, socket, head);
+    } else {
+      // Close socket for unknown paths
+      socket.destroy();
+    }
   });
 
-  logger.info('OpenAI Realtime WebSocket server initialized');
+  logger.info('OpenAI Realtime WebSocket server initialized', {
+    paths: Array.from(socketServers.keys())
+  });
 }
 
 // HTTP endpoint to check status
@@ -72,7 +84,8 @@ router.get('/status', (_req, res) => {
   res.json({
     service: 'OpenAI Realtime API',
     status: 'ready',
-    websocket: '/ws/openai-realtime',
+    websocket: OPENAI_REALTIME_PATH,
+    twilioMediaStream: TWILIO_MEDIA_STREAM_PATH,
     features: [
       '300-800ms response time',
       'Bidirectional audio streaming',
@@ -0,0 +1,115 @@
+import { Router, Request, Response } from 'express';
+import { humanTransferService, TransferStatus } from '../services/human-transfer.service';
+import logger from '../utils/logger';
+
+const router = Router();
+
+const TRANSFER_STATUSES: TransferStatus[] = ['pending', 'ringing', 'connected', 'callback_requested', 'callback_completed'];
+
+/**
+ * Transfers to staff (newest first) - ?status=callback_requested lists callbacks still to make
+ * GET /api/transfers?status=
+ */
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const status = req.query.status as TransferStatus | undefined;
+
+    if (status && !TRANSFER_STATUSES.includes(status)) {
+      res.status(400).json({
+        success: false,
+        message: `status must be one of: ${TRANSFER_STATUSES.join(', ')}`
+      });
+      return;
+    }
+
+    const transfers = await humanTransferService.listTransfers(status);
+
+    res.json({
+      success: true,
+      message: `${transfers.length} transfers found`,
+      data: { transfers }
+    });
+  } catch (error) {
+    logger.error('Error in list transfers route:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * A transfer with its dial attempts and any callback/voicemail
+ * GET /api/transfers/:id
+ */
+router.get('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const transfer = await humanTransferService.getTransfer(req.params.id);
+
+    if (!transfer) {
+      res.status(404).json({
+        success: false,
+        message: 'Transfer not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Transfer retrieved',
+      data: { transfer }
+    });
+  } catch (error) {
+    logger.error('Error in get transfer route:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Mark a requested callback as done
+ * POST /api/transfers/:id/callback-complete
+ * Body: { notes? }
+ */
+router.post('/:id/callback-complete', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { notes } = req.body || {};
+
+    if (notes !== undefined && typeof notes !== 'string') {
+      res.status(400).json({
+        success: false,
+        message: 'notes must be a string'
+      });
+      return;
+    }
+
+    const transfer = await humanTransferService.completeCallback(req.params.id, notes);
+
+    if (!transfer) {
+      res.status(404).json({
+        success: false,
+        message: 'No open callback for this transfer'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Callback marked as completed',
+      data: { transfer }
+    });
+  } catch (error) {
+    logger.error('Error in complete callback route:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
@@ -6,6 +6,16 @@
 import { Router, Request, Response } from 'express';
 import { TwilioService } from '../services/twilio.service';
 import { GeminiService } from '../services/gemini.service';
+import { appointmentManagementService } from '../services/appointment-management.service';
+import { confirmationCampaignService } from '../services/confirmation-campaign.service';
+import { callRecordingService } from '../services/call-recording.service';
+import { agentProfileService } from '../services/agent-profile.service';
+import { humanTransferService } from '../services/human-transfer.service';
+import { toCallDirection } from '../services/call-context.service';
+import { costLedgerService } from '../services/cost-ledger.service';
+import { mediaStreamSessionService } from '../services/media-stream-session.service';
+import { TWILIO_MEDIA_STREAM_PATH } from '../websocket/twilio-media-stream.ws';
+import { config } from '../config';
 import logger from '../utils/logger';
 
 const router = Router();
@@ -28,7 +38,64 @@ router.post('/voice', async (req: Request, res: Response) => {
       status: CallStatus,
     });
 
-    // For MVP, we'll create a simple conversation flow
+    // The agent answering is picked by our side of the call: the dialed number
+    // for inbound calls, the caller ID we used for outbound ones
+    const direction = toCallDirection(req.body.Direction);
+    const agent = await agentProfileService.resolveForNumber(direction === 'outbound' ? From : To);
+
+    if (direction === 'inbound' && CallStatus === 'ringing' && !agentProfileService.isWithinBusinessHours(agent)) {
+      logger.info('Call received outside business hours', { callSid: CallSid, agentId: agent.id });
+      res.type('text/xml');
+      res.send(TwilioService.createVoiceResponse(
+        agent.afterHoursMessage || `Thank you for calling ${agent.companyName}. We're currently closed. Please call back during business hours.`
+      ));
+      return;
+    }
+
+    // Answering machine detection ran before this webhook: leave a voicemail
+    // rather than have the agent talk to the machine
+    if (direction === 'outbound' && TwilioService.isMachineAnswer(req.body.AnsweredBy)) {
+      logger.info('Outbound call answered by a machine', { callSid: CallSid, answeredBy: req.body.AnsweredBy });
+      res.type('text/xml');
+      res.send(await confirmationCampaignService.handleMachineAnswer(CallSid, req.body.AnsweredBy, agent, From));
+      return;
+    }
+
+    // Stream the call to the agent on the OpenAI Realtime API; without an
+    // OpenAI key the stream could never start, so the Gather flow answers
+    const useMediaStream = config.twilio.voiceMode === 'media-stream' && !!process.env.OPENAI_API_KEY;
+    if (config.twilio.voiceMode === 'media-stream' && !useMediaStream && CallStatus === 'ringing') {
+      logger.warn('OpenAI API key not configured - answering with the Gather flow', { callSid: CallSid });
+    }
+
+    if (useMediaStream && (CallStatus === 'ringing' || CallStatus === 'in-progress')) {
+      const budget = await costLedgerService.checkBudget();
+      if (!budget.allowed) {
+        logger.warn('Call refused - cost budget exhausted', { callSid: CallSid, agentId: agent.id });
+        res.type('text/xml');
+        res.send(TwilioService.createVoiceResponse(
+          `Thank you for calling ${agent.companyName}. We're unable to take your call right now. Please try again later.`
+        ));
+        return;
+      }
+
+      const streamUrl = config.twilio.mediaStreamUrl || `wss://${req.headers.host}${TWILIO_MEDIA_STREAM_PATH}`;
+      logger.info('Connecting call to media stream', { callSid: CallSid, streamUrl });
+
+      res.type('text/xml');
+      res.send(TwilioService.createMediaStreamResponse(streamUrl, mediaStreamSessionService.accept(CallSid, {
+        callSid: CallSid,
+        from: From,
+        to: To,
+        direction: req.body.Direction,
+        agentId: agent.id,
+        campaign: req.query.campaign as string | undefined,
+        appointmentId: req.query.appointmentId as string | undefined,
+      })));
+      return;
+    }
+
+    // Legacy flow: Gemini text responses with Twilio TTS
     if (CallStatus === 'ringing' || CallStatus === 'in-progress') {
       // Initialize Gemini conversation for this call
       const geminiService = new GeminiService(
@@ -120,16 +187,17 @@ router.post('/gather', async (req: Request, res: Response) => {
  */
 router.post('/status', async (req: Request, res: Response) => {
   try {
-    const { CallSid, CallStatus, CallDuration } = req.body;
+    const { CallSid, CallStatus, CallDuration, AnsweredBy } = req.body;
     
     logger.info('Call status update', {
       callSid: CallSid,
       status: CallStatus,
       duration: CallDuration,
+      answeredBy: AnsweredBy,
     });
     
     // Clean up completed calls
-    if (CallStatus === 'completed' || CallStatus === 'failed' || CallStatus === 'canceled') {
+    if (['completed', 'failed', 'canceled', 'busy', 'no-answer'].includes(CallStatus)) {
       const geminiService = activeConversations.get(CallSid);
       if (geminiService) {
         geminiService.endConversation(CallSid);
@@ -138,6 +206,15 @@ router.post('/status', async (req: Request, res: Response) => {
       
       // Release the phone number back to the pool
       TwilioService.releaseNumberOnCallEnd(CallSid);
+      
+      // Release any appointment slots held during the call
+      appointmentManagementService.releaseHoldsForHolder(CallSid);
+
+      // Record the result of confirmation campaign calls
+      await confirmationCampaignService.handleCallStatus(CallSid, CallStatus, new Date(), AnsweredBy);
+
+      // Stop ringing staff if the caller gave up waiting for a transfer
+      await humanTransferService.handleCallerHangup(CallSid);
     }
     
     res.status(200).send('OK');
@@ -147,4 +224,110 @@ router.post('/status', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Handle recording status updates - links the audio to the call transcript
+ * POST /webhooks/twilio/recording
+ */
+router.post('/recording', async (req: Request, res: Response) => {
+  try {
+    const { CallSid, RecordingSid, RecordingUrl, RecordingStatus, RecordingDuration, RecordingChannels } = req.body;
+
+    logger.info('Recording status update', {
+      callSid: CallSid,
+      recordingSid: RecordingSid,
+      status: RecordingStatus,
+    });
+
+    if (RecordingStatus === 'completed') {
+      await callRecordingService.attachRecording(CallSid, {
+        recordingSid: RecordingSid,
+        url: RecordingUrl,
+        durationSeconds: RecordingDuration ? parseInt(RecordingDuration, 10) : undefined,
+        channels: RecordingChannels ? parseInt(RecordingChannels, 10) : undefined,
+      });
+    }
+
+    res.status(200).send('OK');
+  } catch (error) {
+    logger.error('Error handling recording webhook', { error });
+    res.status(500).send('Internal Server Error');
+  }
+});
+
+/**
+ * Staff member answered a transfer call - whisper the summary
+ * POST /webhooks/twilio/transfer/answer
+ */
+router.post('/transfer/answer', async (req: Request, res: Response) => {
+  try {
+    const twiml = await humanTransferService.handleStaffAnswer(String(req.query.transferId || ''));
+    res.type('text/xml');
+    res.send(twiml);
+  } catch (error) {
+    logger.error('Error handling transfer answer webhook', { error });
+    res.type('text/xml');
+    res.send(TwilioService.createHangupResponse());
+  }
+});
+
+/**
+ * Staff member's response to the whisper (press 1 to take the call)
+ * POST /webhooks/twilio/transfer/accept
+ */
+router.post('/transfer/accept', async (req: Request, res: Response) => {
+  try {
+    const { CallSid, Digits } = req.body;
+    const twiml = await humanTransferService.handleStaffAccept(String(req.query.transferId || ''), CallSid, Digits);
+    res.type('text/xml');
+    res.send(twiml);
+  } catch (error) {
+    logger.error('Error handling transfer accept webhook', { error });
+    res.type('text/xml');
+    res.send(TwilioService.createHangupResponse());
+  }
+});
+
+/**
+ * Status updates for the calls placed to staff
+ * POST /webhooks/twilio/transfer/status
+ */
+router.post('/transfer/status', async (req: Request, res: Response) => {
+  try {
+    const { CallSid, CallStatus } = req.body;
+
+    logger.info('Transfer call status update', {
+      transferId: req.query.transferId,
+      callSid: CallSid,
+      status: CallStatus,
+    });
+
+    await humanTransferService.handleStaffStatus(String(req.query.transferId || ''), CallSid, CallStatus);
+    res.status(200).send('OK');
+  } catch (error) {
+    logger.error('Error handling transfer status webhook', { error });
+    res.status(500).send('Internal Server Error');
+  }
+});
+
+/**
+ * Voicemail left when no staff member took the transfer
+ * POST /webhooks/twilio/transfer/voicemail
+ */
+router.post('/transfer/voicemail', async (req: Request, res: Response) => {
+  try {
+    const { RecordingUrl, RecordingDuration } = req.body;
+    const twiml = await humanTransferService.handleVoicemail(
+      String(req.query.transferId || ''),
+      RecordingUrl,
+      RecordingDuration ? parseInt(RecordingDuration, 10) : undefined
+    );
+    res.type('text/xml');
+    res.send(twiml);
+  } catch (error) {
+    logger.error('Error handling transfer voicemail webhook', { error });
+    res.type('text/xml');
+    res.send(TwilioService.createHangupResponse());
+  }
+});
+
 export default router;
\ No newline at end of file
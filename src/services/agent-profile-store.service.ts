@@ -0,0 +1,83 @@
+/**
+ * Agent Profile Store
+ * Storage backends for agent profiles
+ */
+
+import path from 'path';
+import { config } from '../config';
+import { JsonFileStore } from '../utils/json-file-store';
+import logger from '../utils/logger';
+import type { AgentProfile } from './agent-profile.service';
+
+/**
+ * Storage interface used by AgentProfileService
+ */
+export interface AgentProfileStore {
+  getProfile(id: string): Promise<AgentProfile | null>;
+  listProfiles(): Promise<AgentProfile[]>;
+  saveProfile(profile: AgentProfile): Promise<void>;
+  deleteProfile(id: string): Promise<boolean>;
+}
+
+/**
+ * In-memory store - data is lost on restart (used for tests and scripts)
+ */
+export class InMemoryAgentProfileStore implements AgentProfileStore {
+  private profiles: Map<string, AgentProfile> = new Map();
+
+  async getProfile(id: string): Promise<AgentProfile | null> {
+    return this.profiles.get(id) || null;
+  }
+
+  async listProfiles(): Promise<AgentProfile[]> {
+    return Array.from(this.profiles.values());
+  }
+
+  async saveProfile(profile: AgentProfile): Promise<void> {
+    this.profiles.set(profile.id, profile);
+  }
+
+  async deleteProfile(id: string): Promise<boolean> {
+    return this.profiles.delete(id);
+  }
+}
+
+/**
+ * File-backed store - profiles survive restarts
+ */
+export class FileAgentProfileStore implements AgentProfileStore {
+  private profiles: JsonFileStore<AgentProfile>;
+
+  constructor(dataDir: string) {
+    this.profiles = new JsonFileStore(path.join(dataDir, 'agent-profiles.json'));
+  }
+
+  async getProfile(id: string): Promise<AgentProfile | null> {
+    return this.profiles.get(id);
+  }
+
+  async listProfiles(): Promise<AgentProfile[]> {
+    return this.profiles.list();
+  }
+
+  async saveProfile(profile: AgentProfile): Promise<void> {
+    await this.profiles.set(profile.id, profile);
+  }
+
+  async deleteProfile(id: string): Promise<boolean> {
+    return this.profiles.delete(id);
+  }
+}
+
+/**
+ * Create the store configured by STORAGE_DRIVER
+ */
+export function createAgentProfileStore(): AgentProfileStore {
+  if (config.storage.driver === 'memory') {
+    logger.info('Using in-memory agent profile store');
+    return new InMemoryAgentProfileStore();
+  }
+
+  logger.info('Using file-backed agent profile store', { dataDir: config.storage.dataDir });
+  return new FileAgentProfileStore(config.storage.dataDir);
+}
@@ -0,0 +1,397 @@
+/**
+ * Agent Profile Service
+ * Manages the agents the platform can run (persona, prompt, voice, tools,
+ * knowledge base, business hours) and picks the right one for each call
+ */
+
+import { ToolDefinition } from './openai-realtime.service';
+import { AgentProfileStore, createAgentProfileStore } from './agent-profile-store.service';
+import { emmaToolsService } from './emma-tools.service';
+import { agentPromptService } from './agent-prompt.service';
+import { knowledgeBaseExists } from './simple-knowledge-base.service';
+import { DEFAULT_AGENT_ID, DEFAULT_AGENT_PROFILE, REALTIME_VOICES } from '../config/agent-profiles';
+import { CANCELLATION_REBUTTALS, CancellationRebuttals } from '../config/emma-cancellation-prompt';
+import { Weekday, WEEKDAYS, WorkingHours } from '../config/staff-roster';
+import logger from '../utils/logger';
+import { normalizePhone } from '../utils/phone';
+import { getZonedDateTime, timeToMinutes } from '../utils/time-zone';
+
+export interface BusinessHours {
+  timeZone: string; // IANA time zone, e.g. America/New_York
+  hours: Partial<Record<Weekday, WorkingHours>>; // Days without hours are closed
+}
+
+export interface AgentProfile {
+  id: string;
+  name: string; // Persona the caller hears, e.g. Emma
+  companyName: string;
+  promptTemplate: string;
+  voice: string; // OpenAI Realtime voice
+  toolAllowlist?: string[]; // Omit to allow every tool
+  knowledgeBaseId: string;
+  businessHours?: BusinessHours; // Omit to answer around the clock
+  afterHoursMessage?: string; // Played to inbound callers outside business hours
+  voicemailTemplate?: string; // Left when a machine answers an outbound call; defaults to CONFIRMATION_VOICEMAIL_TEMPLATE
+  phoneNumbers: string[]; // Inbound numbers routed to this agent (E.164)
+  transferNumbers?: string[]; // Staff or queue lines for transfer_to_human; defaults to TRANSFER_NUMBERS
+  rebuttals?: Partial<CancellationRebuttals>; // Overrides for the default cancellation rebuttals
+  isDefault?: boolean; // Answers numbers and sessions no other profile claims
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AgentProfileInput = Partial<Omit<AgentProfile, 'isDefault' | 'createdAt' | 'updatedAt'>>;
+
+export interface AgentProfileResult {
+  success: boolean;
+  profile: AgentProfile | null;
+  message: string;
+  errors?: string[];
+  reason?: 'not_found' | 'invalid' | 'conflict';
+}
+
+/**
+ * The parts of a profile tool handlers need while a call is live
+ */
+export interface CallAgent {
+  id: string;
+  name: string;
+  companyName: string;
+  toolAllowlist?: string[];
+  knowledgeBaseId: string;
+  transferNumbers?: string[];
+  rebuttals: CancellationRebuttals;
+}
+
+const PROFILE_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class AgentProfileService {
+  private store: AgentProfileStore;
+  private seeding: Promise<void> | null = null;
+
+  constructor(store: AgentProfileStore = createAgentProfileStore()) {
+    this.store = store;
+  }
+
+  async listProfiles(): Promise<AgentProfile[]> {
+    try {
+      await this.ensureSeeded();
+      const profiles = await this.store.listProfiles();
+      return profiles.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    } catch (error) {
+      logger.error('Error listing agent profiles:', error);
+      throw error;
+    }
+  }
+
+  async getProfile(id: string): Promise<AgentProfile | null> {
+    try {
+      await this.ensureSeeded();
+      return await this.store.getProfile(id);
+    } catch (error) {
+      logger.error('Error getting agent profile:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The profile used when nothing more specific matches
+   */
+  async getDefaultProfile(): Promise<AgentProfile> {
+    const profiles = await this.listProfiles();
+    return profiles.find(p => p.isDefault) || profiles[0] || this.buildDefaultProfile();
+  }
+
+  /**
+   * Profile by ID, falling back to the default (web sessions, stream parameters)
+   */
+  async resolveProfile(id?: string): Promise<AgentProfile> {
+    const profile = id ? await this.getProfile(id) : null;
+    if (id && !profile) {
+      logger.warn('Unknown agent profile requested, using default', { agentId: id });
+    }
+    return profile || this.getDefaultProfile();
+  }
+
+  /**
+   * Profile that owns a Twilio number, falling back to the default
+   */
+  async resolveForNumber(phoneNumber?: string): Promise<AgentProfile> {
+    const digits = normalizePhone(phoneNumber);
+    if (digits) {
+      const profiles = await this.listProfiles();
+      const match = profiles.find(p => p.phoneNumbers.some(n => normalizePhone(n) === digits));
+      if (match) return match;
+    }
+    return this.getDefaultProfile();
+  }
+
+  async createProfile(input: AgentProfileInput): Promise<AgentProfileResult> {
+    try {
+      await this.ensureSeeded();
+
+      const errors = await this.validate(input);
+      if (errors.length > 0) {
+        return { success: false, profile: null, message: 'Invalid agent profile', errors, reason: 'invalid' };
+      }
+
+      const id = input.id || slugify(input.name!);
+      if (await this.store.getProfile(id)) {
+        return { success: false, profile: null, message: `Agent profile ${id} already exists`, reason: 'conflict' };
+      }
+
+      const now = new Date().toISOString();
+      const profile: AgentProfile = {
+        ...pickProfileFields(input),
+        id,
+        name: input.name!,
+        companyName: input.companyName!,
+        promptTemplate: input.promptTemplate!,
+        voice: input.voice || DEFAULT_AGENT_PROFILE.voice,
+        knowledgeBaseId: input.knowledgeBaseId || DEFAULT_AGENT_PROFILE.knowledgeBaseId,
+        phoneNumbers: input.phoneNumbers || [],
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await this.store.saveProfile(profile);
+      logger.info('Agent profile created', { agentId: id });
+      return { success: true, profile, message: 'Agent profile created' };
+    } catch (error) {
+      logger.error('Error creating agent profile:', error);
+      throw error;
+    }
+  }
+
+  async updateProfile(id: string, changes: AgentProfileInput): Promise<AgentProfileResult> {
+    try {
+      const existing = await this.getProfile(id);
+      if (!existing) {
+        return { success: false, profile: null, message: 'Agent profile not found', reason: 'not_found' };
+      }
+
+      const { id: _ignored, ...fields } = pickProfileFields(changes);
+      const updated: AgentProfile = { ...existing, ...fields, id, updatedAt: new Date().toISOString() };
+
+      const errors = await this.validate(updated, id);
+      if (errors.length > 0) {
+        return { success: false, profile: null, message: 'Invalid agent profile', errors, reason: 'invalid' };
+      }
+
+      await this.store.saveProfile(updated);
+      logger.info('Agent profile updated', { agentId: id, fields: Object.keys(fields) });
+      return { success: true, profile: updated, message: 'Agent profile updated' };
+    } catch (error) {
+      logger.error('Error updating agent profile:', error);
+      throw error;
+    }
+  }
+
+  async deleteProfile(id: string): Promise<AgentProfileResult> {
+    try {
+      const existing = await this.getProfile(id);
+      if (!existing) {
+        return { success: false, profile: null, message: 'Agent profile not found', reason: 'not_found' };
+      }
+      if (existing.isDefault) {
+        return { success: false, profile: existing, message: 'The default agent profile cannot be deleted', reason: 'conflict' };
+      }
+
+      await this.store.deleteProfile(id);
+      logger.info('Agent profile deleted', { agentId: id });
+      return { success: true, profile: existing, message: 'Agent profile deleted' };
+    } catch (error) {
+      logger.error('Error deleting agent profile:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether the profile's business is open at the given instant
+   */
+  isWithinBusinessHours(profile: AgentProfile, now: Date = new Date()): boolean {
+    if (!profile.businessHours) return true;
+
+    const local = getZonedDateTime(now, profile.businessHours.timeZone);
+    const hours = profile.businessHours.hours[WEEKDAYS[local.weekday]];
+    if (!hours) return false;
+
+    const minutes = timeToMinutes(local.time);
+    return minutes >= timeToMinutes(hours.start) && minutes < timeToMinutes(hours.end);
+  }
+
+  /**
+   * Tool definitions the profile's agent may use
+   */
+  getToolDefinitions(profile: AgentProfile): ToolDefinition[] {
+    const tools = emmaToolsService.getToolDefinitions();
+    if (!profile.toolAllowlist) return tools;
+    return tools.filter(tool => profile.toolAllowlist!.includes(tool.function.name));
+  }
+
+  /**
+   * Snapshot of the profile for a live call's context
+   */
+  toCallAgent(profile: AgentProfile): CallAgent {
+    return {
+      id: profile.id,
+      name: profile.name,
+      companyName: profile.companyName,
+      toolAllowlist: profile.toolAllowlist,
+      knowledgeBaseId: profile.knowledgeBaseId,
+      transferNumbers: profile.transferNumbers,
+      rebuttals: { ...CANCELLATION_REBUTTALS, ...profile.rebuttals },
+    };
+  }
+
+  private async validate(input: AgentProfileInput, existingId?: string): Promise<string[]> {
+    const errors: string[] = [];
+
+    if (!existingId && input.id !== undefined && !PROFILE_ID_PATTERN.test(input.id)) {
+      errors.push('id must be lowercase letters, numbers and dashes');
+    }
+    (['name', 'companyName', 'promptTemplate'] as const).forEach(field => {
+      if (typeof input[field] !== 'string' || !input[field]!.trim()) {
+        errors.push(`${field} is required`);
+      }
+    });
+    if (typeof input.promptTemplate === 'string') {
+      errors.push(...agentPromptService.validateTemplate(input.promptTemplate).map(error => `promptTemplate: ${error}`));
+    }
+    if (input.voicemailTemplate !== undefined) {
+      if (typeof input.voicemailTemplate !== 'string' || !input.voicemailTemplate.trim()) {
+        errors.push('voicemailTemplate must be a non-empty string');
+      } else {
+        errors.push(...agentPromptService.validateVoicemailTemplate(input.voicemailTemplate).map(error => `voicemailTemplate: ${error}`));
+      }
+    }
+    if (input.voice !== undefined && !REALTIME_VOICES.includes(input.voice)) {
+      errors.push(`voice must be one of: ${REALTIME_VOICES.join(', ')}`);
+    }
+    if (input.knowledgeBaseId !== undefined) {
+      if (typeof input.knowledgeBaseId !== 'string' || !input.knowledgeBaseId.trim()) {
+        errors.push('knowledgeBaseId must be a non-empty string');
+      } else if (!(await knowledgeBaseExists(input.knowledgeBaseId))) {
+        errors.push(`Knowledge base ${input.knowledgeBaseId} does not exist`);
+      }
+    }
+
+    if (input.toolAllowlist !== undefined) {
+      if (!Array.isArray(input.toolAllowlist)) {
+        errors.push('toolAllowlist must be an array of tool names');
+      } else {
+        const known = emmaToolsService.getToolDefinitions().map(tool => tool.function.name);
+        const unknown = input.toolAllowlist.filter(name => !known.includes(name));
+        if (unknown.length > 0) {
+          errors.push(`Unknown tools in toolAllowlist: ${unknown.join(', ')}`);
+        }
+      }
+    }
+
+    if (input.businessHours !== undefined) {
+      errors.push(...validateBusinessHours(input.businessHours));
+    }
+
+    if (input.rebuttals !== undefined) {
+      const types = Object.keys(CANCELLATION_REBUTTALS);
+      Object.entries(input.rebuttals || {}).forEach(([type, lines]) => {
+        if (!types.includes(type)) {
+          errors.push(`Unknown rebuttal type: ${type}`);
+        } else if (!Array.isArray(lines) || lines.length === 0 || lines.some(line => typeof line !== 'string')) {
+          errors.push(`rebuttals.${type} must be a non-empty array of strings`);
+        }
+      });
+    }
+
+    if (input.phoneNumbers !== undefined) {
+      if (!Array.isArray(input.phoneNumbers) || input.phoneNumbers.some(n => typeof n !== 'string' || !normalizePhone(n))) {
+        errors.push('phoneNumbers must be an array of phone numbers');
+      } else {
+        // A number can only route to one agent
+        const profiles = await this.store.listProfiles();
+        input.phoneNumbers.forEach(number => {
+          const owner = profiles.find(p =>
+            p.id !== existingId && p.phoneNumbers.some(n => normalizePhone(n) === normalizePhone(number))
+          );
+          if (owner) {
+            errors.push(`${number} is already assigned to agent ${owner.id}`);
+          }
+        });
+      }
+    }
+
+    if (input.transferNumbers !== undefined &&
+        (!Array.isArray(input.transferNumbers) || input.transferNumbers.some(n => typeof n !== 'string' || !normalizePhone(n)))) {
+      errors.push('transferNumbers must be an array of phone numbers');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Seed the built-in profile the first time the store is used
+   */
+  private ensureSeeded(): Promise<void> {
+    if (!this.seeding) {
+      this.seeding = (async () => {
+        const profiles = await this.store.listProfiles();
+        if (profiles.length === 0) {
+          await this.store.saveProfile(this.buildDefaultProfile());
+          logger.info('Seeded default agent profile', { agentId: DEFAULT_AGENT_ID });
+        }
+      })().catch(error => {
+        this.seeding = null;
+        throw error;
+      });
+    }
+    return this.seeding;
+  }
+
+  private buildDefaultProfile(): AgentProfile {
+    const now = new Date().toISOString();
+    return { ...DEFAULT_AGENT_PROFILE, createdAt: now, updatedAt: now };
+  }
+}
+
+function validateBusinessHours(businessHours: BusinessHours): string[] {
+  const errors: string[] = [];
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: businessHours?.timeZone });
+    if (!businessHours?.timeZone) errors.push('businessHours.timeZone is required');
+  } catch {
+    errors.push(`Unknown time zone: ${businessHours.timeZone}`);
+  }
+
+  Object.entries(businessHours?.hours || {}).forEach(([day, hours]) => {
+    if (!WEEKDAYS.includes(day as Weekday)) {
+      errors.push(`Unknown weekday in businessHours: ${day}`);
+    } else if (!TIME_PATTERN.test(hours?.start) || !TIME_PATTERN.test(hours?.end) || hours.start >= hours.end) {
+      errors.push(`businessHours.${day} must have HH:mm start before end`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Keep only known profile fields from request bodies
+ */
+function pickProfileFields(input: AgentProfileInput): AgentProfileInput {
+  const fields: (keyof AgentProfileInput)[] = [
+    'id', 'name', 'companyName', 'promptTemplate', 'voice', 'toolAllowlist', 'knowledgeBaseId',
+    'businessHours', 'afterHoursMessage', 'voicemailTemplate', 'phoneNumbers', 'transferNumbers', 'rebuttals',
+  ];
+  const picked: Record<string, unknown> = {};
+  fields.forEach(field => {
+    if (input[field] !== undefined) picked[field] = input[field];
+  });
+  return picked as AgentProfileInput;
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 48) || `agent-${Date.now()}`;
+}
+
+export const agentProfileService = new AgentProfileService();
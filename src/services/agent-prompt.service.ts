@@ -0,0 +1,131 @@
+/**
+ * Agent Prompt Service
+ * Renders an agent profile's prompt template with the details of the call it
+ * is about to handle (customer, appointment, consultant, company)
+ */
+
+import { config } from '../config';
+import logger from '../utils/logger';
+import { formatPhoneForSpeech } from '../utils/phone';
+import { PromptVariables, renderPromptTemplate, validatePromptTemplate } from '../utils/prompt-template';
+import type { AgentProfile } from './agent-profile.service';
+import type { CallContext } from './call-context.service';
+import { Appointment, appointmentManagementService } from './appointment-management.service';
+import { knowledgeGroundingService } from './knowledge-grounding.service';
+import { staffCalendarService } from './staff-calendar.service';
+
+// Always available - taken from the agent profile
+export const AGENT_PROMPT_VARIABLES = ['agentName', 'companyName'];
+
+// Only known when the call is about a specific appointment, so templates must give a fallback
+export const CALL_PROMPT_VARIABLES = ['customerName', 'appointment', 'appointmentDate', 'appointmentTime', 'staffName'];
+
+export const PROMPT_VARIABLES = [...AGENT_PROMPT_VARIABLES, ...CALL_PROMPT_VARIABLES];
+
+// Voicemail messages can also give the number the customer should call back
+export const VOICEMAIL_VARIABLES = [...PROMPT_VARIABLES, 'callbackNumber'];
+
+export class AgentPromptService {
+  /**
+   * Check a prompt template before it is saved on a profile
+   */
+  validateTemplate(template: string): string[] {
+    return validatePromptTemplate(template, PROMPT_VARIABLES, CALL_PROMPT_VARIABLES);
+  }
+
+  /**
+   * Check a voicemail template before it is saved on a profile
+   */
+  validateVoicemailTemplate(template: string): string[] {
+    return validatePromptTemplate(template, VOICEMAIL_VARIABLES, CALL_PROMPT_VARIABLES);
+  }
+
+  /**
+   * Variables for a call; appointment details are shown in the customer's time zone
+   */
+  async buildVariables(profile: Pick<AgentProfile, 'name' | 'companyName'>, context?: CallContext): Promise<PromptVariables> {
+    const variables: PromptVariables = {
+      agentName: profile.name,
+      companyName: profile.companyName,
+    };
+
+    const appointment = context?.appointmentId
+      ? await appointmentManagementService.getAppointmentById(context.appointmentId)
+      : null;
+    if (appointment) {
+      Object.assign(variables, this.getAppointmentVariables(appointment));
+    }
+
+    return variables;
+  }
+
+  /**
+   * The agent's instructions for a call, followed by the knowledge grounding
+   * rules. Throws if a placeholder is left unresolved so the model never sees
+   * template syntax
+   */
+  async renderForCall(profile: AgentProfile, context?: CallContext): Promise<string> {
+    const prompt = this.render(profile.promptTemplate, await this.buildVariables(profile, context), profile.id);
+    const groundingRules = knowledgeGroundingService.getPromptRules();
+    return groundingRules ? `${prompt}
+
+${groundingRules}` : prompt;
+  }
+
+  /**
+   * The voicemail left for an appointment when a machine answers an outbound
+   * call: the agent's voicemailTemplate, or CONFIRMATION_VOICEMAIL_TEMPLATE
+   */
+  renderVoicemail(
+    profile: Pick<AgentProfile, 'id' | 'name' | 'companyName' | 'voicemailTemplate'>,
+    appointment: Appointment,
+    callbackNumber?: string
+  ): string {
+    const variables: PromptVariables = {
+      agentName: profile.name,
+      companyName: profile.companyName,
+      ...this.getAppointmentVariables(appointment),
+      callbackNumber: callbackNumber ? formatPhoneForSpeech(callbackNumber) : undefined,
+    };
+
+    if (profile.voicemailTemplate) {
+      try {
+        return this.render(profile.voicemailTemplate, variables, `${profile.id} voicemail`);
+      } catch {
+        // Logged by render - fall back to the default message rather than leave none
+      }
+    }
+    return this.render(config.campaigns.confirmation.voicemailTemplate, variables, 'voicemail');
+  }
+
+  /**
+   * Render any template with known variables, rejecting unresolved placeholders
+   */
+  render(template: string, variables: PromptVariables, label: string = 'prompt'): string {
+    const { prompt, unresolved } = renderPromptTemplate(template, variables);
+    if (unresolved.length > 0) {
+      logger.error('Prompt template has unresolved placeholders', { template: label, unresolved });
+      throw new Error(`Unresolved placeholders in ${label}: ${unresolved.join(', ')}`);
+    }
+    return prompt;
+  }
+
+  private getAppointmentVariables(appointment: Appointment): PromptVariables {
+    // Customers live in their consultant's territory, so use the consultant's clock
+    const timeZone = staffCalendarService.getStaffMember(appointment.staffId)?.timeZone || config.calendar.timeZone;
+    const scheduled = new Date(appointment.scheduledTime);
+
+    const appointmentDate = scheduled.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', timeZone });
+    const appointmentTime = scheduled.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone });
+
+    return {
+      customerName: appointment.customerName,
+      appointmentDate,
+      appointmentTime,
+      appointment: `appointment on ${appointmentDate} at ${appointmentTime}`,
+      staffName: appointment.staffName || staffCalendarService.getStaffMember(appointment.staffId)?.name,
+    };
+  }
+}
+
+export const agentPromptService = new AgentPromptService();
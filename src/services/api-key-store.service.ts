@@ -0,0 +1,74 @@
+/**
+ * API Key Store
+ * Storage backends for managed API keys (hashes only - never the keys themselves)
+ */
+
+import path from 'path';
+import { config } from '../config';
+import { JsonFileStore } from '../utils/json-file-store';
+import logger from '../utils/logger';
+import type { ApiKeyRecord } from './api-key.service';
+
+/**
+ * Storage interface used by ApiKeyService
+ */
+export interface ApiKeyStore {
+  getKey(id: string): Promise<ApiKeyRecord | null>;
+  listKeys(): Promise<ApiKeyRecord[]>;
+  saveKey(key: ApiKeyRecord): Promise<void>;
+}
+
+/**
+ * In-memory store - data is lost on restart (used for tests and scripts)
+ */
+export class InMemoryApiKeyStore implements ApiKeyStore {
+  private keys: Map<string, ApiKeyRecord> = new Map();
+
+  async getKey(id: string): Promise<ApiKeyRecord | null> {
+    return this.keys.get(id) || null;
+  }
+
+  async listKeys(): Promise<ApiKeyRecord[]> {
+    return Array.from(this.keys.values());
+  }
+
+  async saveKey(key: ApiKeyRecord): Promise<void> {
+    this.keys.set(key.id, key);
+  }
+}
+
+/**
+ * File-backed store - keys survive restarts
+ */
+export class FileApiKeyStore implements ApiKeyStore {
+  private keys: JsonFileStore<ApiKeyRecord>;
+
+  constructor(dataDir: string) {
+    this.keys = new JsonFileStore(path.join(dataDir, 'api-keys.json'));
+  }
+
+  async getKey(id: string): Promise<ApiKeyRecord | null> {
+    return this.keys.get(id);
+  }
+
+  async listKeys(): Promise<ApiKeyRecord[]> {
+    return this.keys.list();
+  }
+
+  async saveKey(key: ApiKeyRecord): Promise<void> {
+    await this.keys.set(key.id, key);
+  }
+}
+
+/**
+ * Create the store configured by STORAGE_DRIVER
+ */
+export function createApiKeyStore(): ApiKeyStore {
+  if (config.storage.driver === 'memory') {
+    logger.info('Using in-memory API key store');
+    return new InMemoryApiKeyStore();
+  }
+
+  logger.info('Using file-backed API key store', { dataDir: config.storage.dataDir });
+  return new FileApiKeyStore(config.storage.dataDir);
+}
@@ -0,0 +1,215 @@
+/**
+ * API Key Service
+ * Issues, lists and revokes scoped API keys, and resolves the credentials on
+ * a request (managed key, ADMIN_API_KEY or JWT) to the scopes they grant
+ */
+
+import crypto from 'crypto';
+import { config } from '../config';
+import logger from '../utils/logger';
+import { getJwtScopes, isJwt, verifyJwt } from '../utils/jwt';
+import { ApiKeyStore, createApiKeyStore } from './api-key-store.service';
+
+export type ApiScope = 'chat' | 'appointments:read' | 'appointments:write' | 'admin';
+
+export const API_SCOPES: ApiScope[] = ['chat', 'appointments:read', 'appointments:write', 'admin'];
+
+const KEY_PREFIX = 'vak_';
+const LAST_USED_RESOLUTION_MS = 60 * 60 * 1000; // Avoid a write on every request
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  prefix: string; // First characters of the key, to tell keys apart
+  hash: string;
+  scopes: ApiScope[];
+  createdAt: string;
+  expiresAt?: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+export type ApiKeySummary = Omit<ApiKeyRecord, 'hash'>;
+
+export interface ApiKeyInput {
+  name?: unknown;
+  scopes?: unknown;
+  expiresAt?: unknown;
+}
+
+export interface ApiKeyResult {
+  success: boolean;
+  apiKey: ApiKeySummary | null;
+  key?: string; // Only returned when the key is created
+  message: string;
+  errors?: string[];
+  reason?: 'not_found' | 'invalid';
+}
+
+/**
+ * Who a request is acting as
+ */
+export interface AuthPrincipal {
+  type: 'api_key' | 'jwt' | 'admin_key';
+  id: string;
+  name: string;
+  scopes: ApiScope[];
+}
+
+export class ApiKeyService {
+  private store: ApiKeyStore;
+
+  constructor(store: ApiKeyStore = createApiKeyStore(), private settings: typeof config.auth = config.auth) {
+    this.store = store;
+  }
+
+  async createKey(input: ApiKeyInput): Promise<ApiKeyResult> {
+    const errors = validateKeyInput(input);
+    if (errors.length > 0) {
+      return { success: false, apiKey: null, message: 'Invalid API key', errors, reason: 'invalid' };
+    }
+
+    const key = `${KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+    const record: ApiKeyRecord = {
+      id: `key-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
+      name: (input.name as string).trim(),
+      prefix: key.slice(0, KEY_PREFIX.length + 6),
+      hash: this.hash(key),
+      scopes: Array.from(new Set(input.scopes as ApiScope[])),
+      createdAt: new Date().toISOString(),
+      ...(input.expiresAt ? { expiresAt: new Date(input.expiresAt as string).toISOString() } : {}),
+    };
+
+    await this.store.saveKey(record);
+    logger.info('API key created', { keyId: record.id, name: record.name, scopes: record.scopes });
+
+    return {
+      success: true,
+      apiKey: toSummary(record),
+      key,
+      message: 'API key created - store it now, it cannot be shown again',
+    };
+  }
+
+  /**
+   * Keys newest first, without their hashes
+   */
+  async listKeys(): Promise<ApiKeySummary[]> {
+    const keys = await this.store.listKeys();
+    return keys.sort((a, b) => b.createdAt.localeCompare(a.createdAt)).map(toSummary);
+  }
+
+  async revokeKey(id: string): Promise<ApiKeyResult> {
+    const record = await this.store.getKey(id);
+    if (!record) {
+      return { success: false, apiKey: null, message: 'API key not found', reason: 'not_found' };
+    }
+
+    if (!record.revokedAt) {
+      record.revokedAt = new Date().toISOString();
+      await this.store.saveKey(record);
+      logger.info('API key revoked', { keyId: record.id, name: record.name });
+    }
+
+    return { success: true, apiKey: toSummary(record), message: 'API key revoked' };
+  }
+
+  /**
+   * Resolve a bearer token or API key; null when it grants nothing
+   */
+  async authenticate(credential: string, now: Date = new Date()): Promise<AuthPrincipal | null> {
+    if (!credential) return null;
+
+    if (this.settings.adminApiKey && safeEqual(credential, this.settings.adminApiKey)) {
+      return { type: 'admin_key', id: 'admin', name: 'ADMIN_API_KEY', scopes: ['admin'] };
+    }
+
+    if (credential.startsWith(KEY_PREFIX)) {
+      return this.authenticateKey(credential, now);
+    }
+
+    if (isJwt(credential)) {
+      const result = verifyJwt(credential, this.settings.jwtSecret, { issuer: this.settings.jwtIssuer || undefined, now });
+      if (!result.valid) {
+        logger.warn('Rejected JWT', { reason: result.reason });
+        return null;
+      }
+      const scopes = getJwtScopes(result.payload).filter((scope): scope is ApiScope => API_SCOPES.includes(scope as ApiScope));
+      return { type: 'jwt', id: result.payload.sub || 'jwt', name: result.payload.sub || 'JWT', scopes };
+    }
+
+    return null;
+  }
+
+  private async authenticateKey(key: string, now: Date): Promise<AuthPrincipal | null> {
+    const hash = this.hash(key);
+    const record = (await this.store.listKeys()).find(k => k.hash === hash);
+    if (!record || record.revokedAt || (record.expiresAt && new Date(record.expiresAt) <= now)) {
+      return null;
+    }
+
+    if (!record.lastUsedAt || now.getTime() - new Date(record.lastUsedAt).getTime() > LAST_USED_RESOLUTION_MS) {
+      record.lastUsedAt = now.toISOString();
+      this.store.saveKey(record).catch(error => logger.warn('Could not record API key use', { keyId: record.id, error }));
+    }
+
+    return { type: 'api_key', id: record.id, name: record.name, scopes: record.scopes };
+  }
+
+  private hash(key: string): string {
+    return this.settings.apiKeySecret
+      ? crypto.createHmac('sha256', this.settings.apiKeySecret).update(key).digest('hex')
+      : crypto.createHash('sha256').update(key).digest('hex');
+  }
+}
+
+/**
+ * Whether granted scopes cover a required one; admin covers everything and
+ * appointments:write includes reading
+ */
+export function hasScope(granted: ApiScope[], required: ApiScope): boolean {
+  if (granted.includes('admin') || granted.includes(required)) return true;
+  return required === 'appointments:read' && granted.includes('appointments:write');
+}
+
+function validateKeyInput(input: ApiKeyInput): string[] {
+  const errors: string[] = [];
+
+  if (typeof input.name !== 'string' || !input.name.trim()) {
+    errors.push('name is required');
+  } else if (input.name.length > 100) {
+    errors.push('name must be at most 100 characters');
+  }
+
+  if (!Array.isArray(input.scopes) || input.scopes.length === 0) {
+    errors.push(`scopes must be a non-empty array of: ${API_SCOPES.join(', ')}`);
+  } else {
+    const unknown = input.scopes.filter(scope => !API_SCOPES.includes(scope));
+    if (unknown.length > 0) {
+      errors.push(`Unknown scopes: ${unknown.join(', ')} - available: ${API_SCOPES.join(', ')}`);
+    }
+  }
+
+  if (input.expiresAt !== undefined) {
+    if (typeof input.expiresAt !== 'string' || isNaN(Date.parse(input.expiresAt))) {
+      errors.push('expiresAt must be an ISO 8601 date');
+    } else if (new Date(input.expiresAt) <= new Date()) {
+      errors.push('expiresAt must be in the future');
+    }
+  }
+
+  return errors;
+}
+
+function toSummary(record: ApiKeyRecord): ApiKeySummary {
+  const { hash: _hash, ...summary } = record;
+  return summary;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+export const apiKeyService = new ApiKeyService();
@@ -1,5 +1,8 @@
 import logger from '../utils/logger';
 import { appointmentManagementService } from './appointment-management.service';
+import { staffCalendarService } from './staff-calendar.service';
+import { serviceAreaService, outOfServiceAreaResponse } from './service-area.service';
+import { CANCELLATION_REBUTTALS, CancellationRebuttals } from '../config/emma-cancellation-prompt';
 
 export interface CancellationToolsResponse {
   success: boolean;
@@ -37,6 +40,8 @@ export interface RescheduleAppointmentParams {
   newStaffId?: string;
   reason?: string;
   attemptId?: string;
+  holdId?: string;
+  holderId?: string; // Call/session placing the booking
 }
 
 export interface CancelAppointmentParams {
@@ -77,10 +82,18 @@ export class AppointmentCancellationToolsService {
       );
 
       if (appointments.length === 0) {
+        // The customer may still exist in the CRM (e.g. booked through another channel)
+        const crmCustomers = await appointmentManagementService.findCrmCustomers({
+          phone: params.phoneNumber,
+          name: params.customerName
+        });
+
         return {
           success: false,
-          message: 'No scheduled appointments found for this customer',
-          data: { appointments: [] }
+          message: crmCustomers.length > 0
+            ? 'Customer found in the CRM but has no scheduled appointments'
+            : 'No scheduled appointments found for this customer',
+          data: { appointments: [], crmCustomers }
         };
       }
 
@@ -123,7 +136,10 @@ export class AppointmentCancellationToolsService {
   /**
    * Start tracking a cancellation attempt
    */
-  async startCancellationAttempt(params: StartCancellationParams): Promise<CancellationToolsResponse> {
+  async startCancellationAttempt(
+    params: StartCancellationParams,
+    rebuttals?: CancellationRebuttals
+  ): Promise<CancellationToolsResponse> {
     try {
       logger.info('Starting cancellation attempt', params);
 
@@ -159,7 +175,7 @@ export class AppointmentCancellationToolsService {
             staffName: appointment.staffName,
             address: `${appointment.address}, ${appointment.city}, ${appointment.state}`
           },
-          suggestedRebuttals: this.getSuggestedRebuttals(params.reason)
+          suggestedRebuttals: this.getSuggestedRebuttals(params.reason, rebuttals)
         }
       };
 
@@ -229,18 +245,50 @@ export class AppointmentCancellationToolsService {
     try {
       logger.info('Rescheduling appointment', params);
 
-      // Convert date and time to ISO format
-      const newDateTime = new Date(`${params.newDate}T${params.newTime}:00.000Z`);
-      const isoDateTime = newDateTime.toISOString();
+      const existing = await appointmentManagementService.getAppointmentById(params.appointmentId);
+      if (!existing) {
+        return {
+          success: false,
+          message: 'Failed to reschedule appointment - appointment may not exist'
+        };
+      }
+
+      if (params.newStaffId && !serviceAreaService.staffCoversZip(params.newStaffId, existing.zipCode)) {
+        return {
+          success: false,
+          message: `Consultant ${params.newStaffId} does not cover zip code ${existing.zipCode} - choose a slot from get_available_slots`
+        };
+      }
+
+      // Date and time are wall-clock values in the consultant's time zone
+      const staffId = params.newStaffId || existing.staffId;
+      const isoDateTime = staffCalendarService.toUtc(params.newDate, params.newTime, staffId).toISOString();
 
       const result = await appointmentManagementService.rescheduleAppointment(
         params.appointmentId,
         isoDateTime,
         params.newStaffId,
         params.reason,
-        params.attemptId
+        params.attemptId,
+        { holdId: params.holdId, holderId: params.holderId }
       );
 
+      if (result.reason === 'not_active') {
+        return {
+          success: false,
+          message: `This appointment is ${result.appointment?.status} and can't be rescheduled. Offer to book a new appointment instead.`,
+          error: 'not_active'
+        };
+      }
+
+      if (result.reason === 'slot_unavailable') {
+        return {
+          success: false,
+          message: 'That time is no longer available for this consultant. Call get_available_slots again and offer a different time.',
+          data: { slotUnavailable: true }
+        };
+      }
+
       if (!result.success || !result.appointment) {
         return {
           success: false,
@@ -379,6 +427,54 @@ export class AppointmentCancellationToolsService {
     }
   }
 
+  /**
+   * Confirm appointment (customer says the scheduled time still works)
+   */
+  async confirmAppointment(appointmentId: string): Promise<CancellationToolsResponse> {
+    try {
+      logger.info('Confirming appointment', { appointmentId });
+
+      const result = await appointmentManagementService.confirmAppointment(appointmentId);
+
+      if (!result.success || !result.appointment) {
+        return {
+          success: false,
+          message: 'Failed to confirm appointment - appointment may not exist or was cancelled'
+        };
+      }
+
+      const appointment = result.appointment;
+
+      return {
+        success: true,
+        message: 'Appointment confirmed',
+        data: {
+          appointment: {
+            id: appointment.id,
+            customerName: appointment.customerName,
+            scheduledTime: appointment.scheduledTime,
+            formattedTime: new Date(appointment.scheduledTime).toLocaleString('en-US', {
+              weekday: 'long',
+              month: 'long',
+              day: 'numeric',
+              hour: 'numeric',
+              minute: '2-digit'
+            }),
+            status: appointment.status
+          }
+        }
+      };
+
+    } catch (error) {
+      logger.error('Error confirming appointment:', error);
+      return {
+        success: false,
+        message: 'Error occurred while confirming appointment',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
   /**
    * Get available slots for rescheduling
    */
@@ -386,6 +482,11 @@ export class AppointmentCancellationToolsService {
     try {
       logger.info('Getting available slots for reschedule', { zipCode, preferredDates });
 
+      const serviceArea = serviceAreaService.lookup(zipCode);
+      if (!serviceArea.served) {
+        return outOfServiceAreaResponse(serviceArea);
+      }
+
       const slots = await appointmentManagementService.getAvailableSlots(zipCode, preferredDates);
 
       if (slots.length === 0) {
@@ -405,9 +506,11 @@ export class AppointmentCancellationToolsService {
           time: slot.time,
           staffName: slot.staffName,
           staffId: slot.userId,
-          formattedTime: new Date(`${slot.date}T${slot.time}:00`).toLocaleString('en-US', {
+          scheduledTime: slot.scheduledTime,
+          formattedTime: new Date(slot.scheduledTime).toLocaleString('en-US', {
             hour: 'numeric',
-            minute: '2-digit'
+            minute: '2-digit',
+            timeZone: slot.timeZone
           })
         });
         return acc;
@@ -456,47 +559,26 @@ export class AppointmentCancellationToolsService {
     }
   }
 
-  private getSuggestedRebuttals(reason: string): string[] {
+  private getSuggestedRebuttals(reason: string, rebuttals: CancellationRebuttals = CANCELLATION_REBUTTALS): string[] {
     const lowerReason = reason.toLowerCase();
     
     if (lowerReason.includes('schedule') || lowerReason.includes('busy') || lowerReason.includes('time')) {
-      return [
-        "I completely understand how busy schedules can be. Rather than canceling completely, would you be open to rescheduling?",
-        "What if we could find a time that works better for you? I have some flexibility in our schedule.",
-        "I'd hate for you to lose your place in our schedule. Let me check what other times I have available."
-      ];
+      return rebuttals.schedule_conflicts;
     }
     
     if (lowerReason.includes('money') || lowerReason.includes('cost') || lowerReason.includes('afford') || lowerReason.includes('expensive')) {
-      return [
-        "I totally understand - this is a significant decision. That's exactly why our free consultation is so valuable.",
-        "Our Design Consultant specializes in working with different budgets and can show you various options.",
-        "We have financing options that can make projects very manageable. Would you like to explore those?"
-      ];
+      return rebuttals.financial_concerns;
     }
     
     if (lowerReason.includes('mind') || lowerReason.includes('think') || lowerReason.includes('sure') || lowerReason.includes('ready')) {
-      return [
-        "It's completely normal to have second thoughts about a big project like this.",
-        "Many of our happiest customers initially had some hesitation too.",
-        "The consultation is educational - you'll learn about possibilities you might not have considered."
-      ];
+      return rebuttals.changed_mind;
     }
     
     if (lowerReason.includes('spouse') || lowerReason.includes('wife') || lowerReason.includes('husband') || lowerReason.includes('partner')) {
-      return [
-        "It's important that both decision-makers are on the same page.",
-        "Having both of you at the consultation often helps address concerns directly.",
-        "Many times, the hesitant partner becomes the most excited once they see the possibilities!"
-      ];
+      return rebuttals.spouse_objection;
     }
     
-    // Default rebuttals
-    return [
-      "I understand your concerns. Let me see what options we have to make this work better for you.",
-      "Before we cancel, would you be open to exploring some alternatives?",
-      "What if we could address your specific concerns? I'd love to help find a solution."
-    ];
+    return rebuttals.other_concerns;
   }
 
   private getNextRebuttalSuggestions(
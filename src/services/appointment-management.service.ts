@@ -1,4 +1,11 @@
+import { config } from '../config';
 import logger from '../utils/logger';
+import { normalizePhone } from '../utils/phone';
+import { AppointmentStore, createAppointmentStore, InMemoryAppointmentStore } from './appointment-store.service';
+import { staffCalendarService, CalendarEntry } from './staff-calendar.service';
+import { serviceAreaService } from './service-area.service';
+import { CrmAdapter, CrmCustomer, CrmCustomerQuery, CrmEventUpdate, createCrmAdapter } from './crm-adapter.service';
+import type { CallSummary } from './call-summary.service';
 
 export interface Appointment {
   id: string;
@@ -22,10 +29,33 @@ export interface Appointment {
     reason?: string;
     timestamp: string;
   }>;
+  confirmationCall?: ConfirmationCallRecord;
+  callSummaries?: CallSummary[]; // Post-call dispositions, oldest first
   createdAt: string;
   updatedAt: string;
 }
 
+export type ConfirmationCallStatus = 'pending' | 'calling' | 'confirmed' | 'rescheduled' | 'cancelled' | 'voicemail_left' | 'no_answer';
+
+export interface ConfirmationCallAttempt {
+  callSid: string;
+  startedAt: string;
+  endedAt?: string;
+  callStatus?: string; // Final Twilio call status (completed, no-answer, busy, failed, ...)
+  answeredBy?: string; // Answering machine detection result (human, machine_end_beep, fax, ...)
+  voicemailLeftAt?: string;
+}
+
+/**
+ * Outbound confirmation campaign progress for an appointment
+ */
+export interface ConfirmationCallRecord {
+  status: ConfirmationCallStatus;
+  attempts: ConfirmationCallAttempt[];
+  nextAttemptAt?: string; // Earliest time for the next retry
+  completedAt?: string;
+}
+
 export interface CancellationAttempt {
   appointmentId: string;
   customerName: string;
@@ -34,6 +64,7 @@ export interface CancellationAttempt {
   rebuttalStage: number;
   outcome: 'retained' | 'rescheduled' | 'cancelled' | 'pending';
   finalReason?: string;
+  callSummary?: CallSummary; // Disposition of the call the attempt happened on
   timestamp: string;
 }
 
@@ -41,20 +72,90 @@ export interface AppointmentAvailabilitySlot {
   userId: string;
   staffName: string;
   date: string; // YYYY-MM-DD
-  time: string; // HH:mm
+  time: string; // HH:mm in the consultant's time zone
+  timeZone: string;
+  scheduledTime: string; // ISO 8601 UTC start of the slot
   available: boolean;
 }
 
-export class AppointmentManagementService {
-  private appointments: Map<string, Appointment> = new Map();
-  private cancellationAttempts: Map<string, CancellationAttempt> = new Map();
+export interface NewAppointmentParams {
+  customerName: string;
+  customerPhone?: string;
+  customerEmail?: string;
+  scheduledTime: string;
+  address: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  staffId: string;
+  staffName?: string;
+  notes?: string;
+  eventId?: string;
+}
+
+export interface SlotHold {
+  holdId: string;
+  holderId: string; // Call/session that placed the hold
+  staffId: string;
+  scheduledTime: string; // ISO 8601 UTC
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface BookingOptions {
+  holdId?: string;
+  holderId?: string;
+}
+
+export interface BookingResult {
+  success: boolean;
+  appointment: Appointment | null;
+  reason?: 'not_found' | 'not_active' | 'slot_unavailable' | 'outside_service_area';
+}
 
-  constructor() {
-    // Initialize with some mock data for development
-    this.initializeMockData();
+/**
+ * Statuses of appointments that are still going ahead - callers can find,
+ * reschedule or cancel these
+ */
+export const ACTIVE_APPOINTMENT_STATUSES: Appointment['status'][] = ['scheduled', 'confirmed', 'rescheduled'];
+
+export interface AppointmentQuery {
+  status?: Appointment['status'];
+  customerPhone?: string;
+  staffId?: string;
+  from?: string; // ISO 8601, inclusive
+  to?: string; // ISO 8601, exclusive
+}
+
+export class AppointmentManagementService {
+  private store: AppointmentStore;
+  private crm: CrmAdapter | null;
+  private ready: Promise<void>;
+  private slotHolds: Map<string, SlotHold> = new Map();
+  private bookingQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(store: AppointmentStore = createAppointmentStore(), crm: CrmAdapter | null = createCrmAdapter()) {
+    this.store = store;
+    this.crm = crm;
+    // Seed mock data for development when the store is empty
+    this.ready = this.initializeMockData();
+    this.ready.catch(error => logger.error('Failed to load appointments from store', {
+      error: error instanceof Error ? error.message : error
+    }));
   }
 
-  private initializeMockData(): void {
+  private async initializeMockData(): Promise<void> {
+    const existing = await this.store.listAppointments();
+    if (existing.length > 0) {
+      logger.info(`Loaded ${existing.length} appointments from store`);
+      return;
+    }
+
+    // Never write sample customers into a persistent store outside development
+    if (!(this.store instanceof InMemoryAppointmentStore) && config.env !== 'development') {
+      return;
+    }
+
     // Add some sample appointments for testing
     const mockAppointments: Appointment[] = [
       {
@@ -91,9 +192,9 @@ export class AppointmentManagementService {
       }
     ];
 
-    mockAppointments.forEach(apt => {
-      this.appointments.set(apt.id, apt);
-    });
+    for (const apt of mockAppointments) {
+      await this.store.saveAppointment(apt);
+    }
   }
 
   /**
@@ -101,14 +202,17 @@ export class AppointmentManagementService {
    */
   async findAppointmentByCustomer(customerPhone?: string, customerName?: string): Promise<Appointment[]> {
     try {
-      const appointments = Array.from(this.appointments.values());
+      await this.ready;
+      const appointments = await this.store.listAppointments();
+      // Compare digits only - caller ID arrives as E.164 (+15550123456)
+      const phoneDigits = normalizePhone(customerPhone);
       
       return appointments.filter(apt => {
-        const phoneMatch = customerPhone && apt.customerPhone === customerPhone;
+        const phoneMatch = phoneDigits && normalizePhone(apt.customerPhone) === phoneDigits;
         const nameMatch = customerName && 
           apt.customerName.toLowerCase().includes(customerName.toLowerCase());
         
-        return (phoneMatch || nameMatch) && apt.status === 'scheduled';
+        return (phoneMatch || nameMatch) && ACTIVE_APPOINTMENT_STATUSES.includes(apt.status);
       });
     } catch (error) {
       logger.error('Error finding appointment:', error);
@@ -121,13 +225,170 @@ export class AppointmentManagementService {
    */
   async getAppointmentById(appointmentId: string): Promise<Appointment | null> {
     try {
-      return this.appointments.get(appointmentId) || null;
+      await this.ready;
+      return await this.store.getAppointment(appointmentId);
     } catch (error) {
       logger.error('Error getting appointment:', error);
       throw error;
     }
   }
 
+  /**
+   * List appointments matching an optional filter, ordered by scheduled time
+   */
+  async listAppointments(query: AppointmentQuery = {}): Promise<Appointment[]> {
+    try {
+      await this.ready;
+      const appointments = await this.store.listAppointments();
+
+      return appointments
+        .filter(apt => {
+          if (query.status && apt.status !== query.status) return false;
+          if (query.customerPhone && normalizePhone(apt.customerPhone) !== normalizePhone(query.customerPhone)) return false;
+          if (query.staffId && apt.staffId !== query.staffId) return false;
+          const time = new Date(apt.scheduledTime).getTime();
+          if (query.from && time < new Date(query.from).getTime()) return false;
+          if (query.to && time >= new Date(query.to).getTime()) return false;
+          return true;
+        })
+        .sort((a, b) => new Date(a.scheduledTime).getTime() - new Date(b.scheduledTime).getTime());
+    } catch (error) {
+      logger.error('Error listing appointments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a new appointment if the consultant is still free at that time
+   */
+  async createAppointment(params: NewAppointmentParams, options: BookingOptions = {}): Promise<BookingResult> {
+    try {
+      await this.ready;
+
+      const result = await this.withBookingLock(async () => {
+        const scheduledTime = new Date(params.scheduledTime).toISOString();
+
+        if (!serviceAreaService.staffCoversZip(params.staffId, params.zipCode)) {
+          logger.warn('Consultant does not cover the appointment zip code', {
+            staffId: params.staffId,
+            zipCode: params.zipCode
+          });
+          return { success: false, appointment: null, reason: 'outside_service_area' as const };
+        }
+
+        if (!(await this.isBookable(params.staffId, scheduledTime, options))) {
+          logger.warn('Appointment slot no longer available', {
+            staffId: params.staffId,
+            scheduledTime
+          });
+          return { success: false, appointment: null, reason: 'slot_unavailable' as const };
+        }
+
+        const now = new Date().toISOString();
+        const appointment: Appointment = {
+          id: `apt-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
+          ...params,
+          scheduledTime,
+          status: 'scheduled',
+          createdAt: now,
+          updatedAt: now
+        };
+
+        await this.store.saveAppointment(appointment);
+        this.confirmHolds(params.staffId, scheduledTime, options);
+
+        logger.info(`Appointment created: ${appointment.id}`, {
+          customerName: appointment.customerName,
+          scheduledTime: appointment.scheduledTime,
+          staffId: appointment.staffId
+        });
+
+        return { success: true, appointment };
+      });
+
+      if (result.appointment && result.success) {
+        await this.createCrmEvent(result.appointment);
+      }
+
+      return result;
+    } catch (error) {
+      logger.error('Error creating appointment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reserve a slot for a short time while it is offered to a caller
+   */
+  async holdSlot(
+    staffId: string,
+    scheduledTime: string,
+    holderId: string
+  ): Promise<{ success: boolean; hold: SlotHold | null }> {
+    try {
+      await this.ready;
+
+      return await this.withBookingLock(async () => {
+        const start = new Date(scheduledTime).toISOString();
+
+        if (!(await this.isBookable(staffId, start, { holderId }))) {
+          return { success: false, hold: null };
+        }
+
+        const now = Date.now();
+        const hold: SlotHold = {
+          holdId: `hold-${now}-${Math.random().toString(36).substr(2, 6)}`,
+          holderId,
+          staffId,
+          scheduledTime: start,
+          createdAt: new Date(now).toISOString(),
+          expiresAt: new Date(now + config.calendar.slotHoldTtlSeconds * 1000).toISOString()
+        };
+
+        this.slotHolds.set(hold.holdId, hold);
+        logger.info(`Slot held: ${hold.holdId}`, { staffId, scheduledTime: start, holderId });
+
+        return { success: true, hold };
+      });
+    } catch (error) {
+      logger.error('Error holding slot:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Release a single hold
+   */
+  releaseHold(holdId: string): boolean {
+    return this.slotHolds.delete(holdId);
+  }
+
+  /**
+   * Release every hold placed by a call/session (e.g. on hangup)
+   */
+  releaseHoldsForHolder(holderId: string): number {
+    let released = 0;
+    this.slotHolds.forEach((hold, holdId) => {
+      if (hold.holderId === holderId) {
+        this.slotHolds.delete(holdId);
+        released++;
+      }
+    });
+
+    if (released > 0) {
+      logger.info(`Released ${released} slot hold(s)`, { holderId });
+    }
+    return released;
+  }
+
+  /**
+   * Active (unexpired) holds
+   */
+  getActiveHolds(): SlotHold[] {
+    this.purgeExpiredHolds();
+    return Array.from(this.slotHolds.values());
+  }
+
   /**
    * Start a cancellation attempt - track the process
    */
@@ -136,7 +397,8 @@ export class AppointmentManagementService {
     reason: string
   ): Promise<{ attemptId: string; appointment: Appointment | null }> {
     try {
-      const appointment = this.appointments.get(appointmentId);
+      await this.ready;
+      const appointment = await this.store.getAppointment(appointmentId);
       if (!appointment) {
         throw new Error('Appointment not found');
       }
@@ -152,7 +414,7 @@ export class AppointmentManagementService {
         timestamp: new Date().toISOString()
       };
 
-      this.cancellationAttempts.set(attemptId, attempt);
+      await this.store.saveCancellationAttempt(attemptId, attempt);
       
       logger.info(`Cancellation attempt started: ${attemptId}`, { appointmentId, reason });
       
@@ -172,7 +434,8 @@ export class AppointmentManagementService {
     outcome?: 'retained' | 'rescheduled' | 'cancelled'
   ): Promise<CancellationAttempt | null> {
     try {
-      const attempt = this.cancellationAttempts.get(attemptId);
+      await this.ready;
+      const attempt = await this.store.getCancellationAttempt(attemptId);
       if (!attempt) {
         return null;
       }
@@ -182,7 +445,7 @@ export class AppointmentManagementService {
         attempt.outcome = outcome;
       }
 
-      this.cancellationAttempts.set(attemptId, attempt);
+      await this.store.saveCancellationAttempt(attemptId, attempt);
       
       logger.info(`Cancellation attempt updated: ${attemptId}`, { stage, outcome });
       
@@ -202,28 +465,39 @@ export class AppointmentManagementService {
     attemptId?: string
   ): Promise<{ success: boolean; appointment: Appointment | null }> {
     try {
-      const appointment = this.appointments.get(appointmentId);
+      await this.ready;
+
+      // Under the booking lock so a reschedule of the same appointment can't
+      // interleave with the cancel and overwrite it
+      const appointment = await this.withBookingLock(async () => {
+        const appointment = await this.store.getAppointment(appointmentId);
+        if (!appointment) return null;
+
+        appointment.status = 'cancelled';
+        appointment.cancellationReason = reason;
+        appointment.updatedAt = new Date().toISOString();
+
+        await this.store.saveAppointment(appointment);
+
+        // Update cancellation attempt if provided
+        if (attemptId) {
+          const attempt = await this.store.getCancellationAttempt(attemptId);
+          if (attempt) {
+            attempt.outcome = 'cancelled';
+            attempt.finalReason = reason;
+            await this.store.saveCancellationAttempt(attemptId, attempt);
+          }
+        }
+        return appointment;
+      });
+
       if (!appointment) {
         return { success: false, appointment: null };
       }
 
-      appointment.status = 'cancelled';
-      appointment.cancellationReason = reason;
-      appointment.updatedAt = new Date().toISOString();
-
-      this.appointments.set(appointmentId, appointment);
-
-      // Update cancellation attempt if provided
-      if (attemptId) {
-        const attempt = this.cancellationAttempts.get(attemptId);
-        if (attempt) {
-          attempt.outcome = 'cancelled';
-          attempt.finalReason = reason;
-          this.cancellationAttempts.set(attemptId, attempt);
-        }
-      }
-
       logger.info(`Appointment cancelled: ${appointmentId}`, { reason, attemptId });
+
+      await this.updateCrmEvent(appointment, { status: 'cancelled', cancellationReason: reason });
       
       return { success: true, appointment };
     } catch (error) {
@@ -237,59 +511,97 @@ export class AppointmentManagementService {
    */
   async rescheduleAppointment(
     appointmentId: string,
-    newTime: string,
+    requestedTime: string,
     newStaffId?: string,
     reason?: string,
-    attemptId?: string
-  ): Promise<{ success: boolean; appointment: Appointment | null }> {
+    attemptId?: string,
+    options: BookingOptions = {}
+  ): Promise<BookingResult> {
     try {
-      const appointment = this.appointments.get(appointmentId);
-      if (!appointment) {
-        return { success: false, appointment: null };
-      }
+      await this.ready;
+
+      const result = await this.withBookingLock(async () => {
+        const appointment = await this.store.getAppointment(appointmentId);
+        if (!appointment) {
+          return { success: false, appointment: null, reason: 'not_found' as const };
+        }
 
-      const originalTime = appointment.scheduledTime;
+        // A cancelled or completed appointment must not take a slot again
+        if (!ACTIVE_APPOINTMENT_STATUSES.includes(appointment.status)) {
+          logger.warn('Cannot reschedule an appointment that is no longer active', { appointmentId, status: appointment.status });
+          return { success: false, appointment, reason: 'not_active' as const };
+        }
+
+        // Holds and stored appointments are keyed by the ISO 8601 UTC form
+        const newTime = new Date(requestedTime).toISOString();
+
+        if (newStaffId && !serviceAreaService.staffCoversZip(newStaffId, appointment.zipCode)) {
+          logger.warn('Consultant does not cover the appointment zip code', { appointmentId, staffId: newStaffId, zipCode: appointment.zipCode });
+          return { success: false, appointment, reason: 'outside_service_area' as const };
+        }
+
+        const staffId = newStaffId || appointment.staffId;
+        if (!(await this.isBookable(staffId, newTime, { ...options, excludeAppointmentId: appointmentId }))) {
+          logger.warn('Reschedule slot no longer available', { appointmentId, staffId, newTime });
+          return { success: false, appointment, reason: 'slot_unavailable' as const };
+        }
+
+        const originalTime = appointment.scheduledTime;
       
-      // Add to reschedule history
-      if (!appointment.rescheduleHistory) {
-        appointment.rescheduleHistory = [];
-      }
+        // Add to reschedule history
+        if (!appointment.rescheduleHistory) {
+          appointment.rescheduleHistory = [];
+        }
       
-      appointment.rescheduleHistory.push({
-        originalTime,
-        newTime,
-        reason,
-        timestamp: new Date().toISOString()
-      });
+        appointment.rescheduleHistory.push({
+          originalTime,
+          newTime,
+          reason,
+          timestamp: new Date().toISOString()
+        });
 
-      // Update appointment
-      appointment.scheduledTime = newTime;
-      if (newStaffId) {
-        appointment.staffId = newStaffId;
-      }
-      appointment.status = 'rescheduled';
-      appointment.updatedAt = new Date().toISOString();
+        // Update appointment
+        appointment.scheduledTime = newTime;
+        if (newStaffId) {
+          appointment.staffId = newStaffId;
+          appointment.staffName = staffCalendarService.getStaffMember(newStaffId)?.name || appointment.staffName;
+        }
+        appointment.status = 'rescheduled';
+        appointment.updatedAt = new Date().toISOString();
+
+        await this.store.saveAppointment(appointment);
+
+        // Update cancellation attempt if provided
+        if (attemptId) {
+          const attempt = await this.store.getCancellationAttempt(attemptId);
+          if (attempt) {
+            attempt.outcome = 'rescheduled';
+            await this.store.saveCancellationAttempt(attemptId, attempt);
+          }
+        }
 
-      this.appointments.set(appointmentId, appointment);
+        this.confirmHolds(staffId, newTime, options);
 
-      // Update cancellation attempt if provided
-      if (attemptId) {
-        const attempt = this.cancellationAttempts.get(attemptId);
-        if (attempt) {
-          attempt.outcome = 'rescheduled';
-          this.cancellationAttempts.set(attemptId, attempt);
-        }
+        logger.info(`Appointment rescheduled: ${appointmentId}`, { 
+          originalTime, 
+          newTime, 
+          newStaffId, 
+          reason, 
+          attemptId 
+        });
+      
+        return { success: true, appointment };
+      });
+
+      if (result.appointment && result.success) {
+        await this.updateCrmEvent(result.appointment, {
+          scheduledTime: result.appointment.scheduledTime,
+          staffId: result.appointment.staffId,
+          status: 'rescheduled'
+        });
       }
 
-      logger.info(`Appointment rescheduled: ${appointmentId}`, { 
-        originalTime, 
-        newTime, 
-        newStaffId, 
-        reason, 
-        attemptId 
-      });
-      
-      return { success: true, appointment };
+      return result;
     } catch (error) {
       logger.error('Error rescheduling appointment:', error);
       throw error;
@@ -297,47 +609,129 @@ export class AppointmentManagementService {
   }
 
   /**
-   * Get available slots for rescheduling (mock implementation)
+   * Get open slots from the staff calendar for consultants covering the zip code
    */
   async getAvailableSlots(
-    _zipCode: string,
-    preferredDates?: string[]
+    zipCode: string,
+    preferredDates?: string[],
+    holderId?: string
   ): Promise<AppointmentAvailabilitySlot[]> {
     try {
-      // Mock implementation - in real app this would query actual calendar system
-      const slots: AppointmentAvailabilitySlot[] = [];
-      const staff = [
-        { userId: 'staff-001', staffName: 'Mike Johnson' },
-        { userId: 'staff-002', staffName: 'David Chen' },
-        { userId: 'staff-003', staffName: 'Sarah Martinez' }
-      ];
+      await this.ready;
+
+      const { staffIds } = serviceAreaService.lookup(zipCode);
+      if (staffIds.length === 0) {
+        return [];
+      }
+
+      const entries = await this.getCalendarEntries({ holderId });
+
+      return staffCalendarService
+        .getAvailableSlots(entries, { dates: preferredDates, staffIds })
+        .map(slot => ({
+          userId: slot.staffId,
+          staffName: slot.staffName,
+          date: slot.date,
+          time: slot.time,
+          timeZone: slot.timeZone,
+          scheduledTime: slot.start,
+          available: true
+        }));
+    } catch (error) {
+      logger.error('Error getting available slots:', error);
+      throw error;
+    }
+  }
 
-      const times = ['10:00', '14:00', '18:00'];
-      const dates = preferredDates || [
-        new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0], // tomorrow
-        new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString().split('T')[0], // day after
-        new Date(Date.now() + 3 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]  // 3 days out
+  /**
+   * Confirm an appointment (customer says the time still works)
+   */
+  async confirmAppointment(appointmentId: string): Promise<{ success: boolean; appointment: Appointment | null }> {
+    try {
+      await this.ready;
+      const appointment = await this.store.getAppointment(appointmentId);
+      if (!appointment || appointment.status === 'cancelled') {
+        return { success: false, appointment };
+      }
+
+      appointment.status = 'confirmed';
+      appointment.updatedAt = new Date().toISOString();
+      await this.store.saveAppointment(appointment);
+
+      logger.info(`Appointment confirmed: ${appointmentId}`);
+
+      await this.updateCrmEvent(appointment, { status: 'confirmed' });
+
+      return { success: true, appointment };
+    } catch (error) {
+      logger.error('Error confirming appointment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record confirmation campaign progress on an appointment
+   */
+  async saveConfirmationCall(appointmentId: string, record: ConfirmationCallRecord): Promise<Appointment | null> {
+    try {
+      await this.ready;
+      const appointment = await this.store.getAppointment(appointmentId);
+      if (!appointment) {
+        return null;
+      }
+
+      appointment.confirmationCall = record;
+      appointment.updatedAt = new Date().toISOString();
+      await this.store.saveAppointment(appointment);
+
+      return appointment;
+    } catch (error) {
+      logger.error('Error saving confirmation call:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Attach a post-call summary to an appointment
+   */
+  async attachCallSummary(appointmentId: string, summary: CallSummary): Promise<Appointment | null> {
+    try {
+      await this.ready;
+      const appointment = await this.store.getAppointment(appointmentId);
+      if (!appointment) {
+        return null;
+      }
+
+      appointment.callSummaries = [
+        ...(appointment.callSummaries || []).filter(s => s.callId !== summary.callId),
+        summary
       ];
+      await this.store.saveAppointment(appointment);
 
-      dates.forEach(date => {
-        times.forEach(time => {
-          staff.forEach(s => {
-            // Randomly make some slots unavailable for realism
-            const available = Math.random() > 0.3;
-            slots.push({
-              userId: s.userId,
-              staffName: s.staffName,
-              date,
-              time,
-              available
-            });
-          });
-        });
-      });
+      return appointment;
+    } catch (error) {
+      logger.error('Error attaching call summary:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Attach a post-call summary to a cancellation attempt
+   */
+  async attachCallSummaryToAttempt(attemptId: string, summary: CallSummary): Promise<boolean> {
+    try {
+      await this.ready;
+      const attempt = await this.store.getCancellationAttempt(attemptId);
+      if (!attempt) {
+        return false;
+      }
 
-      return slots.filter(s => s.available);
+      attempt.callSummary = summary;
+      await this.store.saveCancellationAttempt(attemptId, attempt);
+
+      return true;
     } catch (error) {
-      logger.error('Error getting available slots:', error);
+      logger.error('Error attaching call summary to cancellation attempt:', error);
       throw error;
     }
   }
@@ -350,25 +744,28 @@ export class AppointmentManagementService {
     attemptId?: string
   ): Promise<{ success: boolean; appointment: Appointment | null }> {
     try {
-      const appointment = this.appointments.get(appointmentId);
+      await this.ready;
+      const appointment = await this.store.getAppointment(appointmentId);
       if (!appointment) {
         return { success: false, appointment: null };
       }
 
       appointment.status = 'confirmed';
       appointment.updatedAt = new Date().toISOString();
-      this.appointments.set(appointmentId, appointment);
+      await this.store.saveAppointment(appointment);
 
       // Update cancellation attempt if provided
       if (attemptId) {
-        const attempt = this.cancellationAttempts.get(attemptId);
+        const attempt = await this.store.getCancellationAttempt(attemptId);
         if (attempt) {
           attempt.outcome = 'retained';
-          this.cancellationAttempts.set(attemptId, attempt);
+          await this.store.saveCancellationAttempt(attemptId, attempt);
         }
       }
 
       logger.info(`Appointment retained: ${appointmentId}`, { attemptId });
+
+      await this.updateCrmEvent(appointment, { status: 'confirmed' });
       
       return { success: true, appointment };
     } catch (error) {
@@ -377,6 +774,147 @@ export class AppointmentManagementService {
     }
   }
 
+  /**
+   * List cancellation attempts, most recent first
+   */
+  async listCancellationAttempts(appointmentId?: string): Promise<Array<CancellationAttempt & { attemptId: string }>> {
+    try {
+      await this.ready;
+      const attempts = await this.store.listCancellationAttempts();
+
+      return attempts
+        .filter(a => !appointmentId || a.appointmentId === appointmentId)
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    } catch (error) {
+      logger.error('Error listing cancellation attempts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Look up customer records in the CRM (empty when CRM sync is disabled or unavailable)
+   */
+  async findCrmCustomers(query: CrmCustomerQuery): Promise<CrmCustomer[]> {
+    if (!this.crm || (!query.phone && !query.name)) {
+      return [];
+    }
+
+    try {
+      return await this.crm.findCustomer(query);
+    } catch (error) {
+      logger.error('CRM customer lookup failed', { error: error instanceof Error ? error.message : error });
+      return [];
+    }
+  }
+
+  /**
+   * Run booking operations one at a time so the availability check and the
+   * write cannot interleave with another call booking the same consultant
+   */
+  private withBookingLock<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.bookingQueue.then(operation, operation);
+    this.bookingQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Appointments plus other callers' active holds, as calendar entries
+   */
+  private async getCalendarEntries(
+    options: BookingOptions & { excludeAppointmentId?: string } = {}
+  ): Promise<CalendarEntry[]> {
+    this.purgeExpiredHolds();
+
+    const appointments = (await this.store.listAppointments())
+      .filter(apt => apt.id !== options.excludeAppointmentId);
+    const holds = Array.from(this.slotHolds.values())
+      .filter(hold => hold.holdId !== options.holdId && hold.holderId !== options.holderId)
+      .map(hold => ({
+        id: hold.holdId,
+        staffId: hold.staffId,
+        scheduledTime: hold.scheduledTime,
+        status: 'scheduled' as const
+      }));
+
+    return [...appointments, ...holds];
+  }
+
+  private async isBookable(
+    staffId: string,
+    scheduledTime: string,
+    options: BookingOptions & { excludeAppointmentId?: string }
+  ): Promise<boolean> {
+    const entries = await this.getCalendarEntries(options);
+    return staffCalendarService.isSlotAvailable(entries, staffId, scheduledTime);
+  }
+
+  /**
+   * Drop the holds that a successful booking converted into an appointment
+   */
+  private confirmHolds(staffId: string, scheduledTime: string, options: BookingOptions): void {
+    if (options.holdId) {
+      this.slotHolds.delete(options.holdId);
+    }
+    if (options.holderId) {
+      this.slotHolds.forEach((hold, holdId) => {
+        if (hold.holderId === options.holderId && hold.staffId === staffId && hold.scheduledTime === scheduledTime) {
+          this.slotHolds.delete(holdId);
+        }
+      });
+    }
+  }
+
+  /**
+   * Create the CRM event for a new appointment - the booking stands even if the CRM is unreachable
+   */
+  private async createCrmEvent(appointment: Appointment): Promise<void> {
+    if (!this.crm || appointment.eventId) return;
+
+    try {
+      const event = await this.crm.createEvent({
+        customerName: appointment.customerName,
+        customerPhone: appointment.customerPhone,
+        customerEmail: appointment.customerEmail,
+        scheduledTime: appointment.scheduledTime,
+        address: appointment.address,
+        city: appointment.city,
+        state: appointment.state,
+        zipCode: appointment.zipCode,
+        staffId: appointment.staffId,
+        notes: appointment.notes
+      });
+
+      appointment.eventId = event.id;
+      await this.store.saveAppointment(appointment);
+    } catch (error) {
+      logger.error(`Failed to create CRM event for appointment ${appointment.id}`, {
+        error: error instanceof Error ? error.message : error
+      });
+    }
+  }
+
+  private async updateCrmEvent(appointment: Appointment, update: CrmEventUpdate): Promise<void> {
+    if (!this.crm || !appointment.eventId) return;
+
+    try {
+      await this.crm.updateEvent(appointment.eventId, update);
+    } catch (error) {
+      logger.error(`Failed to update CRM event ${appointment.eventId}`, {
+        appointmentId: appointment.id,
+        error: error instanceof Error ? error.message : error
+      });
+    }
+  }
+
+  private purgeExpiredHolds(): void {
+    const now = new Date().toISOString();
+    this.slotHolds.forEach((hold, holdId) => {
+      if (hold.expiresAt <= now) {
+        this.slotHolds.delete(holdId);
+      }
+    });
+  }
+
   /**
    * Get cancellation statistics for reporting
    */
@@ -388,7 +926,8 @@ export class AppointmentManagementService {
     retentionRate: number;
   }> {
     try {
-      const attempts = Array.from(this.cancellationAttempts.values());
+      await this.ready;
+      const attempts = await this.store.listCancellationAttempts();
       const totalAttempts = attempts.length;
       const retained = attempts.filter(a => a.outcome === 'retained').length;
       const rescheduled = attempts.filter(a => a.outcome === 'rescheduled').length;
@@ -409,4 +948,4 @@ export class AppointmentManagementService {
   }
 }
 
-export const appointmentManagementService = new AppointmentManagementService();
\ No newline at end of file
+export const appointmentManagementService = new AppointmentManagementService();
@@ -0,0 +1,108 @@
+/**
+ * Appointment Store
+ * Storage backends for appointments and cancellation attempts
+ */
+
+import path from 'path';
+import { config } from '../config';
+import { JsonFileStore } from '../utils/json-file-store';
+import logger from '../utils/logger';
+import type { Appointment, CancellationAttempt } from './appointment-management.service';
+
+/**
+ * Storage interface used by AppointmentManagementService
+ */
+export interface AppointmentStore {
+  getAppointment(appointmentId: string): Promise<Appointment | null>;
+  listAppointments(): Promise<Appointment[]>;
+  saveAppointment(appointment: Appointment): Promise<void>;
+  getCancellationAttempt(attemptId: string): Promise<CancellationAttempt | null>;
+  listCancellationAttempts(): Promise<Array<CancellationAttempt & { attemptId: string }>>;
+  saveCancellationAttempt(attemptId: string, attempt: CancellationAttempt): Promise<void>;
+}
+
+/**
+ * In-memory store - data is lost on restart (used for tests and scripts)
+ */
+export class InMemoryAppointmentStore implements AppointmentStore {
+  private appointments: Map<string, Appointment> = new Map();
+  private cancellationAttempts: Map<string, CancellationAttempt> = new Map();
+
+  async getAppointment(appointmentId: string): Promise<Appointment | null> {
+    return this.appointments.get(appointmentId) || null;
+  }
+
+  async listAppointments(): Promise<Appointment[]> {
+    return Array.from(this.appointments.values());
+  }
+
+  async saveAppointment(appointment: Appointment): Promise<void> {
+    this.appointments.set(appointment.id, appointment);
+  }
+
+  async getCancellationAttempt(attemptId: string): Promise<CancellationAttempt | null> {
+    return this.cancellationAttempts.get(attemptId) || null;
+  }
+
+  async listCancellationAttempts(): Promise<Array<CancellationAttempt & { attemptId: string }>> {
+    return Array.from(this.cancellationAttempts.entries()).map(([attemptId, attempt]) => ({
+      ...attempt,
+      attemptId
+    }));
+  }
+
+  async saveCancellationAttempt(attemptId: string, attempt: CancellationAttempt): Promise<void> {
+    this.cancellationAttempts.set(attemptId, attempt);
+  }
+}
+
+/**
+ * File-backed store - appointments and attempts survive restarts
+ */
+export class FileAppointmentStore implements AppointmentStore {
+  private appointments: JsonFileStore<Appointment>;
+  private cancellationAttempts: JsonFileStore<CancellationAttempt>;
+
+  constructor(dataDir: string) {
+    this.appointments = new JsonFileStore(path.join(dataDir, 'appointments.json'));
+    this.cancellationAttempts = new JsonFileStore(path.join(dataDir, 'cancellation-attempts.json'));
+  }
+
+  async getAppointment(appointmentId: string): Promise<Appointment | null> {
+    return this.appointments.get(appointmentId);
+  }
+
+  async listAppointments(): Promise<Appointment[]> {
+    return this.appointments.list();
+  }
+
+  async saveAppointment(appointment: Appointment): Promise<void> {
+    await this.appointments.set(appointment.id, appointment);
+  }
+
+  async getCancellationAttempt(attemptId: string): Promise<CancellationAttempt | null> {
+    return this.cancellationAttempts.get(attemptId);
+  }
+
+  async listCancellationAttempts(): Promise<Array<CancellationAttempt & { attemptId: string }>> {
+    const entries = await this.cancellationAttempts.entries();
+    return entries.map(([attemptId, attempt]) => ({ ...attempt, attemptId }));
+  }
+
+  async saveCancellationAttempt(attemptId: string, attempt: CancellationAttempt): Promise<void> {
+    await this.cancellationAttempts.set(attemptId, attempt);
+  }
+}
+
+/**
+ * Create the store configured by STORAGE_DRIVER
+ */
+export function createAppointmentStore(): AppointmentStore {
+  if (config.storage.driver === 'memory') {
+    logger.info('Using in-memory appointment store');
+    return new InMemoryAppointmentStore();
+  }
+
+  logger.info('Using file-backed appointment store', { dataDir: config.storage.dataDir });
+  return new FileAppointmentStore(config.storage.dataDir);
+}
@@ -0,0 +1,79 @@
+/**
+ * Call Context Service
+ * Tracks who and what each live call or voice session is about so tool
+ * handlers can act on the current call without the model passing IDs around
+ */
+
+import logger from '../utils/logger';
+import type { CallAgent } from './agent-profile.service';
+
+export type CallChannel = 'phone' | 'web';
+export type CallDirection = 'inbound' | 'outbound';
+
+export interface CallContext {
+  sessionId: string; // Key used for tool calls, slot holds and cost tracking
+  channel: CallChannel;
+  direction: CallDirection;
+  callSid?: string; // Twilio call SID for phone calls
+  callerNumber?: string; // Customer's phone number, whichever side dialed
+  campaign?: string; // Outbound campaign that placed the call, e.g. 'confirmation'
+  appointmentId?: string; // Appointment the call is about, once known
+  agent?: CallAgent; // Agent profile answering the call
+  startedAt: string;
+}
+
+export type NewCallContext = Omit<CallContext, 'startedAt'>;
+
+export class CallContextService {
+  private contexts = new Map<string, CallContext>();
+
+  /**
+   * Register a call or session when it starts
+   */
+  start(params: NewCallContext): CallContext {
+    const context: CallContext = { ...params, startedAt: new Date().toISOString() };
+    this.contexts.set(context.sessionId, context);
+
+    logger.info('Call context started', {
+      sessionId: context.sessionId,
+      channel: context.channel,
+      direction: context.direction,
+      campaign: context.campaign,
+      appointmentId: context.appointmentId,
+      agentId: context.agent?.id,
+    });
+
+    return context;
+  }
+
+  get(sessionId?: string): CallContext | undefined {
+    return sessionId ? this.contexts.get(sessionId) : undefined;
+  }
+
+  /**
+   * Merge new details into a live context (e.g. the appointment once it is found)
+   */
+  update(sessionId: string | undefined, changes: Partial<NewCallContext>): CallContext | undefined {
+    const context = this.get(sessionId);
+    if (!context) return undefined;
+
+    Object.assign(context, changes, { sessionId: context.sessionId });
+    return context;
+  }
+
+  /**
+   * Forget a call when it ends
+   */
+  end(sessionId: string): void {
+    this.contexts.delete(sessionId);
+  }
+}
+
+/**
+ * Twilio reports outbound calls as 'outbound-api' or 'outbound-dial'
+ */
+export function toCallDirection(twilioDirection?: string): CallDirection {
+  return twilioDirection?.startsWith('outbound') ? 'outbound' : 'inbound';
+}
+
+export const callContextService = new CallContextService();
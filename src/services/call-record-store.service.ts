@@ -0,0 +1,75 @@
+/**
+ * Call Record Store
+ * Storage backends for call transcripts
+ */
+
+import path from 'path';
+import { config } from '../config';
+import { JsonDirectoryStore } from '../utils/json-directory-store';
+import logger from '../utils/logger';
+import type { CallRecord } from './call-recording.service';
+
+/**
+ * Storage interface used by CallRecordingService
+ */
+export interface CallRecordStore {
+  getCall(callId: string): Promise<CallRecord | null>;
+  listCalls(): Promise<CallRecord[]>;
+  saveCall(call: CallRecord): Promise<void>;
+}
+
+/**
+ * In-memory store - data is lost on restart (used for tests and scripts)
+ */
+export class InMemoryCallRecordStore implements CallRecordStore {
+  private calls: Map<string, CallRecord> = new Map();
+
+  async getCall(callId: string): Promise<CallRecord | null> {
+    return this.calls.get(callId) || null;
+  }
+
+  async listCalls(): Promise<CallRecord[]> {
+    return Array.from(this.calls.values());
+  }
+
+  async saveCall(call: CallRecord): Promise<void> {
+    this.calls.set(call.id, call);
+  }
+}
+
+/**
+ * File-backed store - transcripts survive restarts. Each call is its own file
+ * under calls/, so saving a call never rewrites the rest of the history
+ */
+export class FileCallRecordStore implements CallRecordStore {
+  private calls: JsonDirectoryStore<CallRecord>;
+
+  constructor(dataDir: string) {
+    this.calls = new JsonDirectoryStore(path.join(dataDir, 'calls'));
+  }
+
+  async getCall(callId: string): Promise<CallRecord | null> {
+    return this.calls.get(callId);
+  }
+
+  async listCalls(): Promise<CallRecord[]> {
+    return this.calls.list();
+  }
+
+  async saveCall(call: CallRecord): Promise<void> {
+    await this.calls.set(call.id, call);
+  }
+}
+
+/**
+ * Create the store configured by STORAGE_DRIVER
+ */
+export function createCallRecordStore(): CallRecordStore {
+  if (config.storage.driver === 'memory') {
+    logger.info('Using in-memory call record store');
+    return new InMemoryCallRecordStore();
+  }
+
+  logger.info('Using file-backed call record store', { dataDir: config.storage.dataDir });
+  return new FileCallRecordStore(config.storage.dataDir);
+}
@@ -0,0 +1,295 @@
+/**
+ * Call Recording Service
+ * Builds a speaker-labelled transcript for every call or voice session,
+ * including Emma's tool calls and their results, and archives it when the
+ * call ends. Phone calls can also carry a Twilio audio recording
+ */
+
+import { EventEmitter } from 'events';
+import { config } from '../config';
+import logger from '../utils/logger';
+import { normalizePhone } from '../utils/phone';
+import type { CallContext } from './call-context.service';
+import { CallRecordStore, createCallRecordStore } from './call-record-store.service';
+import { CallSummary, callSummaryService } from './call-summary.service';
+import { CITE_KNOWLEDGE_TOOL, CitedEntry, GroundingCheck, knowledgeGroundingService } from './knowledge-grounding.service';
+
+export type TranscriptSpeaker = 'caller' | 'agent';
+
+export interface TranscriptSpeech {
+  type: 'speech';
+  speaker: TranscriptSpeaker;
+  text: string;
+  timestamp: string;
+  grounding?: GroundingCheck; // Agent turns stating a price or policy; grounded=false flags an unsupported claim
+}
+
+export interface TranscriptToolCall {
+  type: 'tool_call';
+  callId: string;
+  name: string;
+  arguments: any;
+  result?: any;
+  timestamp: string;
+  completedAt?: string;
+}
+
+export type TranscriptEntry = TranscriptSpeech | TranscriptToolCall;
+
+export interface CallAudioRecording {
+  recordingSid: string;
+  url: string; // Twilio media URL (requires account credentials)
+  durationSeconds?: number;
+  channels?: number;
+}
+
+export interface CallRecord {
+  id: string; // Call SID for phone calls, realtime session ID for web sessions
+  channel: CallContext['channel'];
+  direction: CallContext['direction'];
+  callSid?: string;
+  callerNumber?: string;
+  campaign?: string;
+  appointmentId?: string;
+  agentId?: string;
+  status: 'in_progress' | 'completed';
+  startedAt: string;
+  endedAt?: string;
+  durationSeconds?: number;
+  transcript: TranscriptEntry[];
+  recording?: CallAudioRecording;
+  summary?: CallSummary;
+}
+
+export type CallRecordSummary = Omit<CallRecord, 'transcript'> & {
+  turnCount: number;
+  toolCallCount: number;
+  unsupportedClaimCount: number;
+};
+
+export interface CallRecordQuery {
+  q?: string; // Free text searched in the transcript
+  phone?: string;
+  channel?: CallRecord['channel'];
+  direction?: CallRecord['direction'];
+  campaign?: string;
+  appointmentId?: string;
+  agentId?: string;
+  unsupportedClaims?: boolean; // Only calls where the agent stated a price or policy without a citation
+  from?: string; // ISO 8601, inclusive - call start
+  to?: string; // ISO 8601, exclusive
+  limit?: number;
+}
+
+const DEFAULT_LIST_LIMIT = 50;
+
+export class CallRecordingService {
+  private store: CallRecordStore;
+  private activeCalls: Map<string, CallRecord> = new Map();
+
+  /**
+   * Transcripts are always kept in memory during a call for its summary;
+   * archiveTranscripts decides whether they are stored afterwards
+   */
+  constructor(store: CallRecordStore = createCallRecordStore(), private archiveTranscripts: boolean = config.recording.transcripts) {
+    this.store = store;
+  }
+
+  /**
+   * Open a transcript when a call or session starts
+   */
+  async startCall(context: CallContext): Promise<CallRecord | null> {
+
+    const call: CallRecord = {
+      id: context.sessionId,
+      channel: context.channel,
+      direction: context.direction,
+      callSid: context.callSid,
+      callerNumber: context.callerNumber,
+      campaign: context.campaign,
+      appointmentId: context.appointmentId,
+      agentId: context.agent?.id,
+      status: 'in_progress',
+      startedAt: context.startedAt,
+      transcript: [],
+    };
+    this.activeCalls.set(call.id, call);
+
+    await this.save(call);
+    return call;
+  }
+
+  /**
+   * Record caller and agent speech from an OpenAI Realtime session
+   */
+  attachRealtimeSession(callId: string, realtimeService: EventEmitter): void {
+    realtimeService.on('transcription', (transcript: string) => this.addSpeech(callId, 'caller', transcript));
+    realtimeService.on('response.audio_transcript.done', (data: { transcript: string }) => {
+      this.addSpeech(callId, 'agent', data.transcript);
+    });
+    realtimeService.on('text', (data: { text: string; isFinal: boolean }) => {
+      if (data.isFinal) this.addSpeech(callId, 'agent', data.text);
+    });
+  }
+
+  addSpeech(callId: string, speaker: TranscriptSpeaker, text: string): void {
+    const call = this.activeCalls.get(callId);
+    if (!call || !text?.trim()) return;
+
+    const speech: TranscriptSpeech = { type: 'speech', speaker, text: text.trim(), timestamp: new Date().toISOString() };
+    if (speaker === 'agent') {
+      const grounding = knowledgeGroundingService.checkAgentSpeech(speech.text, getCitations(call.transcript));
+      if (grounding) speech.grounding = grounding;
+      if (grounding && !grounding.grounded) {
+        logger.warn('Agent made an unsupported knowledge claim', {
+          callId,
+          claims: grounding.claims.filter(claim => !claim.supported).map(claim => claim.text),
+        });
+      }
+    }
+    call.transcript.push(speech);
+  }
+
+  recordToolCallStarted(callId: string, toolCall: { callId: string; name: string; arguments: any }): void {
+    const call = this.activeCalls.get(callId);
+    if (!call) return;
+
+    call.transcript.push({
+      type: 'tool_call',
+      callId: toolCall.callId,
+      name: toolCall.name,
+      arguments: parseArguments(toolCall.arguments),
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  recordToolCallCompleted(callId: string, toolCallId: string, result: any): void {
+    const entry = this.activeCalls.get(callId)?.transcript
+      .find((e): e is TranscriptToolCall => e.type === 'tool_call' && e.callId === toolCallId);
+    if (!entry) return;
+
+    entry.result = result;
+    entry.completedAt = new Date().toISOString();
+  }
+
+  /**
+   * Close and archive the transcript. Safe to call more than once
+   */
+  async endCall(callId: string, context?: CallContext): Promise<CallRecord | null> {
+    const call = this.activeCalls.get(callId);
+    if (!call) return null;
+    this.activeCalls.delete(callId);
+
+    call.status = 'completed';
+    call.endedAt = new Date().toISOString();
+    call.durationSeconds = Math.round((Date.parse(call.endedAt) - Date.parse(call.startedAt)) / 1000);
+    if (context?.appointmentId) {
+      call.appointmentId = context.appointmentId;
+    }
+    call.summary = await callSummaryService.processCall(call) || undefined;
+
+    await this.save(call);
+    logger.info('Call transcript archived', { callId, turns: call.transcript.length, durationSeconds: call.durationSeconds });
+    return call;
+  }
+
+  /**
+   * Link a finished Twilio recording to its call
+   */
+  async attachRecording(callId: string, recording: CallAudioRecording): Promise<CallRecord | null> {
+    const call = await this.getCall(callId);
+    if (!call) {
+      logger.warn('Recording received for unknown call', { callId, recordingSid: recording.recordingSid });
+      return null;
+    }
+
+    call.recording = recording;
+    await this.save(call);
+    return call;
+  }
+
+  async getCall(callId: string): Promise<CallRecord | null> {
+    try {
+      return this.activeCalls.get(callId) || await this.store.getCall(callId);
+    } catch (error) {
+      logger.error('Error getting call record:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Search calls, newest first
+   */
+  async listCalls(query: CallRecordQuery = {}): Promise<CallRecordSummary[]> {
+    try {
+      const stored = await this.store.listCalls();
+      const calls = new Map(stored.map(call => [call.id, call]));
+      this.activeCalls.forEach((call, id) => calls.set(id, call));
+
+      const text = query.q?.toLowerCase();
+      const phone = normalizePhone(query.phone);
+
+      return Array.from(calls.values())
+        .filter(call => {
+          if (query.channel && call.channel !== query.channel) return false;
+          if (query.direction && call.direction !== query.direction) return false;
+          if (query.campaign && call.campaign !== query.campaign) return false;
+          if (query.appointmentId && call.appointmentId !== query.appointmentId) return false;
+          if (query.agentId && call.agentId !== query.agentId) return false;
+          if (query.unsupportedClaims && countUnsupportedClaims(call.transcript) === 0) return false;
+          if (phone && normalizePhone(call.callerNumber) !== phone) return false;
+          if (query.from && call.startedAt < new Date(query.from).toISOString()) return false;
+          if (query.to && call.startedAt >= new Date(query.to).toISOString()) return false;
+          if (text && !call.transcript.some(e => e.type === 'speech' && e.text.toLowerCase().includes(text))) return false;
+          return true;
+        })
+        .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+        .slice(0, query.limit || DEFAULT_LIST_LIMIT)
+        .map(({ transcript, ...call }) => ({
+          ...call,
+          turnCount: transcript.filter(e => e.type === 'speech').length,
+          toolCallCount: transcript.filter(e => e.type === 'tool_call').length,
+          unsupportedClaimCount: countUnsupportedClaims(transcript),
+        }));
+    } catch (error) {
+      logger.error('Error listing call records:', error);
+      throw error;
+    }
+  }
+
+  private async save(call: CallRecord): Promise<void> {
+    if (!this.archiveTranscripts) return;
+    try {
+      await this.store.saveCall(call);
+    } catch (error) {
+      // A storage failure must never take down a live call
+      logger.error('Failed to save call record', { callId: call.id, error });
+    }
+  }
+}
+
+/**
+ * Knowledge entries the agent has cited so far in the call
+ */
+function getCitations(transcript: TranscriptEntry[]): CitedEntry[] {
+  return transcript.flatMap(entry =>
+    entry.type === 'tool_call' && entry.name === CITE_KNOWLEDGE_TOOL && entry.result?.success
+      ? entry.result.data?.entries || []
+      : []
+  );
+}
+
+function countUnsupportedClaims(transcript: TranscriptEntry[]): number {
+  return transcript.filter(entry => entry.type === 'speech' && entry.grounding && !entry.grounding.grounded).length;
+}
+
+function parseArguments(args: any): any {
+  if (typeof args !== 'string') return args;
+  try {
+    return JSON.parse(args);
+  } catch {
+    return args;
+  }
+}
+
+export const callRecordingService = new CallRecordingService();
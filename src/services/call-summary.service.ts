@@ -0,0 +1,222 @@
+/**
+ * Call Summary Service
+ * Turns a finished call's transcript and tool history into a structured
+ * disposition (intent, appointment outcome, objections, follow-up) and files
+ * it on the appointment and cancellation attempt the call touched
+ */
+
+import logger from '../utils/logger';
+import type { CallRecord, TranscriptToolCall } from './call-recording.service';
+import { appointmentManagementService } from './appointment-management.service';
+import { emmaToolsService, ScenarioDetectionResult } from './emma-tools.service';
+
+export type CallIntent = ScenarioDetectionResult['scenario'];
+export type CallAppointmentOutcome = 'booked' | 'rescheduled' | 'cancelled' | 'retained' | 'confirmed' | 'none';
+export type CallObjection = 'schedule_conflict' | 'financial_concern' | 'changed_mind' | 'spouse_objection' | 'timing_concern';
+
+export interface CallSummary {
+  callId: string;
+  channel: CallRecord['channel'];
+  direction: CallRecord['direction'];
+  campaign?: string;
+  generatedAt: string;
+  intent: CallIntent;
+  appointmentOutcome: CallAppointmentOutcome;
+  appointmentId?: string;
+  cancellationAttemptId?: string;
+  objections: CallObjection[];
+  cancellationReason?: string;
+  followUpNeeded: boolean;
+  followUpReasons: string[];
+  toolsUsed: string[];
+  summary: string; // One-line human readable disposition
+}
+
+// Tools that settle the appointment, and what they mean for the call
+const OUTCOME_TOOLS: Record<string, CallAppointmentOutcome> = {
+  create_appointment_event: 'booked',
+  reschedule_appointment: 'rescheduled',
+  cancel_appointment: 'cancelled',
+  retain_appointment: 'retained',
+  confirm_appointment: 'confirmed',
+};
+
+const INTENT_TOOLS: Record<string, CallIntent> = {
+  get_appointment_availability: 'scheduling',
+  create_appointment_event: 'scheduling',
+  start_cancellation_attempt: 'cancellation',
+  cancel_appointment: 'cancellation',
+  retain_appointment: 'cancellation',
+  get_available_slots: 'rescheduling',
+  reschedule_appointment: 'rescheduling',
+  confirm_appointment: 'confirmation',
+};
+
+const OBJECTION_KEYWORDS: Record<CallObjection, string[]> = {
+  financial_concern: ['afford', 'expensive', 'cost', 'price', 'money', 'budget'],
+  spouse_objection: ['spouse', 'wife', 'husband', 'partner'],
+  schedule_conflict: ["can't make it", 'conflict', 'something came up', 'working that day', 'out of town'],
+  timing_concern: ['not ready', 'too soon', 'later this year', 'next year', 'not the right time'],
+  changed_mind: ['changed my mind', 'not interested', 'thinking about it', 'second thoughts'],
+};
+
+const CALLBACK_PHRASES = ['call me back', 'call back', 'call you back', 'callback', 'call later'];
+
+export class CallSummaryService {
+  /**
+   * Build the summary for a finished call
+   */
+  summarize(call: CallRecord): CallSummary {
+    const toolCalls = call.transcript.filter((e): e is TranscriptToolCall => e.type === 'tool_call');
+    const succeeded = toolCalls.filter(t => t.result?.success);
+    const callerText = call.transcript
+      .filter(e => e.type === 'speech' && e.speaker === 'caller')
+      .map(e => (e.type === 'speech' ? e.text : ''))
+      .join(' ');
+
+    const outcomeCall = [...succeeded].reverse().find(t => OUTCOME_TOOLS[t.name]);
+    const appointmentOutcome = outcomeCall ? OUTCOME_TOOLS[outcomeCall.name] : 'none';
+    const attemptCall = succeeded.find(t => t.name === 'start_cancellation_attempt');
+
+    const intent = this.detectIntent(call, toolCalls, callerText);
+    const objections = this.detectObjections(toolCalls, callerText);
+    const followUpReasons = this.getFollowUpReasons(call, toolCalls, intent, appointmentOutcome, callerText);
+
+    const summary: CallSummary = {
+      callId: call.id,
+      channel: call.channel,
+      direction: call.direction,
+      campaign: call.campaign,
+      generatedAt: new Date().toISOString(),
+      intent,
+      appointmentOutcome,
+      appointmentId: this.getAppointmentId(outcomeCall, attemptCall) || call.appointmentId,
+      cancellationAttemptId: attemptCall?.result?.data?.attemptId,
+      objections,
+      cancellationReason: attemptCall?.arguments?.reason,
+      followUpNeeded: followUpReasons.length > 0,
+      followUpReasons,
+      toolsUsed: Array.from(new Set(toolCalls.map(t => t.name))),
+      summary: '',
+    };
+    summary.summary = describe(summary);
+
+    return summary;
+  }
+
+  /**
+   * Summarize a finished call and attach the result to its appointment and
+   * cancellation attempt. Never throws - a summary must not block call cleanup
+   */
+  async processCall(call: CallRecord): Promise<CallSummary | null> {
+    try {
+      const summary = this.summarize(call);
+
+      if (summary.appointmentId) {
+        await appointmentManagementService.attachCallSummary(summary.appointmentId, summary);
+      }
+      if (summary.cancellationAttemptId) {
+        await appointmentManagementService.attachCallSummaryToAttempt(summary.cancellationAttemptId, summary);
+      }
+
+      logger.info('Call summary generated', {
+        callId: call.id,
+        intent: summary.intent,
+        outcome: summary.appointmentOutcome,
+        appointmentId: summary.appointmentId,
+        followUpNeeded: summary.followUpNeeded,
+      });
+
+      return summary;
+    } catch (error) {
+      logger.error('Failed to generate call summary', { callId: call.id, error });
+      return null;
+    }
+  }
+
+  private detectIntent(call: CallRecord, toolCalls: TranscriptToolCall[], callerText: string): CallIntent {
+    // Settling tools are the strongest signal, then the earliest intent-revealing tool
+    const settled = [...toolCalls].reverse().find(t => t.result?.success && OUTCOME_TOOLS[t.name]);
+    if (settled) return INTENT_TOOLS[settled.name];
+
+    const detected = toolCalls.find(t => t.name === 'detect_scenario')?.result?.data?.scenario;
+    if (detected && detected !== 'unclear') return detected;
+
+    const firstIntentTool = toolCalls.find(t => INTENT_TOOLS[t.name]);
+    if (firstIntentTool) return INTENT_TOOLS[firstIntentTool.name];
+
+    if (!callerText) return 'unclear';
+    return emmaToolsService.detectScenario(callerText, { callType: call.direction, purpose: call.campaign }).scenario;
+  }
+
+  private detectObjections(toolCalls: TranscriptToolCall[], callerText: string): CallObjection[] {
+    const objections = new Set<CallObjection>();
+
+    toolCalls
+      .filter(t => t.name === 'update_cancellation_attempt' && t.arguments?.rebuttalType)
+      .forEach(t => objections.add(t.arguments.rebuttalType));
+
+    const text = [
+      callerText,
+      ...toolCalls.filter(t => t.name === 'start_cancellation_attempt').map(t => t.arguments?.reason || ''),
+    ].join(' ').toLowerCase();
+
+    (Object.keys(OBJECTION_KEYWORDS) as CallObjection[]).forEach(objection => {
+      if (OBJECTION_KEYWORDS[objection].some(keyword => text.includes(keyword))) {
+        objections.add(objection);
+      }
+    });
+
+    return Array.from(objections);
+  }
+
+  private getFollowUpReasons(
+    call: CallRecord,
+    toolCalls: TranscriptToolCall[],
+    intent: CallIntent,
+    outcome: CallAppointmentOutcome,
+    callerText: string
+  ): string[] {
+    const reasons: string[] = [];
+    const lowerText = callerText.toLowerCase();
+
+    if (CALLBACK_PHRASES.some(phrase => lowerText.includes(phrase))) {
+      reasons.push('Customer asked for a call back');
+    }
+    if (intent !== 'unclear' && outcome === 'none') {
+      reasons.push(`Customer wanted ${intent} but nothing was settled`);
+    }
+    if (toolCalls.some(t => t.name === 'start_cancellation_attempt') && !['cancelled', 'retained', 'rescheduled'].includes(outcome)) {
+      reasons.push('Cancellation attempt left open');
+    }
+
+    const failed = toolCalls.filter(t => t.completedAt && !t.result?.success && t.name !== 'end_call');
+    if (failed.length > 0) {
+      reasons.push(`Tool errors: ${Array.from(new Set(failed.map(t => t.name))).join(', ')}`);
+    }
+    if (call.channel === 'phone' && !toolCalls.some(t => t.name === 'end_call' && t.result?.success)) {
+      reasons.push('Call ended before Emma closed the conversation');
+    }
+
+    return reasons;
+  }
+
+  private getAppointmentId(outcomeCall?: TranscriptToolCall, attemptCall?: TranscriptToolCall): string | undefined {
+    return outcomeCall?.result?.data?.appointmentId ||
+      outcomeCall?.result?.data?.appointment?.id ||
+      outcomeCall?.arguments?.appointmentId ||
+      attemptCall?.arguments?.appointmentId;
+  }
+}
+
+function describe(summary: CallSummary): string {
+  const outcome = summary.appointmentOutcome === 'none'
+    ? 'no appointment change'
+    : `appointment ${summary.appointmentOutcome}`;
+  const objections = summary.objections.length > 0 ? `; objections: ${summary.objections.join(', ')}` : '';
+  const followUp = summary.followUpNeeded ? '; follow-up needed' : '';
+
+  return `${summary.direction} ${summary.intent} call - ${outcome}${objections}${followUp}`;
+}
+
+export const callSummaryService = new CallSummaryService();
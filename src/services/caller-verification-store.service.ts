@@ -0,0 +1,106 @@
+/**
+ * Caller Verification Store
+ * Storage backends for failed verification attempts, lockouts and pending
+ * SMS codes (hashes only), keyed by appointment
+ */
+
+import path from 'path';
+import { config } from '../config';
+import { JsonFileStore } from '../utils/json-file-store';
+import logger from '../utils/logger';
+import type { FailureRecord, PendingCode } from './caller-verification.service';
+
+/**
+ * Storage interface used by CallerVerificationService
+ */
+export interface CallerVerificationStore {
+  getFailures(appointmentId: string): Promise<FailureRecord | null>;
+  saveFailures(appointmentId: string, record: FailureRecord): Promise<void>;
+  clearFailures(appointmentId: string): Promise<void>;
+  getCode(appointmentId: string): Promise<PendingCode | null>;
+  saveCode(appointmentId: string, code: PendingCode): Promise<void>;
+  deleteCode(appointmentId: string): Promise<void>;
+}
+
+/**
+ * In-memory store - data is lost on restart (used for tests and scripts)
+ */
+export class InMemoryCallerVerificationStore implements CallerVerificationStore {
+  private failures: Map<string, FailureRecord> = new Map();
+  private codes: Map<string, PendingCode> = new Map();
+
+  async getFailures(appointmentId: string): Promise<FailureRecord | null> {
+    return this.failures.get(appointmentId) || null;
+  }
+
+  async saveFailures(appointmentId: string, record: FailureRecord): Promise<void> {
+    this.failures.set(appointmentId, record);
+  }
+
+  async clearFailures(appointmentId: string): Promise<void> {
+    this.failures.delete(appointmentId);
+  }
+
+  async getCode(appointmentId: string): Promise<PendingCode | null> {
+    return this.codes.get(appointmentId) || null;
+  }
+
+  async saveCode(appointmentId: string, code: PendingCode): Promise<void> {
+    this.codes.set(appointmentId, code);
+  }
+
+  async deleteCode(appointmentId: string): Promise<void> {
+    this.codes.delete(appointmentId);
+  }
+}
+
+/**
+ * File-backed store - failures and lockouts survive restarts, so restarting
+ * the server doesn't hand a caller a fresh set of attempts
+ */
+export class FileCallerVerificationStore implements CallerVerificationStore {
+  private failures: JsonFileStore<FailureRecord>;
+  private codes: JsonFileStore<PendingCode>;
+
+  constructor(dataDir: string) {
+    this.failures = new JsonFileStore(path.join(dataDir, 'verification-failures.json'));
+    this.codes = new JsonFileStore(path.join(dataDir, 'verification-codes.json'));
+  }
+
+  async getFailures(appointmentId: string): Promise<FailureRecord | null> {
+    return this.failures.get(appointmentId);
+  }
+
+  async saveFailures(appointmentId: string, record: FailureRecord): Promise<void> {
+    await this.failures.set(appointmentId, record);
+  }
+
+  async clearFailures(appointmentId: string): Promise<void> {
+    await this.failures.delete(appointmentId);
+  }
+
+  async getCode(appointmentId: string): Promise<PendingCode | null> {
+    return this.codes.get(appointmentId);
+  }
+
+  async saveCode(appointmentId: string, code: PendingCode): Promise<void> {
+    await this.codes.set(appointmentId, code);
+  }
+
+  async deleteCode(appointmentId: string): Promise<void> {
+    await this.codes.delete(appointmentId);
+  }
+}
+
+/**
+ * Create the store configured by STORAGE_DRIVER
+ */
+export function createCallerVerificationStore(): CallerVerificationStore {
+  if (config.storage.driver === 'memory') {
+    logger.info('Using in-memory caller verification store');
+    return new InMemoryCallerVerificationStore();
+  }
+
+  logger.info('Using file-backed caller verification store', { dataDir: config.storage.dataDir });
+  return new FileCallerVerificationStore(config.storage.dataDir);
+}
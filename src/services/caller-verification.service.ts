@@ -0,0 +1,360 @@
+/**
+ * Caller Verification Service
+ * Confirms a caller owns an appointment before Emma changes it: caller ID
+ * matching the phone on file plus the zip code or street number, or a
+ * one-time code texted to the phone on file. Repeated failures lock the
+ * appointment against further attempts for a while
+ */
+
+import crypto from 'crypto';
+import { config } from '../config';
+import logger from '../utils/logger';
+import { normalizePhone } from '../utils/phone';
+import { Appointment, appointmentManagementService } from './appointment-management.service';
+import type { CallContext } from './call-context.service';
+import { CallerVerificationStore, createCallerVerificationStore } from './caller-verification-store.service';
+import { TwilioService } from './twilio.service';
+
+export type VerificationMethod = 'caller_id' | 'sms_code';
+
+export interface VerificationFactors {
+  appointmentId: string;
+  zipCode?: string;
+  streetNumber?: string;
+  smsCode?: string;
+}
+
+export interface VerificationResult {
+  success: boolean;
+  message: string;
+  data?: any;
+  error?: 'verification_disabled' | 'not_found' | 'locked' | 'caller_id_mismatch' | 'missing_factor' | 'mismatch'
+    | 'no_code' | 'code_expired' | 'no_phone_on_file' | 'resend_too_soon' | 'sms_failed' | 'verification_required';
+}
+
+/**
+ * Sends verification codes; swapped out in scripts
+ */
+export interface VerificationSms {
+  send(to: string, body: string): Promise<void>;
+}
+
+const twilioSms: VerificationSms = {
+  send: async (to, body) => {
+    await TwilioService.sendSms(to, config.verification.smsFrom, body);
+  },
+};
+
+interface SessionVerification {
+  appointmentId: string;
+  method: VerificationMethod;
+  verifiedAt: number;
+}
+
+export interface PendingCode {
+  sessionId: string;
+  hash: string;
+  sentAt: number;
+  expiresAt: number;
+}
+
+export interface FailureRecord {
+  count: number;
+  lockedUntil?: number;
+}
+
+const CODE_RESEND_INTERVAL_MS = 60 * 1000;
+
+export class CallerVerificationService {
+  private verifications = new Map<string, SessionVerification>(); // By session; only lives as long as the call
+  private store: CallerVerificationStore; // Codes and failures by appointment, so redialing doesn't reset them
+
+  constructor(
+    store: CallerVerificationStore = createCallerVerificationStore(),
+    private sms: VerificationSms = twilioSms,
+    private settings: typeof config.verification = config.verification,
+    private getAppointment: (id: string) => Promise<Appointment | null> = id => appointmentManagementService.getAppointmentById(id),
+    private sessionTtlMs: number = config.call.maxDuration * 1000
+  ) {
+    this.store = store;
+  }
+
+  get enabled(): boolean {
+    return this.settings.enabled;
+  }
+
+  /**
+   * Check the caller's answers (or code) for an appointment and, when they
+   * match, mark the session verified for that appointment
+   */
+  async verify(context: CallContext | undefined, sessionId: string | undefined, factors: VerificationFactors, now: number = Date.now()): Promise<VerificationResult> {
+    if (!this.settings.enabled) {
+      return { success: true, message: 'Caller verification is turned off - no check needed', error: 'verification_disabled' };
+    }
+
+    if (!sessionId) {
+      return { success: false, message: 'Verification is only possible during a call session', error: 'verification_required' };
+    }
+
+    const appointment = await this.getAppointment(factors.appointmentId);
+    if (!appointment) {
+      return { success: false, message: 'Appointment not found with the provided ID', error: 'not_found' };
+    }
+
+    const locked = await this.checkLock(appointment.id, now);
+    if (locked) return locked;
+
+    if (factors.smsCode) {
+      return this.verifyCode(sessionId, appointment, factors.smsCode, now);
+    }
+
+    const callerNumber = normalizePhone(context?.callerNumber);
+    if (!callerNumber || callerNumber !== normalizePhone(appointment.customerPhone)) {
+      return {
+        success: false,
+        message: 'The number this call is coming from does not match the phone on file. Offer to text a verification code to the phone number on file with send_verification_code.',
+        error: 'caller_id_mismatch'
+      };
+    }
+
+    const zipCode = (factors.zipCode || '').trim();
+    const streetNumber = (factors.streetNumber || '').replace(/\D/g, '');
+    if (!zipCode && !streetNumber) {
+      return {
+        success: false,
+        message: 'Ask the caller for the zip code or the street number of the appointment address, then call verify_caller_identity again.',
+        error: 'missing_factor'
+      };
+    }
+
+    const matches = (zipCode && zipCode.slice(0, 5) === (appointment.zipCode || '').trim().slice(0, 5))
+      || (streetNumber && streetNumber === getStreetNumber(appointment.address));
+    if (!matches) {
+      return this.recordFailure(appointment.id, sessionId, now);
+    }
+
+    return this.markVerified(sessionId, appointment, 'caller_id', now);
+  }
+
+  /**
+   * Text a 6-digit code to the phone on file for the appointment
+   */
+  async sendCode(sessionId: string | undefined, appointmentId: string, companyName: string = 'our company', now: number = Date.now()): Promise<VerificationResult> {
+    if (!this.settings.enabled) {
+      return { success: true, message: 'Caller verification is turned off - no code needed', error: 'verification_disabled' };
+    }
+
+    if (!sessionId) {
+      return { success: false, message: 'Verification is only possible during a call session', error: 'verification_required' };
+    }
+
+    const appointment = await this.getAppointment(appointmentId);
+    if (!appointment) {
+      return { success: false, message: 'Appointment not found with the provided ID', error: 'not_found' };
+    }
+
+    const locked = await this.checkLock(appointment.id, now);
+    if (locked) return locked;
+
+    if (!normalizePhone(appointment.customerPhone)) {
+      return {
+        success: false,
+        message: 'There is no phone number on file to text a code to. Offer to transfer the caller to the team instead.',
+        error: 'no_phone_on_file'
+      };
+    }
+
+    const pending = await this.store.getCode(appointment.id);
+    if (pending && pending.sessionId === sessionId && now - pending.sentAt < CODE_RESEND_INTERVAL_MS) {
+      return {
+        success: false,
+        message: 'A code was just sent - ask the caller to check their messages before sending another.',
+        error: 'resend_too_soon'
+      };
+    }
+
+    const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+    try {
+      await this.sms.send(
+        appointment.customerPhone as string,
+        `Your ${companyName} verification code is ${code}. It expires in ${this.settings.codeTtlMinutes} minutes.`
+      );
+    } catch (error) {
+      logger.error('Failed to send verification code', { appointmentId: appointment.id, error });
+      return {
+        success: false,
+        message: 'The verification code could not be sent. Offer to transfer the caller to the team instead.',
+        error: 'sms_failed'
+      };
+    }
+
+    await this.store.saveCode(appointment.id, {
+      sessionId,
+      hash: hashCode(appointment.id, code),
+      sentAt: now,
+      expiresAt: now + this.settings.codeTtlMinutes * 60 * 1000,
+    });
+    logger.info('Verification code sent', { sessionId, appointmentId: appointment.id });
+
+    return {
+      success: true,
+      message: `A 6-digit code was texted to the phone number on file ending in ${normalizePhone(appointment.customerPhone).slice(-4)}. Ask the caller to read it back, then call verify_caller_identity with smsCode.`,
+      data: { codeSent: true, expiresInMinutes: this.settings.codeTtlMinutes }
+    };
+  }
+
+  /**
+   * Whether the session has verified ownership of the appointment
+   */
+  isVerified(sessionId: string | undefined, appointmentId: string | undefined, now: number = Date.now()): boolean {
+    if (!this.settings.enabled) return true;
+    if (!sessionId || !appointmentId) return false;
+
+    this.prune(now);
+    const verification = this.verifications.get(sessionId);
+    return !!verification && verification.appointmentId === appointmentId;
+  }
+
+  /**
+   * Tool-shaped denial for an unverified change, or null when it may go ahead
+   */
+  async requireVerified(sessionId: string | undefined, appointmentId: string | undefined, now: number = Date.now()): Promise<VerificationResult | null> {
+    if (this.isVerified(sessionId, appointmentId, now)) return null;
+
+    const lockedUntil = appointmentId ? (await this.store.getFailures(appointmentId))?.lockedUntil : undefined;
+    if (lockedUntil && lockedUntil > now) {
+      return this.lockedResult(lockedUntil);
+    }
+
+    logger.warn('Appointment change blocked - caller not verified', { sessionId, appointmentId });
+    return {
+      success: false,
+      message: 'The caller has not been verified for this appointment. Verify them with verify_caller_identity (zip code or street number) or send_verification_code before making changes.',
+      error: 'verification_required'
+    };
+  }
+
+  private async verifyCode(sessionId: string, appointment: Appointment, code: string, now: number): Promise<VerificationResult> {
+    const pending = await this.store.getCode(appointment.id);
+    if (!pending || pending.sessionId !== sessionId) {
+      return {
+        success: false,
+        message: 'No code has been sent on this call. Use send_verification_code first.',
+        error: 'no_code'
+      };
+    }
+
+    if (pending.expiresAt <= now) {
+      await this.store.deleteCode(appointment.id);
+      return {
+        success: false,
+        message: 'The code has expired. Offer to send a new one with send_verification_code.',
+        error: 'code_expired'
+      };
+    }
+
+    const expected = Buffer.from(pending.hash, 'hex');
+    const actual = Buffer.from(hashCode(appointment.id, code.replace(/\D/g, '')), 'hex');
+    if (!crypto.timingSafeEqual(expected, actual)) {
+      return this.recordFailure(appointment.id, sessionId, now);
+    }
+
+    await this.store.deleteCode(appointment.id);
+    return this.markVerified(sessionId, appointment, 'sms_code', now);
+  }
+
+  private async markVerified(sessionId: string, appointment: Appointment, method: VerificationMethod, now: number): Promise<VerificationResult> {
+    this.verifications.set(sessionId, { appointmentId: appointment.id, method, verifiedAt: now });
+    await this.store.clearFailures(appointment.id);
+    logger.info('Caller verified', { sessionId, appointmentId: appointment.id, method });
+
+    return {
+      success: true,
+      message: 'Caller verified. You can now discuss and change this appointment.',
+      data: {
+        verified: true,
+        method,
+        appointment: {
+          id: appointment.id,
+          customerName: appointment.customerName,
+          scheduledTime: appointment.scheduledTime,
+          address: appointment.address,
+          city: appointment.city,
+          zipCode: appointment.zipCode,
+          staffName: appointment.staffName,
+          status: appointment.status,
+        }
+      }
+    };
+  }
+
+  private async recordFailure(appointmentId: string, sessionId: string, now: number): Promise<VerificationResult> {
+    const record = (await this.store.getFailures(appointmentId)) || { count: 0 };
+    record.count += 1;
+
+    if (record.count >= this.settings.maxAttempts) {
+      record.count = 0;
+      record.lockedUntil = now + this.settings.lockoutMinutes * 60 * 1000;
+      await this.store.saveFailures(appointmentId, record);
+      await this.store.deleteCode(appointmentId);
+      logger.warn('Appointment locked after failed verification attempts', { appointmentId, sessionId, lockedUntil: new Date(record.lockedUntil).toISOString() });
+      return this.lockedResult(record.lockedUntil);
+    }
+
+    await this.store.saveFailures(appointmentId, record);
+    logger.warn('Caller verification failed', { appointmentId, sessionId, failures: record.count });
+
+    const remaining = this.settings.maxAttempts - record.count;
+    return {
+      success: false,
+      message: `That does not match our records. The caller has ${remaining} more ${remaining === 1 ? 'try' : 'tries'}. Do not reveal the details on file.`,
+      error: 'mismatch',
+      data: { attemptsRemaining: remaining }
+    };
+  }
+
+  private async checkLock(appointmentId: string, now: number): Promise<VerificationResult | null> {
+    const record = await this.store.getFailures(appointmentId);
+    if (!record?.lockedUntil) return null;
+
+    if (record.lockedUntil <= now) {
+      await this.store.clearFailures(appointmentId);
+      return null;
+    }
+    return this.lockedResult(record.lockedUntil);
+  }
+
+  private lockedResult(lockedUntil: number): VerificationResult {
+    return {
+      success: false,
+      message: 'Too many failed verification attempts - changes to this appointment are locked for now. Do not make any changes; offer to transfer the caller to the team or have someone call them back.',
+      error: 'locked',
+      data: { lockedUntil: new Date(lockedUntil).toISOString() }
+    };
+  }
+
+  /**
+   * Drop verifications older than the longest possible call
+   */
+  private prune(now: number): void {
+    for (const [sessionId, verification] of this.verifications) {
+      if (now - verification.verifiedAt > this.sessionTtlMs) {
+        this.verifications.delete(sessionId);
+      }
+    }
+  }
+}
+
+/**
+ * Leading house number of a street address ("1200 Oak St" -> "1200")
+ */
+function getStreetNumber(address?: string): string {
+  const match = (address || '').trim().match(/^(\d+)/);
+  return match ? match[1] : '';
+}
+
+function hashCode(appointmentId: string, code: string): string {
+  return crypto.createHash('sha256').update(`${appointmentId}:${code}`).digest('hex');
+}
+
+export const callerVerificationService = new CallerVerificationService();
@@ -0,0 +1,133 @@
+/**
+ * Chat Session Service
+ * Identifies browser chat sessions by an opaque token handed out on start,
+ * so several sessions can share a client (or a NAT'd IP address). Sessions
+ * idle for longer than CHAT_SESSION_IDLE_MINUTES are ended automatically
+ */
+
+import crypto from 'crypto';
+import { Request } from 'express';
+import { config } from '../config';
+import logger from '../utils/logger';
+
+export const SESSION_TOKEN_HEADER = 'x-session-token';
+
+export interface ChatSession<T> {
+  id: string; // Safe to log and use for cost tracking - unlike the token
+  token: string;
+  data: T;
+  createdAt: string;
+  lastActivityAt: number;
+}
+
+export class ChatSessionService<T> {
+  private sessions: Map<string, ChatSession<T>> = new Map(); // By token
+  private sweeper: NodeJS.Timeout | null = null;
+
+  /**
+   * @param name - Prefix for session ids, e.g. "chat"
+   * @param onExpire - Releases whatever the session holds once it idles out
+   */
+  constructor(
+    private name: string,
+    private onExpire: (session: ChatSession<T>) => void,
+    private idleTimeoutMs: number = config.chat.sessionIdleMinutes * 60000
+  ) {}
+
+  create(data: T): ChatSession<T> {
+    const session: ChatSession<T> = {
+      id: `${this.name}-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
+      token: crypto.randomBytes(24).toString('base64url'),
+      data,
+      createdAt: new Date().toISOString(),
+      lastActivityAt: Date.now(),
+    };
+    this.sessions.set(session.token, session);
+    this.startSweeper();
+    return session;
+  }
+
+  /**
+   * The live session for a token, marking it active; null when unknown or expired
+   */
+  get(token?: string): ChatSession<T> | null {
+    const session = token ? this.sessions.get(token) : undefined;
+    if (!session) return null;
+
+    if (this.isExpired(session, Date.now())) {
+      this.expire(session);
+      return null;
+    }
+
+    session.lastActivityAt = Date.now();
+    return session;
+  }
+
+  /**
+   * Remove a session; returns it so the caller can release its resources
+   */
+  end(token?: string): ChatSession<T> | null {
+    const session = token ? this.sessions.get(token) : undefined;
+    if (!session) return null;
+
+    this.sessions.delete(session.token);
+    return session;
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  get idleTimeoutSeconds(): number {
+    return Math.round(this.idleTimeoutMs / 1000);
+  }
+
+  /**
+   * End every idle session; returns how many were ended
+   */
+  sweep(now: number = Date.now()): number {
+    const expired = Array.from(this.sessions.values()).filter(session => this.isExpired(session, now));
+    expired.forEach(session => this.expire(session));
+    if (this.sessions.size === 0) {
+      this.stopSweeper();
+    }
+    return expired.length;
+  }
+
+  private isExpired(session: ChatSession<T>, now: number): boolean {
+    return now - session.lastActivityAt > this.idleTimeoutMs;
+  }
+
+  private expire(session: ChatSession<T>): void {
+    this.sessions.delete(session.token);
+    logger.info('Chat session expired after inactivity', { sessionId: session.id });
+    try {
+      this.onExpire(session);
+    } catch (error) {
+      logger.error('Failed to clean up expired chat session', { sessionId: session.id, error });
+    }
+  }
+
+  private startSweeper(): void {
+    if (this.sweeper) return;
+    this.sweeper = setInterval(() => this.sweep(), Math.min(this.idleTimeoutMs, 60000));
+    this.sweeper.unref();
+  }
+
+  private stopSweeper(): void {
+    if (this.sweeper) {
+      clearInterval(this.sweeper);
+      this.sweeper = null;
+    }
+  }
+}
+
+/**
+ * Session token from the X-Session-Token header, or sessionToken in the body
+ */
+export function getSessionToken(req: Request): string | undefined {
+  const header = req.get(SESSION_TOKEN_HEADER);
+  if (header) return header;
+  const token = req.body?.sessionToken;
+  return typeof token === 'string' && token ? token : undefined;
+}
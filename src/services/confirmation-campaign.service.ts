@@ -0,0 +1,331 @@
+/**
+ * Confirmation Campaign Service
+ * Calls customers 24-48 hours before their appointment so Emma can confirm,
+ * reschedule or cancel it. Dials through the Twilio number pool within each
+ * customer's calling hours, retries unanswered calls and records the outcome
+ * on the appointment
+ */
+
+import { config } from '../config';
+import logger from '../utils/logger';
+import { getZonedDateTime, timeToMinutes } from '../utils/time-zone';
+import {
+  Appointment,
+  AppointmentManagementService,
+  ConfirmationCallAttempt,
+  ConfirmationCallRecord,
+  appointmentManagementService,
+} from './appointment-management.service';
+import type { AgentProfile } from './agent-profile.service';
+import { agentPromptService } from './agent-prompt.service';
+import { CostLedgerService, costLedgerService } from './cost-ledger.service';
+import { staffCalendarService } from './staff-calendar.service';
+import { TwilioService } from './twilio.service';
+
+export const CONFIRMATION_CAMPAIGN = 'confirmation';
+
+const FINAL_CALL_STATUSES = ['completed', 'busy', 'no-answer', 'failed', 'canceled'];
+
+export type ConfirmationCampaignSettings = typeof config.campaigns.confirmation;
+
+/**
+ * Places outbound calls for the campaign
+ */
+export interface CampaignDialer {
+  availableLines(): number;
+  dial(to: string, webhookUrl: string, statusCallbackUrl: string): Promise<string>; // Resolves to the call SID
+}
+
+export interface CampaignRunResult {
+  due: number;
+  dialed: Array<{ appointmentId: string; callSid: string }>;
+  skipped: number; // Due but not dialed (no free lines or dialing failed)
+}
+
+const twilioDialer: CampaignDialer = {
+  availableLines: () => TwilioService.getAvailableNumberCount(),
+  dial: async (to, webhookUrl, statusCallbackUrl) => {
+    const call = await TwilioService.makeOutboundCall(to, webhookUrl, statusCallbackUrl);
+    return call.sid;
+  },
+};
+
+export class ConfirmationCampaignService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private appointments: AppointmentManagementService = appointmentManagementService,
+    private dialer: CampaignDialer = twilioDialer,
+    private settings: ConfirmationCampaignSettings = config.campaigns.confirmation,
+    private publicBaseUrl: string = config.campaigns.publicBaseUrl,
+    private budget: Pick<CostLedgerService, 'checkBudget'> = costLedgerService
+  ) {}
+
+  /**
+   * Start polling for due appointments
+   */
+  start(): void {
+    if (this.timer) return;
+
+    if (!this.publicBaseUrl) {
+      logger.warn('Confirmation campaign not started - PUBLIC_BASE_URL is required for Twilio webhooks');
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => logger.error('Confirmation campaign run failed', { error }));
+    }, this.settings.pollIntervalSeconds * 1000);
+    this.timer.unref();
+
+    logger.info('Confirmation campaign started', {
+      windowHours: [this.settings.windowStartHours, this.settings.windowEndHours],
+      callingHours: [this.settings.callingHoursStart, this.settings.callingHoursEnd],
+      pollIntervalSeconds: this.settings.pollIntervalSeconds,
+    });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  get isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Appointments that should be called now: inside the confirmation window,
+   * not yet confirmed, within calling hours and not waiting on a retry delay
+   */
+  async selectDueAppointments(now: Date = new Date()): Promise<Appointment[]> {
+    const appointments = await this.appointments.listAppointments({
+      from: new Date(now.getTime() + this.settings.windowStartHours * 3600000).toISOString(),
+      to: new Date(now.getTime() + this.settings.windowEndHours * 3600000).toISOString(),
+    });
+
+    return appointments.filter(appointment =>
+      (appointment.status === 'scheduled' || appointment.status === 'rescheduled') &&
+      !!appointment.customerPhone &&
+      this.isAwaitingCall(appointment.confirmationCall, now) &&
+      this.isWithinCallingHours(appointment, now)
+    );
+  }
+
+  /**
+   * Dial as many due appointments as there are free pool numbers
+   */
+  async runOnce(now: Date = new Date()): Promise<CampaignRunResult> {
+    const result: CampaignRunResult = { due: 0, dialed: [], skipped: 0 };
+    if (this.running) return result;
+    this.running = true;
+
+    try {
+      const due = await this.selectDueAppointments(now);
+      result.due = due.length;
+
+      if (due.length > 0 && !(await this.budget.checkBudget(now)).allowed) {
+        logger.warn('Confirmation calls paused - cost budget exhausted', { due: due.length });
+        result.skipped = due.length;
+        return result;
+      }
+
+      let lines = this.dialer.availableLines();
+      for (const appointment of due) {
+        if (lines <= 0) break;
+
+        const callSid = await this.dialAppointment(appointment, now);
+        if (callSid) {
+          result.dialed.push({ appointmentId: appointment.id, callSid });
+          lines--;
+        }
+      }
+
+      result.skipped = result.due - result.dialed.length;
+      if (result.due > 0) {
+        logger.info('Confirmation campaign run', { due: result.due, dialed: result.dialed.length, skipped: result.skipped });
+      }
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Record a Twilio status callback for a campaign call.
+   * Returns the updated appointment, or null when the call is not part of the campaign
+   */
+  async handleCallStatus(callSid: string, callStatus: string, now: Date = new Date(), answeredBy?: string): Promise<Appointment | null> {
+    if (!FINAL_CALL_STATUSES.includes(callStatus)) return null;
+
+    const appointment = await this.findAppointmentForCall(callSid);
+    if (!appointment?.confirmationCall) return null;
+
+    const record = appointment.confirmationCall;
+    const attempt = record.attempts.find(a => a.callSid === callSid)!;
+    attempt.endedAt = now.toISOString();
+    attempt.callStatus = callStatus;
+    if (answeredBy && !attempt.answeredBy) {
+      attempt.answeredBy = answeredBy;
+    }
+
+    const outcome = callStatus === 'completed' ? this.getCallOutcome(appointment, attempt) : null;
+    if (outcome) {
+      record.status = outcome;
+      record.completedAt = now.toISOString();
+      delete record.nextAttemptAt;
+    } else {
+      this.scheduleRetry(record, now);
+    }
+
+    logger.info('Confirmation call finished', {
+      appointmentId: appointment.id,
+      callSid,
+      callStatus,
+      outcome: record.status,
+      attempts: record.attempts.length,
+    });
+
+    return this.appointments.saveConfirmationCall(appointment.id, record);
+  }
+
+  /**
+   * A machine answered a campaign call: returns TwiML that leaves the agent's
+   * voicemail for the appointment after the beep (or just hangs up on a fax).
+   * The attempt is recorded as voicemail left; its status callback then closes
+   * the campaign for the appointment instead of retrying
+   */
+  async handleMachineAnswer(
+    callSid: string,
+    answeredBy: string,
+    agent: Pick<AgentProfile, 'id' | 'name' | 'companyName' | 'voicemailTemplate'>,
+    callbackNumber?: string,
+    now: Date = new Date()
+  ): Promise<string> {
+    const appointment = await this.findAppointmentForCall(callSid);
+    const attempt = appointment?.confirmationCall?.attempts.find(a => a.callSid === callSid);
+    if (!appointment?.confirmationCall || !attempt) {
+      logger.info('Machine answered an outbound call outside the campaign - hanging up', { callSid, answeredBy });
+      return TwilioService.createHangupResponse();
+    }
+
+    attempt.answeredBy = answeredBy;
+    if (answeredBy === 'fax') {
+      await this.appointments.saveConfirmationCall(appointment.id, appointment.confirmationCall);
+      return TwilioService.createHangupResponse();
+    }
+
+    const message = agentPromptService.renderVoicemail(agent, appointment, callbackNumber);
+    attempt.voicemailLeftAt = now.toISOString();
+    await this.appointments.saveConfirmationCall(appointment.id, appointment.confirmationCall);
+
+    logger.info('Leaving confirmation voicemail', { appointmentId: appointment.id, callSid, answeredBy });
+    return TwilioService.createHangupResponse(message);
+  }
+
+  /**
+   * Extra instructions for Emma on a confirmation call
+   */
+  buildCallContext(appointment: Appointment): string {
+    const timeZone = this.getTimeZone(appointment);
+    const formattedTime = new Date(appointment.scheduledTime).toLocaleString('en-US', {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      timeZone,
+    });
+
+    return `
+
+═══════════════════════════════════════════════════════════════
+
+CURRENT CALL: OUTBOUND APPOINTMENT CONFIRMATION
+You are calling ${appointment.customerName} to confirm their design consultation.
+- Appointment ID: ${appointment.id}
+- Scheduled for: ${formattedTime}
+- Address: ${appointment.address}, ${appointment.city}, ${appointment.state} ${appointment.zipCode}
+- Design consultant: ${appointment.staffName || 'our design consultant'}
+
+Open with the OUTBOUND greeting for this appointment. If the time still works, verify them with verify_caller_identity (zip code or street number), then call confirm_appointment with this appointment ID. If they need a different time or want to cancel, follow the RESCHEDULING or CANCELLATION WORKFLOW using this appointment ID. End the call with end_call once the appointment is settled.`;
+  }
+
+  private async dialAppointment(appointment: Appointment, now: Date): Promise<string | null> {
+    const record: ConfirmationCallRecord = appointment.confirmationCall || { status: 'pending', attempts: [] };
+    const webhookUrl = `${this.publicBaseUrl}/webhooks/twilio/voice?campaign=${CONFIRMATION_CAMPAIGN}&appointmentId=${encodeURIComponent(appointment.id)}`;
+    const statusCallbackUrl = `${this.publicBaseUrl}/webhooks/twilio/status`;
+
+    try {
+      const callSid = await this.dialer.dial(appointment.customerPhone!, webhookUrl, statusCallbackUrl);
+
+      record.status = 'calling';
+      record.attempts.push({ callSid, startedAt: now.toISOString() });
+      delete record.nextAttemptAt;
+      await this.appointments.saveConfirmationCall(appointment.id, record);
+
+      logger.info('Confirmation call placed', { appointmentId: appointment.id, callSid, attempt: record.attempts.length });
+      return callSid;
+    } catch (error) {
+      logger.error('Failed to place confirmation call', { appointmentId: appointment.id, error });
+      return null;
+    }
+  }
+
+  private async findAppointmentForCall(callSid: string): Promise<Appointment | undefined> {
+    return (await this.appointments.listAppointments())
+      .find(apt => apt.confirmationCall?.attempts.some(attempt => attempt.callSid === callSid));
+  }
+
+  /**
+   * What the customer decided on an answered call, if anything
+   */
+  private getCallOutcome(appointment: Appointment, attempt: ConfirmationCallAttempt): ConfirmationCallRecord['status'] | null {
+    if (appointment.status === 'cancelled') return 'cancelled';
+    if (appointment.rescheduleHistory?.some(entry => entry.timestamp >= attempt.startedAt)) return 'rescheduled';
+    if (appointment.status === 'confirmed') return 'confirmed';
+    if (attempt.voicemailLeftAt) return 'voicemail_left'; // The customer has been asked to call back
+    return null;
+  }
+
+  private scheduleRetry(record: ConfirmationCallRecord, now: Date): void {
+    if (record.attempts.length >= this.settings.maxAttempts) {
+      record.status = 'no_answer';
+      record.completedAt = now.toISOString();
+      delete record.nextAttemptAt;
+      return;
+    }
+
+    record.status = 'pending';
+    record.nextAttemptAt = new Date(now.getTime() + this.settings.retryDelayMinutes * 60000).toISOString();
+  }
+
+  private isAwaitingCall(record: ConfirmationCallRecord | undefined, now: Date): boolean {
+    if (!record) return true;
+    if (record.status === 'calling') {
+      // Status callback never arrived - give up on the call after the maximum call length
+      const lastAttempt = record.attempts[record.attempts.length - 1];
+      return !!lastAttempt && record.attempts.length < this.settings.maxAttempts &&
+        now.getTime() - new Date(lastAttempt.startedAt).getTime() > config.call.maxDuration * 1000;
+    }
+    if (record.status !== 'pending') return false;
+    return !record.nextAttemptAt || new Date(record.nextAttemptAt) <= now;
+  }
+
+  private isWithinCallingHours(appointment: Appointment, now: Date): boolean {
+    const localMinutes = timeToMinutes(getZonedDateTime(now, this.getTimeZone(appointment)).time);
+    return localMinutes >= timeToMinutes(this.settings.callingHoursStart) &&
+      localMinutes < timeToMinutes(this.settings.callingHoursEnd);
+  }
+
+  /**
+   * Customers live in their consultant's territory, so call on the consultant's clock
+   */
+  private getTimeZone(appointment: Appointment): string {
+    return staffCalendarService.getStaffMember(appointment.staffId)?.timeZone || config.calendar.timeZone;
+  }
+}
+
+export const confirmationCampaignService = new ConfirmationCampaignService();
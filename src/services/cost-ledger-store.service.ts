@@ -0,0 +1,86 @@
+/**
+ * Cost Ledger Store
+ * Storage backends for the usage ledger and the budget alerts already sent
+ */
+
+import path from 'path';
+import { config } from '../config';
+import { JsonFileStore } from '../utils/json-file-store';
+import logger from '../utils/logger';
+import type { BudgetAlert, CostLedgerEntry } from './cost-ledger.service';
+
+/**
+ * Storage interface used by CostLedgerService
+ */
+export interface CostLedgerStore {
+  listEntries(): Promise<CostLedgerEntry[]>;
+  saveEntries(entries: CostLedgerEntry[]): Promise<void>;
+  listAlerts(): Promise<BudgetAlert[]>;
+  saveAlert(alert: BudgetAlert): Promise<void>;
+}
+
+/**
+ * In-memory store - data is lost on restart (used for tests and scripts)
+ */
+export class InMemoryCostLedgerStore implements CostLedgerStore {
+  private entries: Map<string, CostLedgerEntry> = new Map();
+  private alerts: Map<string, BudgetAlert> = new Map();
+
+  async listEntries(): Promise<CostLedgerEntry[]> {
+    return Array.from(this.entries.values());
+  }
+
+  async saveEntries(entries: CostLedgerEntry[]): Promise<void> {
+    entries.forEach(entry => this.entries.set(entry.id, { ...entry, usage: entry.usage.map(line => ({ ...line })) }));
+  }
+
+  async listAlerts(): Promise<BudgetAlert[]> {
+    return Array.from(this.alerts.values());
+  }
+
+  async saveAlert(alert: BudgetAlert): Promise<void> {
+    this.alerts.set(alert.id, alert);
+  }
+}
+
+/**
+ * File-backed store - the ledger and sent alerts survive restarts
+ */
+export class FileCostLedgerStore implements CostLedgerStore {
+  private entries: JsonFileStore<CostLedgerEntry>;
+  private alerts: JsonFileStore<BudgetAlert>;
+
+  constructor(dataDir: string) {
+    this.entries = new JsonFileStore(path.join(dataDir, 'cost-ledger.json'));
+    this.alerts = new JsonFileStore(path.join(dataDir, 'cost-alerts.json'));
+  }
+
+  async listEntries(): Promise<CostLedgerEntry[]> {
+    return this.entries.list();
+  }
+
+  async saveEntries(entries: CostLedgerEntry[]): Promise<void> {
+    await this.entries.setMany(entries.map(entry => [entry.id, { ...entry, usage: entry.usage.map(line => ({ ...line })) }]));
+  }
+
+  async listAlerts(): Promise<BudgetAlert[]> {
+    return this.alerts.list();
+  }
+
+  async saveAlert(alert: BudgetAlert): Promise<void> {
+    await this.alerts.set(alert.id, alert);
+  }
+}
+
+/**
+ * Create the store configured by STORAGE_DRIVER
+ */
+export function createCostLedgerStore(): CostLedgerStore {
+  if (config.storage.driver === 'memory') {
+    logger.info('Using in-memory cost ledger store');
+    return new InMemoryCostLedgerStore();
+  }
+
+  logger.info('Using file-backed cost ledger store', { dataDir: config.storage.dataDir });
+  return new FileCostLedgerStore(config.storage.dataDir);
+}
@@ -0,0 +1,366 @@
+/**
+ * Cost Ledger Service
+ * Prices usage per model and keeps a persisted ledger of it per session and
+ * business day, tagged with the agent and call. Tracks spend against daily
+ * and monthly budgets, alerts as thresholds are crossed and, in hard-stop
+ * mode, tells callers to refuse new realtime sessions once a budget is spent
+ */
+
+import axios from 'axios';
+import { config } from '../config';
+import { CostProvider, DEFAULT_MODELS, loadPricing, ModelPricing } from '../config/pricing';
+import logger from '../utils/logger';
+import { getZonedDateTime } from '../utils/time-zone';
+import { callContextService } from './call-context.service';
+import { CostLedgerStore, createCostLedgerStore } from './cost-ledger-store.service';
+
+export interface UsageCounts {
+  inputTokens?: number;
+  outputTokens?: number;
+  inputAudioTokens?: number;
+  outputAudioTokens?: number;
+  characters?: number;
+}
+
+export interface UsageLine extends Required<UsageCounts> {
+  provider: CostProvider;
+  model: string;
+  cost: number;
+}
+
+/**
+ * Usage of one session on one business day
+ */
+export interface CostLedgerEntry {
+  id: string; // `${date}:${sessionId}`
+  sessionId: string;
+  date: string; // YYYY-MM-DD in the business time zone
+  channel: 'phone' | 'web' | 'chat';
+  direction?: 'inbound' | 'outbound';
+  agentId?: string;
+  campaign?: string;
+  appointmentId?: string;
+  usage: UsageLine[]; // One line per provider and model
+  totalCost: number;
+  firstUsageAt: string;
+  lastUsageAt: string;
+}
+
+export type BudgetPeriod = 'daily' | 'monthly';
+
+export interface BudgetStatus {
+  period: BudgetPeriod;
+  periodKey: string; // YYYY-MM-DD or YYYY-MM
+  budget: number;
+  spent: number;
+  remaining: number;
+  percentUsed: number;
+  exhausted: boolean;
+}
+
+export interface BudgetAlert {
+  id: string; // `${period}:${periodKey}:${threshold}`
+  period: BudgetPeriod;
+  periodKey: string;
+  threshold: number; // Percent of the budget
+  budget: number;
+  spent: number;
+  createdAt: string;
+}
+
+/**
+ * allowed is false only in hard-stop mode with a budget spent
+ */
+export interface BudgetCheck {
+  allowed: boolean;
+  budgets: BudgetStatus[];
+  message?: string;
+}
+
+/**
+ * Delivers budget alerts
+ */
+export interface CostAlertNotifier {
+  notify(alert: BudgetAlert): Promise<void>;
+}
+
+const webhookNotifier: CostAlertNotifier = {
+  notify: async alert => {
+    if (!config.costs.alertWebhookUrl) return;
+    await axios.post(config.costs.alertWebhookUrl, { type: 'cost_budget_alert', ...alert }, { timeout: 10000 });
+  },
+};
+
+export class CostLedgerService {
+  private open = new Map<string, CostLedgerEntry>(); // Entries of live sessions, by id
+  private dirty = new Set<string>(); // Open entries changed since the last flush
+  private totals = new Map<string, number>(); // Spend by day (YYYY-MM-DD) and month (YYYY-MM)
+  private alerted = new Set<string>();
+  private loading: Promise<void> | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+  private timer: NodeJS.Timeout | null = null;
+  private unpricedModels = new Set<string>();
+
+  constructor(
+    private store: CostLedgerStore = createCostLedgerStore(),
+    private notifier: CostAlertNotifier = webhookNotifier,
+    private settings: typeof config.costs = config.costs,
+    private pricing: Record<string, ModelPricing> = loadPricing(config.costs.pricingFile),
+    private timeZone: string = config.calendar.timeZone
+  ) {}
+
+  /**
+   * Write live sessions to the ledger periodically
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.flush().catch(error => logger.error('Failed to write cost ledger', { error }));
+    }, this.settings.flushIntervalSeconds * 1000);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Price usage with the model's rates (USD per 1M units)
+   */
+  price(provider: CostProvider, model: string, counts: UsageCounts): number {
+    const rates = this.getPricing(provider, model);
+    const cost = (counts.inputTokens || 0) * (rates.inputTokens || 0)
+      + (counts.outputTokens || 0) * (rates.outputTokens || 0)
+      + (counts.inputAudioTokens || 0) * (rates.inputAudioTokens || 0)
+      + (counts.outputAudioTokens || 0) * (rates.outputAudioTokens || 0)
+      + (counts.characters || 0) * (rates.characters || 0);
+    return cost / 1_000_000;
+  }
+
+  /**
+   * Add usage to the session's entry for today; returns its cost
+   */
+  record(sessionId: string, provider: CostProvider, model: string | undefined, counts: UsageCounts, now: Date = new Date()): number {
+    const billedModel = model || DEFAULT_MODELS[provider];
+    const cost = this.price(provider, billedModel, counts);
+    const date = getZonedDateTime(now, this.timeZone).date;
+    const entry = this.getOpenEntry(sessionId, date, now);
+
+    let line = entry.usage.find(l => l.provider === provider && l.model === billedModel);
+    if (!line) {
+      line = { provider, model: billedModel, inputTokens: 0, outputTokens: 0, inputAudioTokens: 0, outputAudioTokens: 0, characters: 0, cost: 0 };
+      entry.usage.push(line);
+    }
+    line.inputTokens += counts.inputTokens || 0;
+    line.outputTokens += counts.outputTokens || 0;
+    line.inputAudioTokens += counts.inputAudioTokens || 0;
+    line.outputAudioTokens += counts.outputAudioTokens || 0;
+    line.characters += counts.characters || 0;
+    line.cost += cost;
+
+    entry.totalCost += cost;
+    entry.lastUsageAt = now.toISOString();
+    this.dirty.add(entry.id);
+
+    this.addToTotals(date, cost);
+    this.checkAlerts(now).catch(error => logger.error('Failed to check cost budgets', { error }));
+
+    return cost;
+  }
+
+  /**
+   * Write the session's entries and stop holding them in memory
+   */
+  async endSession(sessionId: string): Promise<void> {
+    await this.flush();
+    for (const [id, entry] of this.open) {
+      if (entry.sessionId === sessionId && !this.dirty.has(id)) {
+        this.open.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Write changed entries of live sessions to the store
+   */
+  flush(): Promise<void> {
+    const write = async () => {
+      await this.load();
+      const changed = Array.from(this.dirty)
+        .map(id => this.open.get(id))
+        .filter((entry): entry is CostLedgerEntry => !!entry);
+      this.dirty.clear();
+      if (changed.length > 0) {
+        await this.store.saveEntries(changed);
+      }
+    };
+
+    this.flushing = this.flushing.then(write, write);
+    return this.flushing;
+  }
+
+  /**
+   * Stored entries with the latest usage of live sessions
+   */
+  async listEntries(): Promise<CostLedgerEntry[]> {
+    const stored = await this.store.listEntries();
+    const entries = new Map(stored.map(entry => [entry.id, entry]));
+    this.open.forEach((entry, id) => entries.set(id, entry));
+    return Array.from(entries.values());
+  }
+
+  /**
+   * Spend against each configured budget for the current day and month
+   */
+  async getBudgetStatus(now: Date = new Date()): Promise<BudgetStatus[]> {
+    await this.load();
+    const date = getZonedDateTime(now, this.timeZone).date;
+    const budgets: Array<[BudgetPeriod, string, number]> = [
+      ['daily', date, this.settings.dailyBudget],
+      ['monthly', date.slice(0, 7), this.settings.monthlyBudget],
+    ];
+
+    return budgets
+      .filter(([, , budget]) => budget > 0)
+      .map(([period, periodKey, budget]) => {
+        const spent = this.totals.get(periodKey) || 0;
+        return {
+          period,
+          periodKey,
+          budget,
+          spent,
+          remaining: Math.max(0, budget - spent),
+          percentUsed: Math.round((spent / budget) * 1000) / 10,
+          exhausted: spent >= budget,
+        };
+      });
+  }
+
+  /**
+   * Whether a new realtime session may start
+   */
+  async checkBudget(now: Date = new Date()): Promise<BudgetCheck> {
+    const budgets = await this.getBudgetStatus(now);
+    const exhausted = budgets.filter(status => status.exhausted);
+
+    if (!this.settings.hardStop || exhausted.length === 0) {
+      return { allowed: true, budgets };
+    }
+
+    const message = `The ${exhausted.map(status => status.period).join(' and ')} cost budget has been spent - new sessions are refused until it resets`;
+    logger.warn('Refusing new session - cost budget exhausted', { budgets: exhausted });
+    return { allowed: false, budgets, message };
+  }
+
+  private getOpenEntry(sessionId: string, date: string, now: Date): CostLedgerEntry {
+    const id = `${date}:${sessionId}`;
+    const context = callContextService.get(sessionId);
+    let entry = this.open.get(id);
+
+    if (!entry) {
+      entry = {
+        id,
+        sessionId,
+        date,
+        channel: context?.channel || 'chat',
+        usage: [],
+        totalCost: 0,
+        firstUsageAt: now.toISOString(),
+        lastUsageAt: now.toISOString(),
+      };
+      this.open.set(id, entry);
+    }
+
+    // The appointment is often only known part way through the call
+    if (context) {
+      entry.direction = context.direction;
+      entry.agentId = context.agent?.id;
+      entry.campaign = context.campaign;
+      entry.appointmentId = context.appointmentId;
+    }
+    return entry;
+  }
+
+  private getPricing(provider: CostProvider, model: string): ModelPricing {
+    const rates = this.pricing[model];
+    if (rates) return rates;
+
+    if (!this.unpricedModels.has(model)) {
+      this.unpricedModels.add(model);
+      logger.warn('No pricing for model - billing at the provider default', { model, provider, defaultModel: DEFAULT_MODELS[provider] });
+    }
+    return this.pricing[DEFAULT_MODELS[provider]] || { provider };
+  }
+
+  private addToTotals(date: string, cost: number): void {
+    for (const key of [date, date.slice(0, 7)]) {
+      this.totals.set(key, (this.totals.get(key) || 0) + cost);
+    }
+  }
+
+  /**
+   * Spend and sent alerts from earlier runs, loaded once
+   */
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        const [entries, alerts] = await Promise.all([this.store.listEntries(), this.store.listAlerts()]);
+        entries
+          .filter(entry => !this.open.has(entry.id))
+          .forEach(entry => this.addToTotals(entry.date, entry.totalCost));
+        alerts.forEach(alert => this.alerted.add(alert.id));
+      })().catch(error => {
+        // Let the next call retry rather than caching the failure
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  private async checkAlerts(now: Date): Promise<void> {
+    const budgets = await this.getBudgetStatus(now);
+
+    for (const status of budgets) {
+      const crossed = this.settings.alertThresholds.filter(threshold => status.percentUsed >= threshold);
+      if (crossed.length === 0) continue;
+
+      // Only the highest threshold crossed is reported; lower ones are marked sent
+      const threshold = Math.max(...crossed);
+      const id = `${status.period}:${status.periodKey}:${threshold}`;
+      if (this.alerted.has(id)) continue;
+      crossed.forEach(t => this.alerted.add(`${status.period}:${status.periodKey}:${t}`));
+
+      const alert: BudgetAlert = {
+        id,
+        period: status.period,
+        periodKey: status.periodKey,
+        threshold,
+        budget: status.budget,
+        spent: status.spent,
+        createdAt: now.toISOString(),
+      };
+
+      logger.warn('Cost budget threshold crossed', {
+        period: alert.period,
+        periodKey: alert.periodKey,
+        threshold: `${threshold}%`,
+        spent: alert.spent,
+        budget: alert.budget,
+        hardStop: this.settings.hardStop && status.exhausted,
+      });
+
+      await this.store.saveAlert(alert);
+      try {
+        await this.notifier.notify(alert);
+      } catch (error) {
+        logger.error('Failed to deliver cost alert', { alertId: alert.id, error: error instanceof Error ? error.message : error });
+      }
+    }
+  }
+}
+
+export const costLedgerService = new CostLedgerService();
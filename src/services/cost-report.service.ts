@@ -0,0 +1,332 @@
+/**
+ * Cost Report Service
+ * Aggregates the cost ledger by day or week, provider, agent and call
+ * direction, and relates spend to appointment outcomes from call summaries
+ * (cost per booked appointment)
+ */
+
+import { config } from '../config';
+import { COST_PROVIDERS, CostProvider } from '../config/pricing';
+import { toCsv } from '../utils/csv';
+import { addDays, getWeekday, getZonedDateTime } from '../utils/time-zone';
+import { AppointmentManagementService, appointmentManagementService } from './appointment-management.service';
+import type { CallAppointmentOutcome } from './call-summary.service';
+import { CostLedgerEntry, CostLedgerService, costLedgerService, UsageCounts } from './cost-ledger.service';
+
+export type ReportInterval = 'day' | 'week';
+export const REPORT_INTERVALS: ReportInterval[] = ['day', 'week'];
+
+export type ReportBreakdown = 'series' | 'provider' | 'agent' | 'direction';
+export const REPORT_BREAKDOWNS: ReportBreakdown[] = ['series', 'provider', 'agent', 'direction'];
+
+type ReportedOutcome = Exclude<CallAppointmentOutcome, 'none'>;
+const REPORTED_OUTCOMES: ReportedOutcome[] = ['booked', 'rescheduled', 'confirmed', 'retained', 'cancelled'];
+
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+
+export interface CostReportQuery {
+  from?: unknown; // YYYY-MM-DD, inclusive
+  to?: unknown;
+  interval?: unknown;
+  agentId?: unknown;
+  direction?: unknown;
+}
+
+export type UsageTotals = Required<UsageCounts>;
+
+export interface CostBucket {
+  key: string;
+  cost: number;
+  sessions: number;
+  usage: UsageTotals;
+  bookings: number; // Appointments booked during these sessions
+  costPerBooking: number | null;
+}
+
+export interface CostSeriesPoint extends CostBucket {
+  byProvider: Record<CostProvider, number>;
+}
+
+export interface CostReport {
+  from: string;
+  to: string;
+  interval: ReportInterval;
+  timeZone: string;
+  currency: 'USD';
+  totals: CostBucket & { outcomes: Record<ReportedOutcome, number> };
+  series: CostSeriesPoint[]; // Keyed by the first day of each period, empty periods included
+  byProvider: CostBucket[];
+  byAgent: CostBucket[];
+  byDirection: CostBucket[];
+}
+
+export interface CostReportResult {
+  success: boolean;
+  report: CostReport | null;
+  message: string;
+  errors?: string[];
+}
+
+/**
+ * Running totals for one bucket; sessions are counted once however many
+ * entries (days, providers) they contribute
+ */
+interface BucketAccumulator {
+  cost: number;
+  usage: UsageTotals;
+  sessions: Set<string>;
+  bookedSessions: Set<string>;
+  byProvider: Record<CostProvider, number>;
+}
+
+export class CostReportService {
+  constructor(
+    private ledger: CostLedgerService = costLedgerService,
+    private appointments: AppointmentManagementService = appointmentManagementService,
+    private timeZone: string = config.calendar.timeZone
+  ) {}
+
+  async buildReport(query: CostReportQuery, now: Date = new Date()): Promise<CostReportResult> {
+    const today = getZonedDateTime(now, this.timeZone).date;
+    const errors = validateReportQuery(query);
+    if (errors.length > 0) {
+      return { success: false, report: null, message: 'Invalid report query', errors };
+    }
+
+    const to = (query.to as string) || today;
+    const from = (query.from as string) || addDays(to, -(DEFAULT_RANGE_DAYS - 1));
+    if (from > to) {
+      return { success: false, report: null, message: 'Invalid report query', errors: ['from must not be after to'] };
+    }
+    if (daysBetween(from, to) >= MAX_RANGE_DAYS) {
+      return { success: false, report: null, message: 'Invalid report query', errors: [`The range can cover at most ${MAX_RANGE_DAYS} days`] };
+    }
+
+    const interval = (query.interval as ReportInterval) || 'day';
+    const entries = (await this.ledger.listEntries()).filter(entry =>
+      entry.date >= from && entry.date <= to &&
+      (!query.agentId || entry.agentId === query.agentId) &&
+      (!query.direction || entry.direction === query.direction)
+    );
+    const outcomes = await this.getOutcomesBySession(new Set(entries.map(entry => entry.sessionId)));
+
+    // A session's bookings count toward the period of its first day in range
+    const firstDate = new Map<string, string>();
+    entries.forEach(entry => {
+      const date = firstDate.get(entry.sessionId);
+      if (!date || entry.date < date) firstDate.set(entry.sessionId, entry.date);
+    });
+
+    const totals = newAccumulator();
+    const series = new Map<string, BucketAccumulator>();
+    for (let date = this.periodStart(from, interval); date <= to; date = addDays(date, interval === 'week' ? 7 : 1)) {
+      series.set(date, newAccumulator());
+    }
+    const byProvider = new Map<string, BucketAccumulator>();
+    const byAgent = new Map<string, BucketAccumulator>();
+    const byDirection = new Map<string, BucketAccumulator>();
+
+    for (const entry of entries) {
+      const booked = (outcomes.get(entry.sessionId)?.booked || 0) > 0;
+      const period = series.get(this.periodStart(entry.date, interval))!;
+
+      for (const line of entry.usage) {
+        const targets = [
+          totals,
+          getAccumulator(byProvider, line.provider),
+          getAccumulator(byAgent, entry.agentId || 'unassigned'),
+          getAccumulator(byDirection, getDirectionKey(entry)),
+        ];
+        targets.forEach(target => addLine(target, entry, line, booked));
+        addLine(period, entry, line, booked && firstDate.get(entry.sessionId) === entry.date);
+      }
+    }
+
+    const bookingsFor = (sessions: Set<string>) =>
+      Array.from(sessions).reduce((sum, sessionId) => sum + (outcomes.get(sessionId)?.booked || 0), 0);
+    const toBucket = (key: string, acc: BucketAccumulator): CostBucket => {
+      const bookings = bookingsFor(acc.bookedSessions);
+      return {
+        key,
+        cost: roundCost(acc.cost),
+        sessions: acc.sessions.size,
+        usage: { ...acc.usage },
+        bookings,
+        costPerBooking: bookings > 0 ? roundCost(acc.cost / bookings) : null,
+      };
+    };
+    const toBuckets = (buckets: Map<string, BucketAccumulator>) =>
+      Array.from(buckets.entries())
+        .map(([key, acc]) => toBucket(key, acc))
+        .sort((a, b) => b.cost - a.cost);
+
+    const totalOutcomes = Object.fromEntries(REPORTED_OUTCOMES.map(outcome => [outcome, 0])) as Record<ReportedOutcome, number>;
+    totals.sessions.forEach(sessionId => {
+      const counts = outcomes.get(sessionId);
+      REPORTED_OUTCOMES.forEach(outcome => { totalOutcomes[outcome] += counts?.[outcome] || 0; });
+    });
+
+    return {
+      success: true,
+      message: `Cost report for ${from} to ${to}: ${totals.sessions.size} sessions`,
+      report: {
+        from,
+        to,
+        interval,
+        timeZone: this.timeZone,
+        currency: 'USD',
+        totals: { ...toBucket('total', totals), outcomes: totalOutcomes },
+        series: Array.from(series.entries()).map(([key, acc]) => ({
+          ...toBucket(key, acc),
+          byProvider: Object.fromEntries(COST_PROVIDERS.map(provider => [provider, roundCost(acc.byProvider[provider])])) as Record<CostProvider, number>,
+        })),
+        byProvider: toBuckets(byProvider),
+        byAgent: toBuckets(byAgent),
+        byDirection: toBuckets(byDirection),
+      },
+    };
+  }
+
+  /**
+   * One table of a report as CSV
+   */
+  toCsv(report: CostReport, breakdown: ReportBreakdown = 'series'): string {
+    const usageHeader = ['input_tokens', 'output_tokens', 'input_audio_tokens', 'output_audio_tokens', 'tts_characters'];
+    const usageColumns = (bucket: CostBucket) => [
+      bucket.usage.inputTokens,
+      bucket.usage.outputTokens,
+      bucket.usage.inputAudioTokens,
+      bucket.usage.outputAudioTokens,
+      bucket.usage.characters,
+    ];
+    const bookingColumns = (bucket: CostBucket) => [bucket.bookings, bucket.costPerBooking ?? undefined];
+
+    if (breakdown === 'series') {
+      return toCsv(
+        [report.interval === 'week' ? 'week_start' : 'date', 'sessions', 'cost_usd', ...COST_PROVIDERS.map(provider => `${provider}_usd`), 'bookings', 'cost_per_booking_usd', ...usageHeader],
+        report.series.map(point => [
+          point.key,
+          point.sessions,
+          point.cost,
+          ...COST_PROVIDERS.map(provider => point.byProvider[provider]),
+          ...bookingColumns(point),
+          ...usageColumns(point),
+        ])
+      );
+    }
+
+    const { column, buckets } = {
+      provider: { column: 'provider', buckets: report.byProvider },
+      agent: { column: 'agent_id', buckets: report.byAgent },
+      direction: { column: 'direction', buckets: report.byDirection },
+    }[breakdown];
+
+    return toCsv(
+      [column, 'sessions', 'cost_usd', 'bookings', 'cost_per_booking_usd', ...usageHeader],
+      buckets.map(bucket => [bucket.key, bucket.sessions, bucket.cost, ...bookingColumns(bucket), ...usageColumns(bucket)])
+    );
+  }
+
+  /**
+   * Appointment outcomes per session, from the call summaries filed on appointments
+   */
+  private async getOutcomesBySession(sessionIds: Set<string>): Promise<Map<string, Partial<Record<ReportedOutcome, number>>>> {
+    const outcomes = new Map<string, Partial<Record<ReportedOutcome, number>>>();
+    if (sessionIds.size === 0) return outcomes;
+
+    const appointments = await this.appointments.listAppointments();
+    for (const appointment of appointments) {
+      for (const summary of appointment.callSummaries || []) {
+        if (!sessionIds.has(summary.callId) || summary.appointmentOutcome === 'none') continue;
+
+        const counts = outcomes.get(summary.callId) || {};
+        counts[summary.appointmentOutcome] = (counts[summary.appointmentOutcome] || 0) + 1;
+        outcomes.set(summary.callId, counts);
+      }
+    }
+    return outcomes;
+  }
+
+  /**
+   * The date itself for daily reports, the Monday of its week for weekly ones
+   */
+  private periodStart(date: string, interval: ReportInterval): string {
+    if (interval === 'day') return date;
+    return addDays(date, -((getWeekday(date) + 6) % 7));
+  }
+}
+
+function validateReportQuery(query: CostReportQuery): string[] {
+  const errors: string[] = [];
+
+  for (const field of ['from', 'to'] as const) {
+    const value = query[field];
+    if (value !== undefined && (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(Date.parse(value)))) {
+      errors.push(`${field} must be a date in YYYY-MM-DD format`);
+    }
+  }
+
+  if (query.interval !== undefined && !REPORT_INTERVALS.includes(query.interval as ReportInterval)) {
+    errors.push(`interval must be one of: ${REPORT_INTERVALS.join(', ')}`);
+  }
+
+  if (query.direction !== undefined && query.direction !== 'inbound' && query.direction !== 'outbound') {
+    errors.push('direction must be inbound or outbound');
+  }
+
+  if (query.agentId !== undefined && (typeof query.agentId !== 'string' || !query.agentId)) {
+    errors.push('agentId must be a non-empty string');
+  }
+
+  return errors;
+}
+
+function newAccumulator(): BucketAccumulator {
+  return {
+    cost: 0,
+    usage: { inputTokens: 0, outputTokens: 0, inputAudioTokens: 0, outputAudioTokens: 0, characters: 0 },
+    sessions: new Set(),
+    bookedSessions: new Set(),
+    byProvider: Object.fromEntries(COST_PROVIDERS.map(provider => [provider, 0])) as Record<CostProvider, number>,
+  };
+}
+
+function getAccumulator(buckets: Map<string, BucketAccumulator>, key: string): BucketAccumulator {
+  let acc = buckets.get(key);
+  if (!acc) {
+    acc = newAccumulator();
+    buckets.set(key, acc);
+  }
+  return acc;
+}
+
+function addLine(acc: BucketAccumulator, entry: CostLedgerEntry, line: CostLedgerEntry['usage'][number], booked: boolean): void {
+  acc.cost += line.cost;
+  acc.byProvider[line.provider] = (acc.byProvider[line.provider] || 0) + line.cost;
+  acc.usage.inputTokens += line.inputTokens;
+  acc.usage.outputTokens += line.outputTokens;
+  acc.usage.inputAudioTokens += line.inputAudioTokens;
+  acc.usage.outputAudioTokens += line.outputAudioTokens;
+  acc.usage.characters += line.characters;
+  acc.sessions.add(entry.sessionId);
+  if (booked) acc.bookedSessions.add(entry.sessionId);
+}
+
+/**
+ * Text chat sessions aren't calls, so they get their own bucket
+ */
+function getDirectionKey(entry: CostLedgerEntry): string {
+  if (entry.direction) return entry.direction;
+  return entry.channel === 'chat' ? 'chat' : 'unknown';
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / 86400000);
+}
+
+function roundCost(cost: number): number {
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+export const costReportService = new CostReportService();
@@ -0,0 +1,249 @@
+/**
+ * CRM Adapter
+ * Keeps the CRM system of record in sync with appointments booked by Emma
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { config } from '../config';
+import logger from '../utils/logger';
+
+export type CrmEventStatus = 'scheduled' | 'confirmed' | 'cancelled' | 'rescheduled' | 'completed';
+
+export interface CrmEvent {
+  id: string;
+  customerName: string;
+  customerPhone?: string;
+  customerEmail?: string;
+  scheduledTime: string; // ISO 8601
+  address: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  staffId: string;
+  notes?: string;
+  status: CrmEventStatus;
+  cancellationReason?: string;
+}
+
+export type NewCrmEvent = Omit<CrmEvent, 'id' | 'status' | 'cancellationReason'>;
+
+export type CrmEventUpdate = Partial<Pick<CrmEvent, 'scheduledTime' | 'staffId' | 'status' | 'notes' | 'cancellationReason'>>;
+
+export interface CrmAvailabilitySlot {
+  staffId: string;
+  staffName?: string;
+  start: string; // ISO 8601
+  end: string; // ISO 8601
+}
+
+export interface CrmAvailabilityQuery {
+  from?: string; // ISO 8601
+  to?: string; // ISO 8601
+  staffIds?: string[];
+}
+
+export interface CrmCustomer {
+  id: string;
+  name: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+}
+
+export interface CrmCustomerQuery {
+  phone?: string;
+  name?: string;
+}
+
+export interface CrmAdapter {
+  readonly name: string;
+  createEvent(event: NewCrmEvent): Promise<CrmEvent>;
+  updateEvent(eventId: string, update: CrmEventUpdate): Promise<CrmEvent>;
+  listAvailability(query?: CrmAvailabilityQuery): Promise<CrmAvailabilitySlot[]>;
+  findCustomer(query: CrmCustomerQuery): Promise<CrmCustomer[]>;
+}
+
+/**
+ * CRM event record in the REST API's field naming
+ */
+export interface RestCrmEventRecord {
+  Id: string;
+  Event_Type: string;
+  Name: string;
+  Scheduled_Time: string;
+  Status: string;
+  Customer_Name: string;
+  Customer_Phone?: string;
+  Customer_Email?: string;
+  Address: string;
+  Street: string;
+  City: string;
+  State: string;
+  ZipCode: string;
+  Staff: string; // User UUID of the sales rep
+  Notes_for_Sales_Rep?: string;
+  Cancellation_Reason?: string;
+}
+
+export interface RestCrmAvailabilityRecord {
+  Staff: string;
+  Staff_Name?: string;
+  Start_Time: string;
+  End_Time: string;
+}
+
+export interface RestCrmCustomerRecord {
+  Id: string;
+  Name: string;
+  Phone?: string;
+  Email?: string;
+  Street?: string;
+  City?: string;
+  State?: string;
+  ZipCode?: string;
+}
+
+const REST_STATUS: Record<CrmEventStatus, string> = {
+  scheduled: 'Scheduled',
+  confirmed: 'Confirmed',
+  cancelled: 'Cancelled',
+  rescheduled: 'Rescheduled',
+  completed: 'Completed',
+};
+
+/**
+ * Adapter for the CRM's REST API (`/events`, `/sales-rep-availability`, `/customers`)
+ */
+export class RestCrmAdapter implements CrmAdapter {
+  readonly name = 'rest';
+  private http: AxiosInstance;
+
+  constructor(baseUrl: string, apiKey?: string, timeoutMs: number = 10000) {
+    this.http = axios.create({
+      baseURL: baseUrl.replace(/\/$/, ''),
+      timeout: timeoutMs,
+      headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+    });
+  }
+
+  async createEvent(event: NewCrmEvent): Promise<CrmEvent> {
+    const payload: Omit<RestCrmEventRecord, 'Id'> = {
+      Event_Type: 'Sales Appointment',
+      Name: `Consultation for ${event.customerName} on ${new Date(event.scheduledTime).toLocaleDateString()}`,
+      Scheduled_Time: event.scheduledTime,
+      Status: REST_STATUS.scheduled,
+      Customer_Name: event.customerName,
+      Customer_Phone: event.customerPhone,
+      Customer_Email: event.customerEmail,
+      Address: event.address,
+      Street: event.address,
+      City: event.city,
+      State: event.state,
+      ZipCode: event.zipCode,
+      Staff: event.staffId,
+      Notes_for_Sales_Rep: event.notes,
+    };
+
+    const response = await this.http.post<RestCrmEventRecord>('/events', payload);
+    logger.info('CRM event created', { eventId: response.data.Id });
+    return fromRestEvent(response.data);
+  }
+
+  async updateEvent(eventId: string, update: CrmEventUpdate): Promise<CrmEvent> {
+    const payload: Partial<RestCrmEventRecord> = {
+      Scheduled_Time: update.scheduledTime,
+      Staff: update.staffId,
+      Status: update.status ? REST_STATUS[update.status] : undefined,
+      Notes_for_Sales_Rep: update.notes,
+      Cancellation_Reason: update.cancellationReason,
+    };
+
+    const response = await this.http.patch<RestCrmEventRecord>(`/events/${encodeURIComponent(eventId)}`, payload);
+    logger.info('CRM event updated', { eventId, status: update.status });
+    return fromRestEvent(response.data);
+  }
+
+  async listAvailability(query: CrmAvailabilityQuery = {}): Promise<CrmAvailabilitySlot[]> {
+    const response = await this.http.get('/sales-rep-availability', {
+      params: {
+        from: query.from,
+        to: query.to,
+        staff: query.staffIds?.join(','),
+      },
+    });
+
+    // The API wraps results as { success, message, data }
+    if (!response.data?.success || !Array.isArray(response.data.data)) {
+      throw new Error(response.data?.message || 'Unexpected availability response from CRM');
+    }
+
+    return (response.data.data as RestCrmAvailabilityRecord[]).map(slot => ({
+      staffId: slot.Staff,
+      staffName: slot.Staff_Name,
+      start: slot.Start_Time,
+      end: slot.End_Time,
+    }));
+  }
+
+  async findCustomer(query: CrmCustomerQuery): Promise<CrmCustomer[]> {
+    const response = await this.http.get('/customers', {
+      params: { phone: query.phone, name: query.name },
+    });
+
+    if (!response.data?.success || !Array.isArray(response.data.data)) {
+      throw new Error(response.data?.message || 'Unexpected customer response from CRM');
+    }
+
+    return (response.data.data as RestCrmCustomerRecord[]).map(customer => ({
+      id: customer.Id,
+      name: customer.Name,
+      phone: customer.Phone,
+      email: customer.Email,
+      address: customer.Street,
+      city: customer.City,
+      state: customer.State,
+      zipCode: customer.ZipCode,
+    }));
+  }
+}
+
+function fromRestEvent(record: RestCrmEventRecord): CrmEvent {
+  const status = (Object.keys(REST_STATUS) as CrmEventStatus[])
+    .find(key => REST_STATUS[key] === record.Status) || 'scheduled';
+
+  return {
+    id: record.Id,
+    customerName: record.Customer_Name,
+    customerPhone: record.Customer_Phone,
+    customerEmail: record.Customer_Email,
+    scheduledTime: record.Scheduled_Time,
+    address: record.Street || record.Address,
+    city: record.City,
+    state: record.State,
+    zipCode: record.ZipCode,
+    staffId: record.Staff,
+    notes: record.Notes_for_Sales_Rep,
+    status,
+    cancellationReason: record.Cancellation_Reason,
+  };
+}
+
+/**
+ * Create the CRM adapter selected by configuration, or null when CRM sync is disabled
+ */
+export function createCrmAdapter(): CrmAdapter | null {
+  if (config.crm.driver === 'rest') {
+    if (!config.crm.baseUrl) {
+      logger.warn('CRM_DRIVER is rest but CRM_API_BASE_URL is not set - CRM sync disabled');
+      return null;
+    }
+    logger.info('Using REST CRM adapter', { baseUrl: config.crm.baseUrl });
+    return new RestCrmAdapter(config.crm.baseUrl, config.crm.apiKey, config.crm.timeoutMs);
+  }
+
+  logger.info('CRM sync disabled');
+  return null;
+}
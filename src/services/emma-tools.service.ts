@@ -1,18 +1,20 @@
 import { ToolDefinition } from './openai-realtime.service';
+import { ToolRegistry, ToolHandler, ToolCallRequest, ToolCallResponse } from './tool-registry.service';
 import { appointmentCancellationToolsService } from './appointment-cancellation-tools.service';
+import { Appointment, appointmentManagementService } from './appointment-management.service';
+import { serviceAreaService, outOfServiceAreaResponse } from './service-area.service';
+import { CallContext, callContextService } from './call-context.service';
+import { getKnowledgeBase } from './simple-knowledge-base.service';
+import { CITE_KNOWLEDGE_TOOL, GROUNDED_CATEGORIES, knowledgeGroundingService } from './knowledge-grounding.service';
+import { humanTransferService, TRANSFER_TO_HUMAN_TOOL } from './human-transfer.service';
+import { callerVerificationService } from './caller-verification.service';
+import type { CrmCustomer } from './crm-adapter.service';
 import { CALL_SCENARIO_DETECTION } from '../config/emma-unified-prompt';
+import { config } from '../config';
 import logger from '../utils/logger';
+import { minutesToTime, timeToMinutes } from '../utils/time-zone';
 
-export interface ToolCallRequest {
-  call_id: string;
-  name: string;
-  arguments: any;
-}
-
-export interface ToolCallResponse {
-  call_id: string;
-  output: any;
-}
+export type { ToolCallRequest, ToolCallResponse } from './tool-registry.service';
 
 export interface ScenarioDetectionResult {
   scenario: 'scheduling' | 'cancellation' | 'rescheduling' | 'confirmation' | 'unclear';
@@ -22,11 +24,16 @@ export interface ScenarioDetectionResult {
 }
 
 export class EmmaToolsService {
-  
+  private registry = new ToolRegistry();
+
+  constructor() {
+    this.registerTools();
+  }
+
   /**
    * Detect call scenario from customer input
    */
-  detectScenario(customerInput: string, callContext?: any): ScenarioDetectionResult {
+  detectScenario(customerInput: string, callContext?: { callType?: string; purpose?: string }): ScenarioDetectionResult {
     const input = customerInput.toLowerCase();
     const scenarios = CALL_SCENARIO_DETECTION;
     
@@ -149,12 +156,26 @@ export class EmmaToolsService {
     };
   }
 
+  /**
+   * Add a tool without touching the built-in set
+   */
+  registerTool(definition: ToolDefinition, handler: ToolHandler): void {
+    this.registry.register(definition, handler);
+  }
+
   /**
    * Get all available tools for Emma (both scheduling and cancellation)
    */
   getToolDefinitions(): ToolDefinition[] {
-    return [
-      // Scenario Detection Tool
+    return this.registry.getDefinitions();
+  }
+
+  /**
+   * Register every tool Emma can use (scheduling and cancellation)
+   */
+  private registerTools(): void {
+    // Scenario Detection Tool
+    this.registry.register(
       {
         type: 'function',
         function: {
@@ -166,11 +187,6 @@ export class EmmaToolsService {
               customerInput: {
                 type: 'string',
                 description: 'The customer\'s verbal response or message'
-              },
-              callContext: {
-                type: 'string',
-                enum: ['inbound', 'outbound'],
-                description: 'Whether customer called in or we called them'
               }
             },
             required: ['customerInput'],
@@ -178,8 +194,18 @@ export class EmmaToolsService {
           }
         }
       },
-      
-      // Scheduling Tools (for new appointments)
+      (args, request) => ({
+        success: true,
+        message: 'Scenario detected successfully',
+        data: this.detectScenario(args.customerInput, {
+          callType: request.context?.direction,
+          purpose: request.context?.campaign
+        })
+      })
+    );
+
+    // Scheduling Tools (for new appointments)
+    this.registry.register(
       {
         type: 'function',
         function: {
@@ -206,6 +232,37 @@ export class EmmaToolsService {
           }
         }
       },
+      (args, request) => this.getAppointmentAvailability(args, request.sessionId)
+    );
+
+    this.registry.register(
+      {
+        type: 'function',
+        function: {
+          name: 'hold_appointment_slot',
+          description: 'Temporarily reserve a specific consultant time slot while offering it to the customer, so no other caller can book it. Call this when you propose a specific time; the hold expires automatically if not booked.',
+          parameters: {
+            type: 'object',
+            properties: {
+              staffId: {
+                type: 'string',
+                description: 'ID of the design consultant from the availability results'
+              },
+              scheduledTime: {
+                type: 'string',
+                format: 'date-time',
+                description: 'Slot start time in ISO 8601 format (the scheduledTime from the availability results)'
+              }
+            },
+            required: ['staffId', 'scheduledTime'],
+            additionalProperties: false
+          }
+        }
+      },
+      (args, request) => this.holdAppointmentSlot(args, request.sessionId)
+    );
+
+    this.registry.register(
       {
         type: 'function',
         function: {
@@ -254,6 +311,10 @@ export class EmmaToolsService {
               notes: {
                 type: 'string',
                 description: 'Any special notes about the appointment'
+              },
+              holdId: {
+                type: 'string',
+                description: 'Hold ID returned by hold_appointment_slot for this time (optional)'
               }
             },
             required: ['customerName', 'scheduledTime', 'address', 'city', 'state', 'zipCode', 'staffId'],
@@ -261,33 +322,109 @@ export class EmmaToolsService {
           }
         }
       },
+      (args, request) => this.createAppointmentEvent(
+        { ...args, customerPhone: args.customerPhone || request.context?.callerNumber },
+        request.sessionId
+      )
+    );
 
-      // Cancellation & Modification Tools
+    // Cancellation & Modification Tools
+    this.registry.register(
       {
         type: 'function',
         function: {
           name: 'find_customer_appointment',
-          description: 'Find customer appointments by name, phone number, or appointment ID. Use this when customer wants to cancel or modify an appointment.',
+          description: 'REQUIRED FIRST STEP: Find and verify a customer appointment exists before any reschedule, cancel, or retain operations. This tool must be called first to validate the appointment exists and get proper appointment details.',
           parameters: {
             type: 'object',
             properties: {
               customerName: {
                 type: 'string',
-                description: 'Customer name to search for'
+                description: 'Customer name to search for appointments'
               },
-              customerPhone: {
+              phoneNumber: {
                 type: 'string',
-                description: 'Customer phone number to search for'
+                description: 'Customer phone number (optional, helps with verification)'
+              },
+              appointmentDate: {
+                type: 'string',
+                format: 'date',
+                description: 'Expected appointment date in YYYY-MM-DD format (optional, helps narrow search)'
+              },
+              zipCode: {
+                type: 'string',
+                description: 'Customer zip code (optional, helps with verification)'
               },
               appointmentId: {
                 type: 'string',
                 description: 'Specific appointment ID if known'
               }
             },
+            required: ['customerName'],
             additionalProperties: false
           }
         }
       },
+      (args, request) => this.findCustomerAppointment(args, request)
+    );
+
+    this.registry.register(
+      {
+        type: 'function',
+        function: {
+          name: 'verify_caller_identity',
+          description: "REQUIRED before reschedule_appointment or cancel_appointment: confirm the caller owns the appointment. Works when the call comes from the phone number on file and the caller gives the appointment's zip code or street number, or with the code sent by send_verification_code. Never read the details on file to the caller.",
+          parameters: {
+            type: 'object',
+            properties: {
+              appointmentId: {
+                type: 'string',
+                description: 'The appointment ID obtained from find_customer_appointment'
+              },
+              zipCode: {
+                type: 'string',
+                description: 'Zip code of the appointment address, as given by the caller'
+              },
+              streetNumber: {
+                type: 'string',
+                description: 'House number of the appointment address, as given by the caller'
+              },
+              smsCode: {
+                type: 'string',
+                description: 'The 6-digit code the caller received by text message'
+              }
+            },
+            required: ['appointmentId'],
+            additionalProperties: false
+          }
+        }
+      },
+      (args, request) => callerVerificationService.verify(request.context, request.sessionId, args)
+    );
+
+    this.registry.register(
+      {
+        type: 'function',
+        function: {
+          name: 'send_verification_code',
+          description: 'Text a one-time code to the phone number on file for an appointment. Use when the caller is not calling from that number, then verify the code they read back with verify_caller_identity.',
+          parameters: {
+            type: 'object',
+            properties: {
+              appointmentId: {
+                type: 'string',
+                description: 'The appointment ID obtained from find_customer_appointment'
+              }
+            },
+            required: ['appointmentId'],
+            additionalProperties: false
+          }
+        }
+      },
+      (args, request) => callerVerificationService.sendCode(request.sessionId, args.appointmentId, request.context?.agent?.companyName)
+    );
+
+    this.registry.register(
       {
         type: 'function',
         function: {
@@ -315,6 +452,10 @@ export class EmmaToolsService {
           }
         }
       },
+      (args, request) => appointmentCancellationToolsService.startCancellationAttempt(args, request.context?.agent?.rebuttals)
+    );
+
+    this.registry.register(
       {
         type: 'function',
         function: {
@@ -353,6 +494,10 @@ export class EmmaToolsService {
           }
         }
       },
+      args => appointmentCancellationToolsService.updateCancellationAttempt(args)
+    );
+
+    this.registry.register(
       {
         type: 'function',
         function: {
@@ -379,42 +524,15 @@ export class EmmaToolsService {
           }
         }
       },
-      {
-        type: 'function',
-        function: {
-          name: 'find_customer_appointment',
-          description: 'REQUIRED FIRST STEP: Find and verify a customer appointment exists before any reschedule, cancel, or retain operations. This tool must be called first to validate the appointment exists and get proper appointment details.',
-          parameters: {
-            type: 'object',
-            properties: {
-              customerName: {
-                type: 'string',
-                description: 'Customer name to search for appointments'
-              },
-              phoneNumber: {
-                type: 'string',
-                description: 'Customer phone number (optional, helps with verification)'
-              },
-              appointmentDate: {
-                type: 'string',
-                format: 'date',
-                description: 'Expected appointment date in YYYY-MM-DD format (optional, helps narrow search)'
-              },
-              zipCode: {
-                type: 'string',
-                description: 'Customer zip code (optional, helps with verification)'
-              }
-            },
-            required: ['customerName'],
-            additionalProperties: false
-          }
-        }
-      },
+      args => appointmentCancellationToolsService.getAvailableSlotsForReschedule(args.zipCode, args.preferredDates)
+    );
+
+    this.registry.register(
       {
         type: 'function',
         function: {
           name: 'reschedule_appointment',
-          description: 'IMPORTANT: Reschedule an appointment to a new date and time. You MUST first use find_customer_appointment to verify the appointment exists and get valid appointment details before using this tool. Only use after customer agrees to reschedule.',
+          description: 'IMPORTANT: Reschedule an appointment to a new date and time. You MUST first use find_customer_appointment to find the appointment and verify_caller_identity to verify the caller before using this tool. Only use after customer agrees to reschedule.',
           parameters: {
             type: 'object',
             properties: {
@@ -444,6 +562,10 @@ export class EmmaToolsService {
                 type: 'string',
                 description: 'Cancellation attempt ID if this was part of retention effort'
               },
+              holdId: {
+                type: 'string',
+                description: 'Hold ID returned by hold_appointment_slot for the new time (optional)'
+              },
               customerName: {
                 type: 'string',
                 description: 'Customer name from the found appointment (for verification)'
@@ -454,6 +576,11 @@ export class EmmaToolsService {
           }
         }
       },
+      async (args, request) => (await callerVerificationService.requireVerified(request.sessionId, args.appointmentId))
+        || appointmentCancellationToolsService.rescheduleAppointment({ ...args, holderId: request.sessionId })
+    );
+
+    this.registry.register(
       {
         type: 'function',
         function: {
@@ -480,11 +607,39 @@ export class EmmaToolsService {
           }
         }
       },
+      async (args, request) => (await callerVerificationService.requireVerified(request.sessionId, args.appointmentId))
+        || appointmentCancellationToolsService.retainAppointment(args.appointmentId, args.attemptId)
+    );
+
+    this.registry.register(
+      {
+        type: 'function',
+        function: {
+          name: 'confirm_appointment',
+          description: 'Mark an appointment as confirmed when the customer says the scheduled time still works (e.g. on a confirmation call). Use the appointment ID from the call context or from find_customer_appointment.',
+          parameters: {
+            type: 'object',
+            properties: {
+              appointmentId: {
+                type: 'string',
+                description: 'The EXACT appointment ID being confirmed'
+              }
+            },
+            required: ['appointmentId'],
+            additionalProperties: false
+          }
+        }
+      },
+      async (args, request) => (await callerVerificationService.requireVerified(request.sessionId, args.appointmentId))
+        || appointmentCancellationToolsService.confirmAppointment(args.appointmentId)
+    );
+
+    this.registry.register(
       {
         type: 'function',
         function: {
           name: 'cancel_appointment',
-          description: 'IMPORTANT: Cancel an appointment (final step when all retention efforts fail). You MUST first use find_customer_appointment to verify the appointment exists before using this tool. Only use as last resort.',
+          description: 'IMPORTANT: Cancel an appointment (final step when all retention efforts fail). You MUST first use find_customer_appointment to find the appointment and verify_caller_identity to verify the caller before using this tool. Only use as last resort.',
           parameters: {
             type: 'object',
             properties: {
@@ -510,6 +665,94 @@ export class EmmaToolsService {
           }
         }
       },
+      async (args, request) => (await callerVerificationService.requireVerified(request.sessionId, args.appointmentId))
+        || appointmentCancellationToolsService.cancelAppointment(args)
+    );
+
+    this.registry.register(
+      {
+        type: 'function',
+        function: {
+          name: 'search_knowledge_base',
+          description: 'Look up company information (services, pricing, policies, hours, service area, preparation) to answer a customer question. Use the returned answers instead of guessing.',
+          parameters: {
+            type: 'object',
+            properties: {
+              query: {
+                type: 'string',
+                minLength: 2,
+                description: "The customer's question in plain words, e.g. 'do you offer financing'"
+              },
+              category: {
+                type: 'string',
+                description: 'Optional category to search within (e.g. pricing, policies)'
+              }
+            },
+            required: ['query'],
+            additionalProperties: false
+          }
+        }
+      },
+      (args, request) => this.searchKnowledgeBase(args, request.context)
+    );
+
+    this.registry.register(
+      {
+        type: 'function',
+        function: {
+          name: CITE_KNOWLEDGE_TOOL,
+          description: 'Cite the knowledge base entries a price or policy answer comes from. Call this before telling the customer any price, fee, discount, deposit, refund or cancellation term, then say only what the returned entries say.',
+          parameters: {
+            type: 'object',
+            properties: {
+              entryIds: {
+                type: 'array',
+                items: { type: 'string' },
+                minItems: 1,
+                maxItems: 5,
+                description: "Knowledge entry ids, e.g. ['kb-003']"
+              },
+              claim: {
+                type: 'string',
+                description: 'What you are about to tell the customer'
+              }
+            },
+            required: ['entryIds'],
+            additionalProperties: false
+          }
+        }
+      },
+      (args, request) => this.citeKnowledge(args, request.context)
+    );
+
+    this.registry.register(
+      {
+        type: 'function',
+        function: {
+          name: TRANSFER_TO_HUMAN_TOOL,
+          description: 'Transfer the caller to a member of staff. Use this when the caller asks for a person, or needs something you cannot handle (complaints, billing disputes, questions the knowledge base cannot answer). The caller waits on hold while staff are called; if nobody answers they can leave a voicemail for a callback.',
+          parameters: {
+            type: 'object',
+            properties: {
+              reason: {
+                type: 'string',
+                description: 'Why the caller needs a person, e.g. "billing dispute", "asked for a manager"'
+              },
+              summary: {
+                type: 'string',
+                minLength: 10,
+                description: "One or two sentences for staff before they pick up: who is calling, what they want and what you've already done"
+              }
+            },
+            required: ['reason', 'summary'],
+            additionalProperties: false
+          }
+        }
+      },
+      (args, request) => this.transferToHuman(args, request.context)
+    );
+
+    this.registry.register(
       {
         type: 'function',
         function: {
@@ -521,18 +764,15 @@ export class EmmaToolsService {
               reason: {
                 type: 'string',
                 description: 'Brief reason for ending the call (e.g., "appointment scheduled", "call completed", "customer request")'
-              },
-              callSid: {
-                type: 'string',
-                description: 'The Twilio call SID to end (optional - system will use current call if not provided)'
               }
             },
             required: ['reason'],
             additionalProperties: false
           }
         }
-      }
-    ];
+      },
+      (args, request) => this.endCall(args, request.context)
+    );
   }
 
   /**
@@ -541,45 +781,35 @@ export class EmmaToolsService {
   private async getAppointmentAvailability(args: {
     zipCode: string;
     preferredDates?: string[];
-  }) {
+  }, sessionId?: string) {
     try {
-      // Mock availability data - in production this would connect to actual scheduling system
-      const mockSlots = [
-        {
-          id: 'slot_001',
-          date: '2025-06-05',
-          startTime: '09:00',
-          endTime: '11:00',
-          staffId: 'staff_001',
-          staffName: 'John Smith',
-          available: true
-        },
-        {
-          id: 'slot_002',
-          date: '2025-06-05',
-          startTime: '14:00',
-          endTime: '16:00',
-          staffId: 'staff_002',
-          staffName: 'Sarah Johnson',
-          available: true
-        },
-        {
-          id: 'slot_003',
-          date: '2025-06-06',
-          startTime: '10:00',
-          endTime: '12:00',
-          staffId: 'staff_001',
-          staffName: 'John Smith',
-          available: true
-        }
-      ];
+      const serviceArea = serviceAreaService.lookup(args.zipCode);
+      if (!serviceArea.served) {
+        return outOfServiceAreaResponse(serviceArea);
+      }
+
+      const slots = await appointmentManagementService.getAvailableSlots(args.zipCode, args.preferredDates, sessionId);
+
+      const availableSlots = slots.map(slot => ({
+        id: `${slot.userId}_${slot.scheduledTime}`,
+        date: slot.date,
+        startTime: slot.time,
+        endTime: minutesToTime(timeToMinutes(slot.time) + config.calendar.appointmentDurationMinutes),
+        scheduledTime: slot.scheduledTime,
+        timeZone: slot.timeZone,
+        staffId: slot.userId,
+        staffName: slot.staffName,
+        available: slot.available
+      }));
 
       return {
         success: true,
-        message: 'Available appointment slots retrieved',
+        message: availableSlots.length > 0
+          ? 'Available appointment slots retrieved'
+          : 'No available appointment slots for the requested dates',
         data: {
           zipCode: args.zipCode,
-          availableSlots: mockSlots
+          availableSlots
         }
       };
     } catch (error) {
@@ -606,15 +836,49 @@ export class EmmaToolsService {
     zipCode: string;
     staffId: string;
     notes?: string;
-  }) {
+    holdId?: string;
+  }, sessionId?: string) {
     try {
-      // Mock appointment creation - in production this would connect to actual scheduling system
-      const appointmentId = `appt_${Date.now()}`;
-      
+      const serviceArea = serviceAreaService.lookup(args.zipCode);
+      if (!serviceArea.served) {
+        return outOfServiceAreaResponse(serviceArea);
+      }
+
+      if (!serviceArea.staffIds.includes(args.staffId)) {
+        return {
+          success: false,
+          message: `Consultant ${args.staffId} does not cover zip code ${serviceArea.zipCode} - choose a slot from get_appointment_availability`
+        };
+      }
+
+      if (isNaN(new Date(args.scheduledTime).getTime())) {
+        return {
+          success: false,
+          message: 'Invalid scheduledTime - expected ISO 8601 date-time'
+        };
+      }
+
+      const { holdId, ...params } = args;
+      const result = await appointmentManagementService.createAppointment(params, {
+        holdId,
+        holderId: sessionId
+      });
+
+      if (!result.success || !result.appointment) {
+        return {
+          success: false,
+          message: 'That time was just taken by another booking. Apologize, call get_appointment_availability again and offer the customer a different time.',
+          data: { slotUnavailable: true }
+        };
+      }
+
+      const appointment = result.appointment;
+      callContextService.update(sessionId, { appointmentId: appointment.id });
+
       logger.info('Creating new appointment', {
-        appointmentId,
+        appointmentId: appointment.id,
         customerName: args.customerName,
-        scheduledTime: args.scheduledTime,
+        scheduledTime: appointment.scheduledTime,
         staffId: args.staffId
       });
 
@@ -622,19 +886,19 @@ export class EmmaToolsService {
         success: true,
         message: 'Appointment created successfully',
         data: {
-          appointmentId,
-          customerName: args.customerName,
-          customerPhone: args.customerPhone,
-          customerEmail: args.customerEmail,
-          scheduledTime: args.scheduledTime,
-          address: args.address,
-          city: args.city,
-          state: args.state,
-          zipCode: args.zipCode,
-          staffId: args.staffId,
-          notes: args.notes,
-          status: 'confirmed',
-          createdAt: new Date().toISOString()
+          appointmentId: appointment.id,
+          customerName: appointment.customerName,
+          customerPhone: appointment.customerPhone,
+          customerEmail: appointment.customerEmail,
+          scheduledTime: appointment.scheduledTime,
+          address: appointment.address,
+          city: appointment.city,
+          state: appointment.state,
+          zipCode: appointment.zipCode,
+          staffId: appointment.staffId,
+          notes: appointment.notes,
+          status: appointment.status,
+          createdAt: appointment.createdAt
         }
       };
     } catch (error) {
@@ -648,202 +912,281 @@ export class EmmaToolsService {
   }
 
   /**
-   * Execute a tool call and return the result
+   * Reserve a slot while it is being offered to the caller
    */
-  async executeToolCall(toolCall: ToolCallRequest): Promise<ToolCallResponse> {
+  private async holdAppointmentSlot(args: {
+    staffId: string;
+    scheduledTime: string;
+  }, sessionId?: string) {
     try {
-      logger.info('Executing tool call', { 
-        toolName: toolCall.name, 
-        callId: toolCall.call_id,
-        arguments: toolCall.arguments 
-      });
-
-      let result: any;
-
-      switch (toolCall.name) {
-        // Scenario Detection
-        case 'detect_scenario':
-          result = {
-            success: true,
-            message: 'Scenario detected successfully',
-            data: this.detectScenario(
-              toolCall.arguments.customerInput,
-              toolCall.arguments.callContext
-            )
-          };
-          break;
-
-        // Scheduling Tools (New Appointments)
-        case 'get_appointment_availability':
-          result = await this.getAppointmentAvailability(toolCall.arguments);
-          break;
-
-        case 'create_appointment_event':
-          result = await this.createAppointmentEvent(toolCall.arguments);
-          break;
-
-        // Cancellation & Modification Tools
-        case 'find_customer_appointment':
-          result = await appointmentCancellationToolsService.findCustomerAppointment(toolCall.arguments);
-          break;
-
-        case 'start_cancellation_attempt':
-          result = await appointmentCancellationToolsService.startCancellationAttempt(toolCall.arguments);
-          break;
-
-        case 'update_cancellation_attempt':
-          result = await appointmentCancellationToolsService.updateCancellationAttempt(toolCall.arguments);
-          break;
-
-        case 'get_available_slots':
-          result = await appointmentCancellationToolsService.getAvailableSlotsForReschedule(
-            toolCall.arguments.zipCode,
-            toolCall.arguments.preferredDates
-          );
-          break;
-
-        case 'reschedule_appointment':
-          result = await appointmentCancellationToolsService.rescheduleAppointment(toolCall.arguments);
-          break;
-
-        case 'retain_appointment':
-          result = await appointmentCancellationToolsService.retainAppointment(
-            toolCall.arguments.appointmentId,
-            toolCall.arguments.attemptId
-          );
-          break;
-
-        case 'cancel_appointment':
-          result = await appointmentCancellationToolsService.cancelAppointment(toolCall.arguments);
-          break;
-
-        case 'end_call':
-          result = await this.endCall(toolCall.arguments);
-          break;
-
-        default:
-          throw new Error(`Unknown tool: ${toolCall.name}`);
+      if (isNaN(new Date(args.scheduledTime).getTime())) {
+        return {
+          success: false,
+          message: 'Invalid scheduledTime - expected ISO 8601 date-time'
+        };
       }
 
-      logger.info('Tool call executed successfully', { 
-        toolName: toolCall.name, 
-        callId: toolCall.call_id,
-        success: result.success 
-      });
+      const holderId = sessionId || `anonymous-${Date.now()}`;
+      const result = await appointmentManagementService.holdSlot(args.staffId, args.scheduledTime, holderId);
+
+      if (!result.success || !result.hold) {
+        return {
+          success: false,
+          message: 'That time is no longer available. Offer the customer a different slot.',
+          data: { slotUnavailable: true }
+        };
+      }
 
       return {
-        call_id: toolCall.call_id,
-        output: result
+        success: true,
+        message: 'Slot held for this caller - pass holdId when booking',
+        data: {
+          holdId: result.hold.holdId,
+          staffId: result.hold.staffId,
+          scheduledTime: result.hold.scheduledTime,
+          expiresAt: result.hold.expiresAt
+        }
       };
-
     } catch (error) {
-      logger.error('Tool call execution failed', { 
-        toolName: toolCall.name, 
-        callId: toolCall.call_id,
+      logger.error('Error holding appointment slot', { error });
+      return {
+        success: false,
+        message: 'Failed to hold appointment slot',
         error: error instanceof Error ? error.message : 'Unknown error'
-      });
+      };
+    }
+  }
 
+  /**
+   * Validate and execute a tool call
+   */
+  async executeToolCall(toolCall: ToolCallRequest): Promise<ToolCallResponse> {
+    const context = toolCall.context || callContextService.get(toolCall.sessionId);
+
+    // Agent profiles can restrict which tools their agent may use
+    const allowlist = context?.agent?.toolAllowlist;
+    if (allowlist && !allowlist.includes(toolCall.name)) {
+      logger.warn('Tool not allowed for agent', { toolName: toolCall.name, agentId: context?.agent?.id });
       return {
         call_id: toolCall.call_id,
         output: {
           success: false,
-          message: 'Tool execution failed',
-          error: error instanceof Error ? error.message : 'Unknown error'
+          message: `Tool ${toolCall.name} is not available for this agent`,
+          error: 'tool_not_allowed'
         }
       };
     }
+
+    return this.registry.execute({ ...toolCall, context });
   }
 
   /**
-   * Get suggested rebuttals based on cancellation reason
+   * Search the calling agent's knowledge base
    */
-  getSuggestedRebuttals(reason: string): string[] {
-    const lowerReason = reason.toLowerCase();
-    
-    if (lowerReason.includes('schedule') || lowerReason.includes('busy') || lowerReason.includes('time')) {
-      return [
-        "I completely understand how busy schedules can be. Rather than canceling completely, would you be open to rescheduling?",
-        "What if we could find a time that works better for you? I have some flexibility in our schedule.",
-        "I'd hate for you to lose your place in our schedule. Let me check what other times I have available."
-      ];
-    }
-    
-    if (lowerReason.includes('money') || lowerReason.includes('cost') || lowerReason.includes('afford') || lowerReason.includes('expensive')) {
-      return [
-        "I totally understand - this is a significant decision. That's exactly why our free consultation is so valuable.",
-        "Our Design Consultant specializes in working with different budgets and can show you various options.",
-        "We have financing options that can make projects very manageable. Would you like to explore those?"
-      ];
-    }
-    
-    if (lowerReason.includes('mind') || lowerReason.includes('think') || lowerReason.includes('sure') || lowerReason.includes('ready')) {
-      return [
-        "It's completely normal to have second thoughts about a big project like this.",
-        "Many of our happiest customers initially had some hesitation too.",
-        "The consultation is educational - you'll learn about possibilities you might not have considered."
-      ];
-    }
-    
-    if (lowerReason.includes('spouse') || lowerReason.includes('wife') || lowerReason.includes('husband') || lowerReason.includes('partner')) {
-      return [
-        "It's important that both decision-makers are on the same page.",
-        "Having both of you at the consultation often helps address concerns directly.",
-        "Many times, the hesitant partner becomes the most excited once they see the possibilities!"
-      ];
+  private async searchKnowledgeBase(args: {
+    query: string;
+    category?: string;
+  }, context?: CallContext) {
+    try {
+      const knowledgeBase = getKnowledgeBase(context?.agent?.knowledgeBaseId);
+      const results = await knowledgeBase.searchEntries(args.query, { category: args.category });
+
+      if (results.length === 0) {
+        return {
+          success: true,
+          message: 'No knowledge base entry answers that question. Do not guess - offer to have someone follow up.',
+          data: { results: [] }
+        };
+      }
+
+      return {
+        success: true,
+        message: `Found ${results.length} relevant knowledge base entries`,
+        data: {
+          results: results.map(({ entry, score }) => ({
+            id: entry.id,
+            category: entry.category,
+            question: entry.question,
+            answer: entry.answer,
+            score: Math.round(score * 100) / 100
+          }))
+        }
+      };
+    } catch (error) {
+      logger.error('Error searching knowledge base:', error);
+      return {
+        success: false,
+        message: 'Failed to search knowledge base',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
     }
-    
-    // Default rebuttals
-    return [
-      "I understand your concerns. Let me see what options we have to make this work better for you.",
-      "Before we cancel, would you be open to exploring some alternatives?",
-      "What if we could address your specific concerns? I'd love to help find a solution."
-    ];
   }
 
   /**
-   * End the current phone call
+   * Confirm the entries an answer is grounded in; the call transcript checks
+   * later agent speech against what they say
    */
-  private async endCall(args: {
-    reason: string;
-    callSid?: string;
-  }) {
+  private async citeKnowledge(args: {
+    entryIds: string[];
+    claim?: string;
+  }, context?: CallContext) {
     try {
-      logger.info('Emma ending call', { reason: args.reason, callSid: args.callSid });
-
-      // Import TwilioService dynamically to avoid circular imports
-      const { TwilioService } = await import('./twilio.service');
-
-      if (args.callSid) {
-        // End specific call by SID
-        await TwilioService.endCall(args.callSid);
-        // Release the number from pool
-        TwilioService.releaseNumberOnCallEnd(args.callSid);
-      } else {
-        // If no callSid provided, we'll just log and return success
-        // In a real implementation, you'd get the current call SID from context
-        logger.info('Call ended by Emma - no specific callSid provided');
+      const knowledgeBase = getKnowledgeBase(context?.agent?.knowledgeBaseId);
+      const entries = await Promise.all(args.entryIds.map(id => knowledgeBase.getEntry(id)));
+      const found = entries.filter((entry): entry is NonNullable<typeof entry> => entry !== null);
+      const unknownIds = args.entryIds.filter((_id, i) => !entries[i]);
+
+      if (found.length === 0) {
+        return {
+          success: false,
+          message: 'None of these knowledge base entries exist. Do not state the price or policy - say you do not have that detail and offer a callback.',
+          error: 'unknown_entries'
+        };
+      }
+
+      if (!found.some(entry => knowledgeGroundingService.isGroundedCategory(entry.category))) {
+        return {
+          success: false,
+          message: `None of these entries are ${Object.keys(GROUNDED_CATEGORIES).join(' or ')} entries, so they cannot back a price or policy. Search the knowledge base for the right entry, or say you do not have that detail and offer a callback.`,
+          error: 'ungrounded_entries'
+        };
       }
 
       return {
         success: true,
-        message: `Call ended successfully. Reason: ${args.reason}`,
+        message: 'Citation recorded. Tell the customer only what these entries say.',
         data: {
-          reason: args.reason,
-          callSid: args.callSid,
-          timestamp: new Date().toISOString()
+          entries: found.map(entry => ({ id: entry.id, category: entry.category, answer: entry.answer })),
+          ...(unknownIds.length > 0 ? { unknownIds } : {})
         }
       };
+    } catch (error) {
+      logger.error('Error citing knowledge base entries:', error);
+      return {
+        success: false,
+        message: 'Failed to cite knowledge base entries',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
 
+  /**
+   * Hand the caller to staff; the transfer itself starts once Emma has told
+   * the caller they are being connected
+   */
+  private async transferToHuman(args: {
+    reason: string;
+    summary: string;
+  }, context?: CallContext) {
+    if (!context || context.channel !== 'phone' || !context.callSid) {
+      return {
+        success: false,
+        message: 'Transfers are only possible on phone calls. Offer to have someone from the team call the customer back instead.',
+        error: 'not_a_phone_call'
+      };
+    }
+
+    try {
+      const { transfer, outcome } = await humanTransferService.requestTransfer(context, args);
+
+      if (outcome === 'callback') {
+        return {
+          success: true,
+          message: 'No one from the team can be reached right now. A callback has been requested - tell the customer someone will call them back as soon as possible, then carry on helping or end the call.',
+          data: { transferId: transfer.id, transferPending: false, callbackRequested: true }
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Transfer ready. Briefly tell the customer you are connecting them with a member of the team now, then stop talking.',
+        data: { transferId: transfer.id, transferPending: true }
+      };
     } catch (error) {
-      logger.error('Error ending call:', error);
+      logger.error('Error requesting transfer to human:', error);
       return {
         success: false,
-        message: 'Failed to end call',
+        message: 'Failed to transfer the call. Offer to have someone call the customer back.',
         error: error instanceof Error ? error.message : 'Unknown error'
       };
     }
   }
 
+  /**
+   * Find a caller's appointment. Until the session is verified for it, only
+   * enough to confirm it's the right one is returned - the address and
+   * phone on file are what the caller is asked to prove
+   */
+  private async findCustomerAppointment(args: {
+    customerName: string;
+    phoneNumber?: string;
+    appointmentDate?: string;
+    zipCode?: string;
+    appointmentId?: string;
+  }, request: ToolCallRequest) {
+    const result = await appointmentCancellationToolsService.findCustomerAppointment({
+      ...args,
+      phoneNumber: args.phoneNumber || request.context?.callerNumber
+    });
+    // Full appointments when found by ID, the listed fields plus formattedTime otherwise
+    const appointments: Array<Pick<Appointment, 'id' | 'customerName' | 'scheduledTime' | 'staffName' | 'status'> & { formattedTime?: string }> = result.data?.appointments || [];
+    if (appointments.length === 1) {
+      callContextService.update(request.sessionId, { appointmentId: appointments[0].id });
+    }
+
+    if (!callerVerificationService.enabled || !result.data) {
+      return result;
+    }
+
+    return {
+      ...result,
+      data: {
+        ...result.data,
+        ...(result.data.crmCustomers ? { crmCustomers: result.data.crmCustomers.map((customer: CrmCustomer) => ({ id: customer.id, name: customer.name })) } : {}),
+        appointments: appointments.map(appointment => callerVerificationService.isVerified(request.sessionId, appointment.id)
+          ? appointment
+          : {
+            id: appointment.id,
+            customerName: appointment.customerName,
+            scheduledTime: appointment.scheduledTime,
+            formattedTime: appointment.formattedTime,
+            staffName: appointment.staffName,
+            status: appointment.status,
+            verificationRequired: true
+          })
+      }
+    };
+  }
+
+  /**
+   * End the current phone call
+   */
+  private async endCall(args: {
+    reason: string;
+  }, context?: CallContext) {
+    if (!context) {
+      logger.warn('end_call used outside a tracked call - nothing to hang up', { reason: args.reason });
+      return {
+        success: false,
+        message: 'No active call to end'
+      };
+    }
+
+    // The call's transport hangs up once Emma's goodbye has finished playing:
+    // Twilio media streams end the phone call, web sessions close the socket
+    logger.info('Emma ending call', { reason: args.reason, sessionId: context.sessionId, callSid: context.callSid });
+
+    return {
+      success: true,
+      message: `Call ended successfully. Reason: ${args.reason}`,
+      data: {
+        reason: args.reason,
+        callSid: context.callSid,
+        timestamp: new Date().toISOString()
+      }
+    };
+  }
+
   /**
    * Get retention statistics
    */
@@ -8,6 +8,9 @@ import { config } from '../config';
 import logger from '../utils/logger';
 import { geminiChatRateLimiter } from '../utils/rate-limiter';
 import { EMMA_SYSTEM_PROMPT } from '../config/emma-prompt';
+import { DEFAULT_AGENT_PROFILE } from '../config/agent-profiles';
+import { agentPromptService } from './agent-prompt.service';
+import { PromptVariables } from '../utils/prompt-template';
 
 /**
  * Initialize Gemini AI client
@@ -39,8 +42,15 @@ export class GeminiService {
   private conversations: Map<string, ConversationContext> = new Map();
   private instructions: string;
 
-  constructor(instructions?: string) {
-    this.instructions = instructions || DEFAULT_INSTRUCTIONS;
+  /**
+   * @param variables - Values for {{placeholders}} in the instructions; defaults to the built-in agent
+   */
+  constructor(instructions?: string, variables?: PromptVariables) {
+    this.instructions = agentPromptService.render(
+      instructions || DEFAULT_INSTRUCTIONS,
+      variables || { agentName: DEFAULT_AGENT_PROFILE.name, companyName: DEFAULT_AGENT_PROFILE.companyName },
+      'Gemini instructions'
+    );
     this.model = genAI.getGenerativeModel({ 
       model: config.gemini.model,
       systemInstruction: this.instructions
@@ -0,0 +1,381 @@
+/**
+ * Human Transfer Service
+ * Warm handoff from Emma to a person: the caller waits in a conference while
+ * on-call staff are dialed one after another. Staff hear a whisper summary of
+ * the call and press 1 to join; if nobody takes it the caller leaves a
+ * voicemail and a callback is queued
+ */
+
+import { config } from '../config';
+import logger from '../utils/logger';
+import { formatPhoneForSpeech } from '../utils/phone';
+import type { CallContext } from './call-context.service';
+import { createTransferStore, TransferStore } from './transfer-store.service';
+import { TwilioService } from './twilio.service';
+
+export const TRANSFER_TO_HUMAN_TOOL = 'transfer_to_human';
+
+export type TransferStatus = 'pending' | 'ringing' | 'connected' | 'callback_requested' | 'callback_completed';
+
+export interface TransferAttempt {
+  to: string;
+  callSid?: string; // Staff leg
+  status: 'ringing' | 'accepted' | 'declined' | 'no_answer' | 'failed';
+  startedAt: string;
+  endedAt?: string;
+}
+
+export interface TransferCallback {
+  reason: 'no_answer' | 'no_staff' | 'caller_hung_up' | 'transfer_failed';
+  requestedAt: string;
+  voicemailUrl?: string;
+  voicemailDurationSeconds?: number;
+  completedAt?: string;
+  notes?: string;
+}
+
+export interface HumanTransfer {
+  id: string;
+  callSid?: string; // Caller's call; absent when requested outside a phone call
+  callerNumber?: string;
+  agentId?: string;
+  agentName: string;
+  companyName: string;
+  reason: string;
+  summary: string; // Whispered to staff before they join
+  conferenceName: string;
+  status: TransferStatus;
+  targets: string[];
+  attempts: TransferAttempt[];
+  callback?: TransferCallback;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TransferRequest {
+  reason: string;
+  summary: string;
+}
+
+/**
+ * transferring: Emma says goodbye and the call moves to the conference
+ * callback: nobody can be dialed, so a callback was queued instead
+ */
+export type TransferOutcome = 'transferring' | 'callback';
+
+/**
+ * Telephony operations the transfer needs
+ */
+export interface TransferTelephony {
+  redirectCall(callSid: string, twiml: string): Promise<void>;
+  dial(to: string, answerUrl: string, statusCallbackUrl: string): Promise<string>; // Resolves to the staff call SID
+  hangUp(callSid: string): Promise<void>;
+}
+
+const twilioTelephony: TransferTelephony = {
+  redirectCall: (callSid, twiml) => TwilioService.redirectCall(callSid, twiml),
+  dial: async (to, answerUrl, statusCallbackUrl) => {
+    const call = await TwilioService.placeCall({
+      to,
+      from: config.transfer.callerId,
+      url: answerUrl,
+      statusCallbackUrl,
+      timeoutSeconds: config.transfer.ringTimeoutSeconds,
+    });
+    return call.sid;
+  },
+  hangUp: callSid => TwilioService.endCall(callSid),
+};
+
+const FINAL_CALL_STATUSES = ['completed', 'busy', 'no-answer', 'failed', 'canceled'];
+const ACTIVE_STATUSES: TransferStatus[] = ['pending', 'ringing'];
+
+const HOLD_MESSAGE = 'Please hold while I connect you with a member of our team.';
+const VOICEMAIL_MESSAGE = "Sorry, no one from our team is available right now. Please leave your name and the best time to reach you after the tone, and we'll call you back.";
+
+export class HumanTransferService {
+  private store: TransferStore;
+
+  constructor(
+    store: TransferStore = createTransferStore(),
+    private telephony: TransferTelephony = twilioTelephony,
+    private settings: typeof config.transfer = config.transfer,
+    private publicBaseUrl: string = config.campaigns.publicBaseUrl
+  ) {
+    this.store = store;
+  }
+
+  /**
+   * Called from the transfer_to_human tool. The actual transfer starts once
+   * Emma has finished telling the caller (see startTransfer)
+   */
+  async requestTransfer(context: CallContext, request: TransferRequest): Promise<{ transfer: HumanTransfer; outcome: TransferOutcome }> {
+    const existing = context.callSid ? await this.findActiveTransfer(context.callSid) : null;
+    if (existing) {
+      return { transfer: existing, outcome: 'transferring' };
+    }
+
+    const now = new Date().toISOString();
+    const targets = context.agent?.transferNumbers?.length ? context.agent.transferNumbers : this.settings.numbers;
+    const transfer: HumanTransfer = {
+      id: `transfer-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
+      callSid: context.callSid,
+      callerNumber: context.callerNumber,
+      agentId: context.agent?.id,
+      agentName: context.agent?.name || 'Emma',
+      companyName: context.agent?.companyName || 'our company',
+      reason: request.reason,
+      summary: request.summary,
+      conferenceName: `transfer-${context.callSid || context.sessionId}`,
+      status: 'pending',
+      targets,
+      attempts: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    if (context.channel !== 'phone' || !context.callSid || targets.length === 0 || !this.publicBaseUrl) {
+      logger.warn('Transfer not possible - queuing a callback', {
+        sessionId: context.sessionId,
+        channel: context.channel,
+        targets: targets.length,
+        publicBaseUrl: !!this.publicBaseUrl,
+      });
+      transfer.status = 'callback_requested';
+      transfer.callback = { reason: 'no_staff', requestedAt: now };
+      await this.save(transfer);
+      return { transfer, outcome: 'callback' };
+    }
+
+    await this.save(transfer);
+    logger.info('Transfer to human requested', { transferId: transfer.id, callSid: transfer.callSid, reason: request.reason });
+    return { transfer, outcome: 'transferring' };
+  }
+
+  /**
+   * Move the caller into the conference on hold and start dialing staff
+   */
+  async startTransfer(callSid: string): Promise<HumanTransfer | null> {
+    const transfer = await this.findActiveTransfer(callSid);
+    if (!transfer || transfer.status !== 'pending') return transfer;
+
+    try {
+      await this.telephony.redirectCall(callSid, TwilioService.createConferenceResponse(transfer.conferenceName, {
+        message: HOLD_MESSAGE,
+        startConferenceOnEnter: false, // Hold music until staff join
+        endConferenceOnExit: true,
+      }));
+    } catch (error) {
+      logger.error('Could not move caller into transfer conference', { transferId: transfer.id, callSid, error });
+      transfer.status = 'callback_requested';
+      transfer.callback = { reason: 'transfer_failed', requestedAt: new Date().toISOString() };
+      await this.save(transfer);
+      return transfer;
+    }
+
+    await this.dialNext(transfer);
+    return transfer;
+  }
+
+  /**
+   * Staff answered - whisper the summary and ask them to press 1
+   */
+  async handleStaffAnswer(transferId: string): Promise<string> {
+    const transfer = await this.store.getTransfer(transferId);
+    if (!transfer || transfer.status !== 'ringing') {
+      return TwilioService.createHangupResponse('This call is no longer waiting. Goodbye.');
+    }
+
+    return TwilioService.createGatherResponse(
+      this.buildWhisper(transfer),
+      this.webhookUrl('accept', transfer.id),
+      { numDigits: 1, input: ['dtmf'], timeout: 8 }
+    );
+  }
+
+  /**
+   * Staff pressed a key (or let the whisper time out)
+   */
+  async handleStaffAccept(transferId: string, staffCallSid: string, digits?: string): Promise<string> {
+    const transfer = await this.store.getTransfer(transferId);
+    const attempt = transfer?.attempts.find(a => a.callSid === staffCallSid);
+    if (!transfer || !attempt || transfer.status !== 'ringing') {
+      return TwilioService.createHangupResponse('This call is no longer waiting. Goodbye.');
+    }
+
+    attempt.endedAt = new Date().toISOString();
+    if (digits !== '1') {
+      // The staff leg's completed status moves on to the next number
+      attempt.status = 'declined';
+      await this.save(transfer);
+      return TwilioService.createHangupResponse();
+    }
+
+    attempt.status = 'accepted';
+    transfer.status = 'connected';
+    await this.save(transfer);
+    logger.info('Transfer accepted', { transferId, to: attempt.to });
+
+    return TwilioService.createConferenceResponse(transfer.conferenceName, {
+      startConferenceOnEnter: true,
+      endConferenceOnExit: true,
+    });
+  }
+
+  /**
+   * Status callback for a staff leg - try the next number once one ends unanswered
+   */
+  async handleStaffStatus(transferId: string, staffCallSid: string, callStatus: string): Promise<void> {
+    if (!FINAL_CALL_STATUSES.includes(callStatus)) return;
+
+    const transfer = await this.store.getTransfer(transferId);
+    const attempt = transfer?.attempts.find(a => a.callSid === staffCallSid);
+    if (!transfer || !attempt) return;
+
+    if (attempt.status === 'ringing') {
+      attempt.status = callStatus === 'failed' ? 'failed' : 'no_answer';
+      attempt.endedAt = new Date().toISOString();
+    }
+
+    const isLatest = transfer.attempts[transfer.attempts.length - 1] === attempt;
+    if (transfer.status === 'ringing' && isLatest) {
+      await this.dialNext(transfer);
+    } else {
+      await this.save(transfer);
+    }
+  }
+
+  /**
+   * The caller hung up - stop ringing staff and queue a callback
+   */
+  async handleCallerHangup(callSid: string): Promise<void> {
+    const transfer = await this.findActiveTransfer(callSid);
+    if (!transfer) return;
+
+    const ringing = transfer.attempts.find(a => a.status === 'ringing');
+    if (ringing?.callSid) {
+      ringing.status = 'no_answer';
+      ringing.endedAt = new Date().toISOString();
+      this.telephony.hangUp(ringing.callSid)
+        .catch(error => logger.warn('Could not cancel staff leg', { transferId: transfer.id, error }));
+    }
+
+    transfer.status = 'callback_requested';
+    transfer.callback = { reason: 'caller_hung_up', requestedAt: new Date().toISOString() };
+    await this.save(transfer);
+    logger.info('Caller hung up during transfer - callback queued', { transferId: transfer.id });
+  }
+
+  /**
+   * Voicemail left after nobody answered
+   */
+  async handleVoicemail(transferId: string, recordingUrl?: string, durationSeconds?: number): Promise<string> {
+    const transfer = await this.store.getTransfer(transferId);
+    if (transfer?.callback && recordingUrl) {
+      transfer.callback.voicemailUrl = recordingUrl;
+      transfer.callback.voicemailDurationSeconds = durationSeconds;
+      await this.save(transfer);
+    }
+
+    return TwilioService.createHangupResponse("Thank you. We'll call you back as soon as we can. Goodbye.");
+  }
+
+  async getTransfer(id: string): Promise<HumanTransfer | null> {
+    return this.store.getTransfer(id);
+  }
+
+  /**
+   * Transfers newest first, optionally by status (e.g. callbacks still to make)
+   */
+  async listTransfers(status?: TransferStatus): Promise<HumanTransfer[]> {
+    const transfers = await this.store.listTransfers();
+    return transfers
+      .filter(transfer => !status || transfer.status === status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Mark a queued callback as done; null when there is no open callback
+   */
+  async completeCallback(id: string, notes?: string): Promise<HumanTransfer | null> {
+    const transfer = await this.store.getTransfer(id);
+    if (!transfer?.callback || transfer.status !== 'callback_requested') return null;
+
+    transfer.status = 'callback_completed';
+    transfer.callback.completedAt = new Date().toISOString();
+    if (notes) transfer.callback.notes = notes;
+    await this.save(transfer);
+    return transfer;
+  }
+
+  /**
+   * Ring the next target, or send the caller to voicemail when none are left
+   */
+  private async dialNext(transfer: HumanTransfer): Promise<void> {
+    while (transfer.attempts.length < transfer.targets.length) {
+      const attempt: TransferAttempt = {
+        to: transfer.targets[transfer.attempts.length],
+        status: 'ringing',
+        startedAt: new Date().toISOString(),
+      };
+      transfer.attempts.push(attempt);
+      transfer.status = 'ringing';
+
+      try {
+        attempt.callSid = await this.telephony.dial(
+          attempt.to,
+          this.webhookUrl('answer', transfer.id),
+          this.webhookUrl('status', transfer.id)
+        );
+        await this.save(transfer);
+        logger.info('Dialing staff for transfer', { transferId: transfer.id, to: attempt.to });
+        return;
+      } catch (error) {
+        logger.error('Could not dial transfer target', { transferId: transfer.id, to: attempt.to, error });
+        attempt.status = 'failed';
+        attempt.endedAt = new Date().toISOString();
+      }
+    }
+
+    await this.fallbackToVoicemail(transfer);
+  }
+
+  private async fallbackToVoicemail(transfer: HumanTransfer): Promise<void> {
+    transfer.status = 'callback_requested';
+    transfer.callback = { reason: 'no_answer', requestedAt: new Date().toISOString() };
+    await this.save(transfer);
+    logger.info('Nobody took the transfer - sending caller to voicemail', { transferId: transfer.id });
+
+    try {
+      await this.telephony.redirectCall(transfer.callSid!, TwilioService.createVoicemailResponse(
+        VOICEMAIL_MESSAGE,
+        this.webhookUrl('voicemail', transfer.id),
+        this.settings.voicemailMaxSeconds
+      ));
+    } catch (error) {
+      // Most likely the caller already hung up; the callback is still queued
+      logger.warn('Could not send caller to voicemail', { transferId: transfer.id, error });
+    }
+  }
+
+  private buildWhisper(transfer: HumanTransfer): string {
+    const caller = transfer.callerNumber ? ` Their number is ${formatPhoneForSpeech(transfer.callerNumber)}.` : '';
+    return `Transfer from ${transfer.agentName} at ${transfer.companyName}. Reason: ${transfer.reason}. ${transfer.summary}${caller} Press 1 to take the call.`;
+  }
+
+  private async findActiveTransfer(callSid: string): Promise<HumanTransfer | null> {
+    const transfers = await this.store.listTransfers();
+    return transfers.find(t => t.callSid === callSid && ACTIVE_STATUSES.includes(t.status)) || null;
+  }
+
+  private webhookUrl(step: 'answer' | 'accept' | 'status' | 'voicemail', transferId: string): string {
+    return `${this.publicBaseUrl}/webhooks/twilio/transfer/${step}?transferId=${encodeURIComponent(transferId)}`;
+  }
+
+  private async save(transfer: HumanTransfer): Promise<void> {
+    transfer.updatedAt = new Date().toISOString();
+    await this.store.saveTransfer(transfer);
+  }
+}
+
+export const humanTransferService = new HumanTransferService();
@@ -0,0 +1,114 @@
+/**
+ * Knowledge Grounding Service
+ * Keeps prices and policies tied to the knowledge base: the agent must cite
+ * the entries an answer comes from, and agent speech stating a price or
+ * policy without a matching citation is flagged as unsupported
+ */
+
+import { config } from '../config';
+
+export const CITE_KNOWLEDGE_TOOL = 'cite_knowledge';
+
+/**
+ * Categories whose answers must be cited, with what a claim about them sounds like
+ */
+export const GROUNDED_CATEGORIES: Record<string, RegExp> = {
+  pricing: /\$\s?\d|\d\s?%|\b(dollars?|bucks|percent)\b|\b(price|prices|pricing|costs?|fees?|charges?|discount|deposit|rate)\b.*\d/i,
+  policies: /\b(refund\w*|non-refundable|cancellation fee|late fee|warrant(y|ies)|guarantee[sd]?|polic(y|ies)|\d+\s*(hours?|days?)\s*(notice|in advance|before))\b/i,
+};
+
+// Saying "I don't know" or handing off is exactly what grounding asks for
+const FALLBACK_PATTERN = /\b(don'?t|do not) have (that|those|the|any|specific)|\bnot sure\b|\bcan'?t confirm|\bcannot confirm|call you back|callback|follow up|transfer you|connect you/i;
+
+export interface CitedEntry {
+  id: string;
+  category: string;
+  answer: string;
+}
+
+export interface GroundingClaim {
+  category: string;
+  text: string;
+  supported: boolean;
+  missingFigures?: string[]; // Numbers spoken that no cited entry contains
+}
+
+export interface GroundingCheck {
+  grounded: boolean;
+  claims: GroundingClaim[];
+  citedEntryIds: string[];
+}
+
+export class KnowledgeGroundingService {
+  constructor(private mode: 'strict' | 'off' = config.knowledgeBase.grounding) {}
+
+  get enabled(): boolean {
+    return this.mode === 'strict';
+  }
+
+  isGroundedCategory(category: string): boolean {
+    return category in GROUNDED_CATEGORIES;
+  }
+
+  /**
+   * Instructions added to the agent's prompt; empty when grounding is off
+   */
+  getPromptRules(): string {
+    if (!this.enabled) return '';
+
+    return `KNOWLEDGE GROUNDING:
+- Only state prices, fees, discounts, deposits, refund, cancellation and other policy terms that come from a knowledge base entry. Never estimate them or fill gaps from general knowledge.
+- Before stating a price or policy, call '${CITE_KNOWLEDGE_TOOL}' with the ids of the entries it comes from ('search_knowledge_base' results, or the [id] tags in the knowledge base). Never read the ids aloud.
+- If no entry answers the question, say you don't have that detail and offer to transfer them to the team (or have someone call them back) instead of guessing.`;
+  }
+
+  /**
+   * Check one agent turn against the entries cited so far in the call.
+   * Null when grounding is off or the turn states no price or policy
+   */
+  checkAgentSpeech(text: string, citations: CitedEntry[]): GroundingCheck | null {
+    if (!this.enabled) return null;
+
+    const statements = text
+      .split(/(?<=[.!?])\s+/)
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence && !sentence.endsWith('?') && !FALLBACK_PATTERN.test(sentence));
+
+    const claims: GroundingClaim[] = [];
+
+    statements.forEach(sentence => {
+      const category = Object.keys(GROUNDED_CATEGORIES).find(key => GROUNDED_CATEGORIES[key].test(sentence));
+      if (!category) return;
+
+      // Only entries of the claim's own category can back it - a cited FAQ
+      // entry does not make a price supported
+      const sources = citations.filter(entry => entry.category === category);
+      const citedFigures = new Set(sources.flatMap(entry => extractFigures(entry.answer)));
+      const missingFigures = extractFigures(sentence).filter(figure => !citedFigures.has(figure));
+      const supported = sources.length > 0 && missingFigures.length === 0;
+      claims.push({
+        category,
+        text: sentence,
+        supported,
+        ...(missingFigures.length > 0 ? { missingFigures } : {}),
+      });
+    });
+
+    if (claims.length === 0) return null;
+
+    return {
+      grounded: claims.every(claim => claim.supported),
+      claims,
+      citedEntryIds: Array.from(new Set(citations.map(entry => entry.id))),
+    };
+  }
+}
+
+/**
+ * Numbers in a text, normalized so "$1,500.00" and "1500" compare equal
+ */
+function extractFigures(text: string): string[] {
+  return (text.match(/\d[\d,]*(?:\.\d+)?/g) || []).map(figure => String(parseFloat(figure.replace(/,/g, ''))));
+}
+
+export const knowledgeGroundingService = new KnowledgeGroundingService();
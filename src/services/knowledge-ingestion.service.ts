@@ -0,0 +1,183 @@
+/**
+ * Knowledge Ingestion Service
+ * Turns uploaded Markdown, HTML and PDF documents into knowledge entries:
+ * chunked by section, with keywords and a category derived from the text
+ */
+
+import path from 'path';
+import { config } from '../config';
+import logger from '../utils/logger';
+import { chunkSections, DocumentChunk, ParsedDocument, parseHtml, parseMarkdown, parsePdf } from '../utils/document-text';
+import { extractKeywords, TfIdfIndex } from '../utils/text-search';
+import type { RawKnowledgeEntry } from '../utils/knowledge-formats';
+import { getKnowledgeBase } from './simple-knowledge-base.service';
+import { knowledgeManagementService, KnowledgeImportResult } from './knowledge-management.service';
+
+export type DocumentFormat = 'markdown' | 'html' | 'pdf';
+
+export const DOCUMENT_FORMATS: DocumentFormat[] = ['markdown', 'html', 'pdf'];
+
+export interface DocumentUpload {
+  name: string; // File name; also identifies the document for re-uploads and removal
+  content: Buffer;
+  format?: DocumentFormat; // Detected from the name or content type when omitted
+  contentType?: string;
+  category?: string; // Use one category for every chunk instead of deriving it
+  priority?: number;
+}
+
+export interface DocumentIngestionResult extends KnowledgeImportResult {
+  source?: string;
+  format?: DocumentFormat;
+}
+
+// Below hand-written entries (default 5) so curated answers fill the prompt first
+const DEFAULT_DOCUMENT_PRIORITY = 3;
+const FALLBACK_CATEGORY = 'general';
+const MIN_CATEGORY_SCORE = 0.05;
+
+/**
+ * Words that point a chunk at one of the categories KnowledgePromptBuilder knows
+ */
+const CATEGORY_HINTS: Record<string, string> = {
+  services: 'services service offer offering package packages include includes treatment consultation',
+  pricing: 'price prices pricing cost costs fee fees rate rates payment pay deposit discount financing dollars',
+  hours: 'hours open opening close closing monday tuesday wednesday thursday friday saturday sunday weekend holiday',
+  location: 'location address located directions parking street suite city visit office',
+  policies: 'policy policies cancel cancellation refund refunds reschedule terms warranty guarantee late fee notice',
+  booking: 'book booking appointment appointments schedule scheduling availability reserve slot',
+  preparation: 'prepare preparation before arrive arrival bring wear ready ahead',
+  products: 'product products brand brands materials supplies line',
+  duration: 'duration long minutes hours takes length time',
+};
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.txt': 'markdown',
+  '.html': 'html',
+  '.htm': 'html',
+  '.pdf': 'pdf',
+};
+
+export class KnowledgeIngestionService {
+  /**
+   * Format from the file extension, falling back to the content type
+   */
+  detectFormat(name: string, contentType?: string): DocumentFormat | null {
+    const byExtension = EXTENSION_FORMATS[path.extname(name).toLowerCase()];
+    if (byExtension) return byExtension;
+
+    const type = (contentType || '').toLowerCase();
+    if (type.includes('pdf')) return 'pdf';
+    if (type.includes('html')) return 'html';
+    if (type.includes('markdown') || type.startsWith('text/plain')) return 'markdown';
+    return null;
+  }
+
+  /**
+   * Chunk a document into entries and store them in the knowledge base,
+   * replacing entries from an earlier upload of the same document
+   */
+  async ingestDocument(knowledgeBaseId: string, upload: DocumentUpload): Promise<DocumentIngestionResult> {
+    const source = path.basename(upload.name || '').trim();
+    const total = (await getKnowledgeBase(knowledgeBaseId).getEntries()).length;
+    const fail = (errors: string[]): DocumentIngestionResult => ({
+      success: false,
+      message: 'Document ingestion failed',
+      imported: 0,
+      total,
+      errors,
+    });
+
+    if (!source || source.length > 200) {
+      return fail(['name must be a file name of up to 200 characters']);
+    }
+
+    const format = upload.format || this.detectFormat(source, upload.contentType);
+    if (!format) {
+      return fail([`Could not tell the document format; use one of: ${DOCUMENT_FORMATS.join(', ')}`]);
+    }
+
+    let document: ParsedDocument;
+    try {
+      document = this.parse(format, upload.content);
+    } catch (error) {
+      return fail([error instanceof Error ? error.message : 'Unreadable document']);
+    }
+
+    const chunks = chunkSections(document.sections, Math.max(config.knowledgeBase.chunkWords, 20));
+    if (chunks.length === 0) {
+      return fail(['No text found in document']);
+    }
+
+    const categoryIndex = upload.category ? null : await this.buildCategoryIndex(knowledgeBaseId);
+    const title = document.title || source.replace(/\.[^.]+$/, '');
+    const slug = documentSlug(source);
+
+    const entries: RawKnowledgeEntry[] = chunks.map((chunk, i) => ({
+      id: `${slug}-${String(i + 1).padStart(3, '0')}`,
+      category: upload.category || this.deriveCategory(categoryIndex!, chunk),
+      question: chunkTitle(chunk, title, i),
+      answer: chunk.text,
+      keywords: extractKeywords(`${chunk.heading || ''} ${chunk.heading || ''} ${chunk.text}`),
+      priority: upload.priority ?? DEFAULT_DOCUMENT_PRIORITY,
+    }));
+
+    const result = await knowledgeManagementService.replaceDocumentEntries(knowledgeBaseId, source, entries);
+    if (result.success) {
+      logger.info('Document chunked into knowledge entries', { knowledgeBaseId, source, format, chunks: chunks.length });
+    }
+    return { ...result, source, format };
+  }
+
+  private parse(format: DocumentFormat, content: Buffer): ParsedDocument {
+    if (format === 'pdf') return parsePdf(content);
+    const text = content.toString('utf-8');
+    return format === 'html' ? parseHtml(text) : parseMarkdown(text);
+  }
+
+  /**
+   * One search document per category: the built-in hints plus what the
+   * knowledge base's hand-written entries in that category talk about
+   */
+  private async buildCategoryIndex(knowledgeBaseId: string): Promise<TfIdfIndex> {
+    const texts = new Map(Object.entries(CATEGORY_HINTS).map(([category, hints]) => [category, `${category} ${hints}`]));
+
+    (await getKnowledgeBase(knowledgeBaseId).getEntries())
+      .filter(entry => !entry.source)
+      .forEach(entry => {
+        const text = `${entry.category} ${entry.question} ${entry.keywords.join(' ')}`;
+        texts.set(entry.category, `${texts.get(entry.category) || ''} ${text}`);
+      });
+
+    return new TfIdfIndex(Array.from(texts.entries()).map(([id, text]) => ({ id, text })));
+  }
+
+  private deriveCategory(index: TfIdfIndex, chunk: DocumentChunk): string {
+    // The heading says most about what a chunk covers, so it counts twice
+    const [best] = index.search(`${chunk.heading || ''} ${chunk.heading || ''} ${chunk.text}`, 1);
+    return best && best.score >= MIN_CATEGORY_SCORE ? best.id : FALLBACK_CATEGORY;
+  }
+}
+
+/**
+ * "Refund Policy", "Refund Policy (part 2)", or "<title> (part 3)" for untitled text
+ */
+function chunkTitle(chunk: DocumentChunk, title: string, index: number): string {
+  if (!chunk.heading) return `${title} (part ${index + 1})`;
+  return chunk.parts > 1 ? `${chunk.heading} (part ${chunk.part})` : chunk.heading;
+}
+
+function documentSlug(source: string): string {
+  const slug = source
+    .replace(/\.[^.]+$/, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40)
+    .replace(/-+$/, '');
+  return slug || 'document';
+}
+
+export const knowledgeIngestionService = new KnowledgeIngestionService();
@@ -0,0 +1,467 @@
+/**
+ * Knowledge Management Service
+ * Validated edits, import/export and version history for knowledge bases.
+ * Every change re-indexes search and clears cached prompt knowledge at once
+ */
+
+import logger from '../utils/logger';
+import { extractKeywords } from '../utils/text-search';
+import {
+  entriesFromCsv,
+  entriesFromMarkdown,
+  entriesToCsv,
+  entriesToMarkdown,
+  KnowledgeFormat,
+  RawKnowledgeEntry,
+} from '../utils/knowledge-formats';
+import { getKnowledgeBase, KnowledgeEntry } from './simple-knowledge-base.service';
+import { createKnowledgeVersionStore, KnowledgeVersionStore } from './knowledge-version-store.service';
+
+export interface KnowledgeVersion {
+  knowledgeBaseId: string;
+  version: number;
+  createdAt: string;
+  change: string; // What produced this version, e.g. "Updated kb-002"
+  entryCount: number;
+  entries: KnowledgeEntry[];
+}
+
+export type KnowledgeVersionSummary = Omit<KnowledgeVersion, 'entries'>;
+
+export interface KnowledgeEntryResult {
+  success: boolean;
+  entry: KnowledgeEntry | null;
+  message: string;
+  version?: number;
+  errors?: string[];
+  reason?: 'not_found' | 'invalid' | 'conflict';
+}
+
+export interface KnowledgeImportResult {
+  success: boolean;
+  message: string;
+  imported: number;
+  total: number; // Entries in the knowledge base afterwards
+  version?: number;
+  errors?: string[];
+}
+
+export type KnowledgeImportMode = 'merge' | 'replace';
+
+export interface KnowledgeDocumentSummary {
+  source: string;
+  entryCount: number;
+  categories: string[];
+}
+
+const DEFAULT_PRIORITY = 5;
+const ENTRY_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+export class KnowledgeManagementService {
+  private store: KnowledgeVersionStore;
+  private queues = new Map<string, Promise<unknown>>();
+
+  constructor(store: KnowledgeVersionStore = createKnowledgeVersionStore()) {
+    this.store = store;
+  }
+
+  async listEntries(knowledgeBaseId: string, category?: string): Promise<KnowledgeEntry[]> {
+    const entries = await getKnowledgeBase(knowledgeBaseId).getEntries();
+    return category ? entries.filter(entry => entry.category === category) : entries;
+  }
+
+  async getEntry(knowledgeBaseId: string, id: string): Promise<KnowledgeEntry | null> {
+    return getKnowledgeBase(knowledgeBaseId).getEntry(id);
+  }
+
+  async createEntry(knowledgeBaseId: string, input: RawKnowledgeEntry): Promise<KnowledgeEntryResult> {
+    return this.exclusive(knowledgeBaseId, async () => {
+      const knowledgeBase = getKnowledgeBase(knowledgeBaseId);
+      const existing = await knowledgeBase.getEntries();
+
+      if (input.id !== undefined && existing.some(entry => entry.id === input.id)) {
+        return { success: false, entry: null, message: `Knowledge entry ${input.id} already exists`, reason: 'conflict' as const };
+      }
+
+      const { entry, errors } = validateEntry(input, nextEntryId(existing));
+      if (!entry) {
+        return { success: false, entry: null, message: 'Invalid knowledge entry', errors, reason: 'invalid' as const };
+      }
+
+      await knowledgeBase.addEntry(entry);
+      const version = await this.recordVersion(knowledgeBaseId, `Added ${entry.id}`, existing);
+      return { success: true, entry, message: 'Knowledge entry created', version };
+    });
+  }
+
+  /**
+   * Partial update - omitted fields keep their current values
+   */
+  async updateEntry(knowledgeBaseId: string, id: string, changes: RawKnowledgeEntry): Promise<KnowledgeEntryResult> {
+    return this.exclusive(knowledgeBaseId, async () => {
+      const knowledgeBase = getKnowledgeBase(knowledgeBaseId);
+      const current = await knowledgeBase.getEntry(id);
+      if (!current) {
+        return { success: false, entry: null, message: 'Knowledge entry not found', reason: 'not_found' as const };
+      }
+
+      const previous = await knowledgeBase.getEntries();
+      const { entry, errors } = validateEntry({ ...current, ...changes, id });
+      if (!entry) {
+        return { success: false, entry: null, message: 'Invalid knowledge entry', errors, reason: 'invalid' as const };
+      }
+
+      await knowledgeBase.addEntry(entry);
+      const version = await this.recordVersion(knowledgeBaseId, `Updated ${id}`, previous);
+      return { success: true, entry, message: 'Knowledge entry updated', version };
+    });
+  }
+
+  async deleteEntry(knowledgeBaseId: string, id: string): Promise<KnowledgeEntryResult> {
+    return this.exclusive(knowledgeBaseId, async () => {
+      const knowledgeBase = getKnowledgeBase(knowledgeBaseId);
+      const current = await knowledgeBase.getEntry(id);
+      if (!current) {
+        return { success: false, entry: null, message: 'Knowledge entry not found', reason: 'not_found' as const };
+      }
+
+      const previous = await knowledgeBase.getEntries();
+      await knowledgeBase.deleteEntry(id);
+      const version = await this.recordVersion(knowledgeBaseId, `Deleted ${id}`, previous);
+      return { success: true, entry: current, message: 'Knowledge entry deleted', version };
+    });
+  }
+
+  /**
+   * Import entries from a JSON, CSV or Markdown FAQ document. Nothing is
+   * changed unless every entry is valid
+   */
+  async importEntries(
+    knowledgeBaseId: string,
+    format: KnowledgeFormat,
+    content: unknown,
+    mode: KnowledgeImportMode = 'merge'
+  ): Promise<KnowledgeImportResult> {
+    return this.exclusive(knowledgeBaseId, async () => {
+      const knowledgeBase = getKnowledgeBase(knowledgeBaseId);
+      const previous = await knowledgeBase.getEntries();
+
+      let rawEntries: RawKnowledgeEntry[];
+      try {
+        rawEntries = parseDocument(format, content);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unreadable document';
+        return { success: false, message: 'Import failed', imported: 0, total: previous.length, errors: [message] };
+      }
+      if (rawEntries.length === 0) {
+        return { success: false, message: 'Import failed', imported: 0, total: previous.length, errors: ['No entries found in document'] };
+      }
+
+      const kept = mode === 'replace' ? [] : previous;
+      const { entries, errors } = validateEntries(rawEntries, kept);
+      if (errors.length > 0) {
+        return { success: false, message: 'Import failed', imported: 0, total: previous.length, errors };
+      }
+
+      const merged = new Map(kept.map(entry => [entry.id, entry]));
+      entries.forEach(entry => merged.set(entry.id, entry));
+      await knowledgeBase.replaceEntries(Array.from(merged.values()));
+
+      const version = await this.recordVersion(
+        knowledgeBaseId,
+        `Imported ${entries.length} entries from ${format} (${mode})`,
+        previous
+      );
+      logger.info('Knowledge base imported', { knowledgeBaseId, format, mode, imported: entries.length });
+
+      return {
+        success: true,
+        message: `Imported ${entries.length} knowledge entries`,
+        imported: entries.length,
+        total: merged.size,
+        version,
+      };
+    });
+  }
+
+  /**
+   * Documents that entries were ingested from, with their entry counts
+   */
+  async listDocuments(knowledgeBaseId: string): Promise<KnowledgeDocumentSummary[]> {
+    const documents = new Map<string, KnowledgeDocumentSummary>();
+
+    (await getKnowledgeBase(knowledgeBaseId).getEntries()).forEach(entry => {
+      if (!entry.source) return;
+      const document = documents.get(entry.source) || { source: entry.source, entryCount: 0, categories: [] };
+      document.entryCount++;
+      if (!document.categories.includes(entry.category)) document.categories.push(entry.category);
+      documents.set(entry.source, document);
+    });
+
+    return Array.from(documents.values()).sort((a, b) => a.source.localeCompare(b.source));
+  }
+
+  /**
+   * Swap in a document's entries, replacing any from an earlier upload of it
+   */
+  async replaceDocumentEntries(
+    knowledgeBaseId: string,
+    source: string,
+    rawEntries: RawKnowledgeEntry[]
+  ): Promise<KnowledgeImportResult> {
+    return this.exclusive(knowledgeBaseId, async () => {
+      const knowledgeBase = getKnowledgeBase(knowledgeBaseId);
+      const previous = await knowledgeBase.getEntries();
+      const kept = previous.filter(entry => entry.source !== source);
+
+      const { entries, errors } = validateEntries(rawEntries.map(raw => ({ ...raw, source })), kept);
+      entries
+        .filter(entry => kept.some(existing => existing.id === entry.id))
+        .forEach(entry => errors.push(`Entry ${entry.id} already exists and is not from ${source}`));
+      if (errors.length > 0) {
+        return { success: false, message: 'Document ingestion failed', imported: 0, total: previous.length, errors };
+      }
+
+      await knowledgeBase.replaceEntries([...kept, ...entries]);
+      const replaced = previous.length - kept.length;
+      const version = await this.recordVersion(
+        knowledgeBaseId,
+        `${replaced > 0 ? 'Re-ingested' : 'Ingested'} ${source} (${entries.length} entries)`,
+        previous
+      );
+      logger.info('Knowledge document ingested', { knowledgeBaseId, source, entries: entries.length, replaced });
+
+      return {
+        success: true,
+        message: `Ingested ${entries.length} knowledge entries from ${source}`,
+        imported: entries.length,
+        total: kept.length + entries.length,
+        version,
+      };
+    });
+  }
+
+  /**
+   * Remove every entry ingested from a document; null when there were none
+   */
+  async deleteDocument(knowledgeBaseId: string, source: string): Promise<KnowledgeImportResult | null> {
+    return this.exclusive(knowledgeBaseId, async () => {
+      const knowledgeBase = getKnowledgeBase(knowledgeBaseId);
+      const previous = await knowledgeBase.getEntries();
+      const kept = previous.filter(entry => entry.source !== source);
+      if (kept.length === previous.length) return null;
+
+      await knowledgeBase.replaceEntries(kept);
+      const version = await this.recordVersion(knowledgeBaseId, `Removed ${source}`, previous);
+
+      return {
+        success: true,
+        message: `Removed ${previous.length - kept.length} knowledge entries from ${source}`,
+        imported: 0,
+        total: kept.length,
+        version,
+      };
+    });
+  }
+
+  async exportEntries(knowledgeBaseId: string, format: KnowledgeFormat): Promise<string> {
+    const entries = await getKnowledgeBase(knowledgeBaseId).getEntries();
+
+    if (format === 'csv') return entriesToCsv(entries);
+    if (format === 'markdown') return entriesToMarkdown(entries, `Knowledge Base: ${knowledgeBaseId}`);
+    return JSON.stringify(entries, null, 2);
+  }
+
+  /**
+   * Version history, newest first
+   */
+  async listVersions(knowledgeBaseId: string): Promise<KnowledgeVersionSummary[]> {
+    const versions = await this.store.listVersions(knowledgeBaseId);
+    return versions
+      .sort((a, b) => b.version - a.version)
+      .map(({ entries, ...summary }) => summary);
+  }
+
+  async getVersion(knowledgeBaseId: string, version: number): Promise<KnowledgeVersion | null> {
+    return this.store.getVersion(knowledgeBaseId, version);
+  }
+
+  /**
+   * Roll the knowledge base back to an earlier version (recorded as a new version)
+   */
+  async restoreVersion(knowledgeBaseId: string, version: number): Promise<KnowledgeImportResult | null> {
+    return this.exclusive(knowledgeBaseId, async () => {
+      const snapshot = await this.store.getVersion(knowledgeBaseId, version);
+      if (!snapshot) return null;
+
+      const knowledgeBase = getKnowledgeBase(knowledgeBaseId);
+      const previous = await knowledgeBase.getEntries();
+      await knowledgeBase.replaceEntries(snapshot.entries);
+
+      const newVersion = await this.recordVersion(knowledgeBaseId, `Restored version ${version}`, previous);
+      logger.info('Knowledge base restored', { knowledgeBaseId, version, newVersion });
+
+      return {
+        success: true,
+        message: `Restored version ${version}`,
+        imported: snapshot.entries.length,
+        total: snapshot.entries.length,
+        version: newVersion,
+      };
+    });
+  }
+
+  /**
+   * Pick up hand edits to the knowledge base file
+   */
+  async reload(knowledgeBaseId: string): Promise<number> {
+    return this.exclusive(knowledgeBaseId, () => getKnowledgeBase(knowledgeBaseId).reload());
+  }
+
+  /**
+   * Snapshot the knowledge base after a change. The first change also records
+   * the state before it, so every edit can be rolled back
+   */
+  private async recordVersion(knowledgeBaseId: string, change: string, previous: KnowledgeEntry[]): Promise<number> {
+    const versions = await this.store.listVersions(knowledgeBaseId);
+    let latest = versions.reduce((max, v) => Math.max(max, v.version), 0);
+
+    if (latest === 0) {
+      latest = 1;
+      await this.saveVersion(knowledgeBaseId, latest, 'Initial version', previous);
+    }
+
+    const entries = await getKnowledgeBase(knowledgeBaseId).getEntries();
+    await this.saveVersion(knowledgeBaseId, latest + 1, change, entries);
+    return latest + 1;
+  }
+
+  private async saveVersion(knowledgeBaseId: string, version: number, change: string, entries: KnowledgeEntry[]): Promise<void> {
+    await this.store.saveVersion({
+      knowledgeBaseId,
+      version,
+      createdAt: new Date().toISOString(),
+      change,
+      entryCount: entries.length,
+      entries,
+    });
+  }
+
+  /**
+   * Run changes to one knowledge base one at a time so versions stay in order
+   */
+  private exclusive<T>(knowledgeBaseId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(knowledgeBaseId) || Promise.resolve();
+    const run = previous.then(task, task);
+    this.queues.set(knowledgeBaseId, run.catch(() => undefined));
+    return run;
+  }
+}
+
+/**
+ * Validate and normalize one entry; missing keywords are derived from the question
+ */
+export function validateEntry(
+  raw: RawKnowledgeEntry,
+  defaultId?: string
+): { entry: KnowledgeEntry | null; errors: string[] } {
+  const errors: string[] = [];
+  const text = (field: 'id' | 'category' | 'question' | 'answer') =>
+    typeof raw[field] === 'string' ? (raw[field] as string).trim() : '';
+
+  const id = text('id') || defaultId || '';
+  if (!ENTRY_ID_PATTERN.test(id)) {
+    errors.push('id must be letters, numbers, dashes or underscores');
+  }
+  (['category', 'question', 'answer'] as const).forEach(field => {
+    if (!text(field)) errors.push(`${field} is required`);
+  });
+
+  let keywords: string[] = [];
+  if (raw.keywords !== undefined) {
+    if (!Array.isArray(raw.keywords) || raw.keywords.some(k => typeof k !== 'string' || !k.trim())) {
+      errors.push('keywords must be an array of non-empty strings');
+    } else {
+      keywords = raw.keywords.map(k => (k as string).trim().toLowerCase());
+    }
+  }
+  if (keywords.length === 0) {
+    keywords = extractKeywords(text('question'));
+  }
+
+  const priority = raw.priority === undefined ? DEFAULT_PRIORITY : raw.priority;
+  if (typeof priority !== 'number' || !Number.isInteger(priority) || priority < 1 || priority > 10) {
+    errors.push('priority must be a whole number from 1 to 10');
+  }
+  if (raw.source !== undefined && raw.source !== null && (typeof raw.source !== 'string' || !raw.source.trim())) {
+    errors.push('source must be a document name');
+  }
+
+  if (errors.length > 0) return { entry: null, errors };
+
+  return {
+    entry: {
+      id,
+      category: text('category').toLowerCase(),
+      question: text('question'),
+      answer: text('answer'),
+      keywords: Array.from(new Set(keywords)),
+      priority: priority as number,
+      ...(typeof raw.source === 'string' ? { source: raw.source.trim() } : {}),
+    },
+    errors: [],
+  };
+}
+
+/**
+ * Validate a batch, giving entries without an ID the next free kb-NNN
+ */
+function validateEntries(rawEntries: RawKnowledgeEntry[], existing: KnowledgeEntry[]): { entries: KnowledgeEntry[]; errors: string[] } {
+  const entries: KnowledgeEntry[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  rawEntries.forEach((raw, i) => {
+    const result = validateEntry(raw, nextEntryId([...existing, ...entries]));
+    const label = `Entry ${i + 1}${typeof raw.id === 'string' ? ` (${raw.id})` : ''}`;
+
+    if (!result.entry) {
+      errors.push(...result.errors.map(error => `${label}: ${error}`));
+      return;
+    }
+    if (seen.has(result.entry.id)) {
+      errors.push(`${label}: duplicate id in document`);
+      return;
+    }
+    seen.add(result.entry.id);
+    entries.push(result.entry);
+  });
+
+  return { entries, errors };
+}
+
+function parseDocument(format: KnowledgeFormat, content: unknown): RawKnowledgeEntry[] {
+  if (format === 'json') {
+    const parsed = typeof content === 'string' ? JSON.parse(content) : content;
+    const entries = Array.isArray(parsed) ? parsed : parsed?.entries;
+    if (!Array.isArray(entries)) {
+      throw new Error('JSON must be an array of entries or { "entries": [...] }');
+    }
+    return entries;
+  }
+
+  if (typeof content !== 'string') {
+    throw new Error(`${format} content must be sent as text`);
+  }
+  return format === 'csv' ? entriesFromCsv(content) : entriesFromMarkdown(content);
+}
+
+function nextEntryId(entries: KnowledgeEntry[]): string {
+  const highest = entries.reduce((max, entry) => {
+    const match = entry.id.match(/^kb-(\d+)$/);
+    return match ? Math.max(max, parseInt(match[1], 10)) : max;
+  }, 0);
+  return `kb-${String(highest + 1).padStart(3, '0')}`;
+}
+
+export const knowledgeManagementService = new KnowledgeManagementService();
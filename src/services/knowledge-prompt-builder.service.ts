@@ -4,35 +4,43 @@
  * This approach matches how VAPI and ElevenLabs handle knowledge bases
  */
 
-import fs from 'fs/promises';
-import path from 'path';
+import { config } from '../config';
 import logger from '../utils/logger';
+import { DEFAULT_KNOWLEDGE_BASE_ID, getKnowledgeBase, KnowledgeEntry, knowledgeBaseEvents } from './simple-knowledge-base.service';
+import { knowledgeGroundingService } from './knowledge-grounding.service';
 
-interface KnowledgeEntry {
-  id: string;
-  category: string;
-  question: string;
-  answer: string;
-  keywords: string[];
-  priority: number;
+interface FormattedKnowledge {
+  text: string;
+  omitted: number; // Entries left out to stay within the prompt token budget
 }
 
+// Rough token estimate used for budgeting (see docs/KNOWLEDGE_BASE_TOKEN_LIMITS.md)
+const CHARS_PER_TOKEN = 4;
+
 export class KnowledgePromptBuilder {
-  private static knowledgeCache: string | null = null;
-  private static lastUpdated: Date | null = null;
+  private static knowledgeCache: Map<string, { knowledge: FormattedKnowledge; updatedAt: number }> = new Map();
   private static CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
+  static {
+    // Edits take effect on the next prompt instead of after the cache expires
+    knowledgeBaseEvents.on('updated', (knowledgeBaseId: string) => this.clearCache(knowledgeBaseId));
+  }
+
   /**
    * Build an enhanced prompt with embedded knowledge
    * This is how VAPI and ElevenLabs typically handle knowledge bases
    */
-  static async buildEnhancedPrompt(basePrompt: string): Promise<string> {
-    const knowledge = await this.getFormattedKnowledge();
+  static async buildEnhancedPrompt(basePrompt: string, knowledgeBaseId: string = DEFAULT_KNOWLEDGE_BASE_ID): Promise<string> {
+    const budgetTokens = config.knowledgeBase.promptTokenBudget - Math.ceil(basePrompt.length / CHARS_PER_TOKEN);
+    const knowledge = await this.getFormattedKnowledge(knowledgeBaseId, budgetTokens);
+    const searchNote = knowledge.omitted > 0
+      ? `\n\n${knowledge.omitted} more knowledge base entries are not shown here. Use the 'search_knowledge_base' tool for questions the information above does not answer.`
+      : '';
     
     return `${basePrompt}
 
 COMPANY KNOWLEDGE BASE:
-${knowledge}
+${knowledge.text}${searchNote}
 
 IMPORTANT: Always use the above knowledge base information when answering questions about:
 - Services and pricing
@@ -42,26 +50,34 @@ IMPORTANT: Always use the above knowledge base information when answering questi
 - Products and brands
 - Any other business-specific information
 
-If information is not in the knowledge base above, you may use general knowledge but indicate that you're providing general information.`;
+${this.getFallbackRules()}`;
+  }
+
+  /**
+   * What to do when the knowledge base has no answer
+   */
+  private static getFallbackRules(): string {
+    const rules = knowledgeGroundingService.getPromptRules();
+    if (rules) return rules;
+
+    return "If information is not in the knowledge base above, you may use general knowledge but indicate that you're providing general information.";
   }
 
   /**
    * Get formatted knowledge, using cache if available
+   * Entries are added highest priority first until the token budget is spent
    */
-  private static async getFormattedKnowledge(): Promise<string> {
+  private static async getFormattedKnowledge(knowledgeBaseId: string, budgetTokens: number): Promise<FormattedKnowledge> {
     // Check cache
-    if (this.knowledgeCache && this.lastUpdated) {
-      const age = Date.now() - this.lastUpdated.getTime();
-      if (age < this.CACHE_DURATION) {
-        return this.knowledgeCache;
-      }
+    const cacheKey = `${knowledgeBaseId}:${budgetTokens}`;
+    const cached = this.knowledgeCache.get(cacheKey);
+    if (cached && Date.now() - cached.updatedAt < this.CACHE_DURATION) {
+      return cached.knowledge;
     }
 
     // Load and format knowledge
     try {
-      const knowledgePath = path.join(__dirname, '../../data/knowledge-base.json');
-      const data = await fs.readFile(knowledgePath, 'utf-8');
-      const entries: KnowledgeEntry[] = JSON.parse(data);
+      const entries = await getKnowledgeBase(knowledgeBaseId).getEntries();
       
       // Sort by priority and category
       entries.sort((a, b) => {
@@ -69,23 +85,34 @@ If information is not in the knowledge base above, you may use general knowledge
         return a.category.localeCompare(b.category);
       });
 
+      const budgetChars = Math.max(budgetTokens, 0) * CHARS_PER_TOKEN;
+      let usedChars = 0;
+      const included = entries.filter(entry => {
+        usedChars += entry.answer.length + 3;
+        return usedChars <= budgetChars;
+      });
+
       // Format knowledge by category
-      const categories = this.groupByCategory(entries);
-      const formatted = this.formatCategories(categories);
+      const categories = this.groupByCategory(included);
+      const knowledge: FormattedKnowledge = {
+        text: this.formatCategories(categories) || 'No additional knowledge base available.',
+        omitted: entries.length - included.length,
+      };
       
       // Update cache
-      this.knowledgeCache = formatted;
-      this.lastUpdated = new Date();
+      this.knowledgeCache.set(cacheKey, { knowledge, updatedAt: Date.now() });
       
       logger.info('Knowledge base loaded and cached', {
-        entries: entries.length,
-        size: formatted.length
+        knowledgeBaseId,
+        entries: included.length,
+        omitted: knowledge.omitted,
+        size: knowledge.text.length
       });
       
-      return formatted;
+      return knowledge;
     } catch (error) {
       logger.error('Failed to load knowledge base', { error });
-      return 'No additional knowledge base available.';
+      return { text: 'No additional knowledge base available.', omitted: 0 };
     }
   }
 
@@ -128,14 +155,32 @@ If information is not in the knowledge base above, you may use general knowledge
     categoryOrder.forEach(({ key, name }) => {
       const entries = categories.get(key);
       if (entries && entries.length > 0) {
-        const section = `${name}:\n${entries.map(e => `- ${e.answer}`).join('\n')}`;
+        const section = `${name}:\n${entries.map(e => this.formatEntry(e)).join('\n')}`;
         sections.push(section);
       }
     });
+
+    // Other categories (e.g. from ingested documents) follow in alphabetical order
+    const known = new Set(categoryOrder.map(({ key }) => key));
+    Array.from(categories.keys())
+      .filter(key => !known.has(key))
+      .sort()
+      .forEach(key => {
+        const name = key.replace(/[-_]+/g, ' ').toUpperCase();
+        sections.push(`${name}:\n${categories.get(key)!.map(e => this.formatEntry(e)).join('\n')}`);
+      });
     
     return sections.join('\n\n');
   }
 
+  /**
+   * Entries the agent must cite are tagged with their id
+   */
+  private static formatEntry(entry: KnowledgeEntry): string {
+    const cited = knowledgeGroundingService.enabled && knowledgeGroundingService.isGroundedCategory(entry.category);
+    return cited ? `- [${entry.id}] ${entry.answer}` : `- ${entry.answer}`;
+  }
+
   /**
    * Update knowledge base from uploaded file
    * This is how VAPI/ElevenLabs handle PDF uploads
@@ -147,8 +192,7 @@ If information is not in the knowledge base above, you may use general knowledge
     // 3. Update the knowledge-base.json file
     // 4. Clear the cache
     
-    this.knowledgeCache = null;
-    this.lastUpdated = null;
+    this.knowledgeCache.clear();
     
     logger.info('Knowledge base updated from file', { filePath, fileType });
   }
@@ -156,8 +200,13 @@ If information is not in the knowledge base above, you may use general knowledge
   /**
    * Clear the knowledge cache (useful after updates)
    */
-  static clearCache(): void {
-    this.knowledgeCache = null;
-    this.lastUpdated = null;
+  static clearCache(knowledgeBaseId?: string): void {
+    if (!knowledgeBaseId) {
+      this.knowledgeCache.clear();
+      return;
+    }
+    Array.from(this.knowledgeCache.keys())
+      .filter(key => key.startsWith(`${knowledgeBaseId}:`))
+      .forEach(key => this.knowledgeCache.delete(key));
   }
 }
\ No newline at end of file
@@ -0,0 +1,78 @@
+/**
+ * Knowledge Version Store
+ * Storage backends for knowledge base snapshots
+ */
+
+import path from 'path';
+import { config } from '../config';
+import { JsonFileStore } from '../utils/json-file-store';
+import logger from '../utils/logger';
+import type { KnowledgeVersion } from './knowledge-management.service';
+
+/**
+ * Storage interface used by KnowledgeManagementService
+ */
+export interface KnowledgeVersionStore {
+  listVersions(knowledgeBaseId: string): Promise<KnowledgeVersion[]>;
+  getVersion(knowledgeBaseId: string, version: number): Promise<KnowledgeVersion | null>;
+  saveVersion(version: KnowledgeVersion): Promise<void>;
+}
+
+function versionKey(knowledgeBaseId: string, version: number): string {
+  return `${knowledgeBaseId}:${version}`;
+}
+
+/**
+ * In-memory store - data is lost on restart (used for tests and scripts)
+ */
+export class InMemoryKnowledgeVersionStore implements KnowledgeVersionStore {
+  private versions: Map<string, KnowledgeVersion> = new Map();
+
+  async listVersions(knowledgeBaseId: string): Promise<KnowledgeVersion[]> {
+    return Array.from(this.versions.values()).filter(v => v.knowledgeBaseId === knowledgeBaseId);
+  }
+
+  async getVersion(knowledgeBaseId: string, version: number): Promise<KnowledgeVersion | null> {
+    return this.versions.get(versionKey(knowledgeBaseId, version)) || null;
+  }
+
+  async saveVersion(version: KnowledgeVersion): Promise<void> {
+    this.versions.set(versionKey(version.knowledgeBaseId, version.version), version);
+  }
+}
+
+/**
+ * File-backed store - version history survives restarts
+ */
+export class FileKnowledgeVersionStore implements KnowledgeVersionStore {
+  private versions: JsonFileStore<KnowledgeVersion>;
+
+  constructor(dataDir: string) {
+    this.versions = new JsonFileStore(path.join(dataDir, 'knowledge-versions.json'));
+  }
+
+  async listVersions(knowledgeBaseId: string): Promise<KnowledgeVersion[]> {
+    return (await this.versions.list()).filter(v => v.knowledgeBaseId === knowledgeBaseId);
+  }
+
+  async getVersion(knowledgeBaseId: string, version: number): Promise<KnowledgeVersion | null> {
+    return this.versions.get(versionKey(knowledgeBaseId, version));
+  }
+
+  async saveVersion(version: KnowledgeVersion): Promise<void> {
+    await this.versions.set(versionKey(version.knowledgeBaseId, version.version), version);
+  }
+}
+
+/**
+ * Create the store configured by STORAGE_DRIVER
+ */
+export function createKnowledgeVersionStore(): KnowledgeVersionStore {
+  if (config.storage.driver === 'memory') {
+    logger.info('Using in-memory knowledge version store');
+    return new InMemoryKnowledgeVersionStore();
+  }
+
+  logger.info('Using file-backed knowledge version store', { dataDir: config.storage.dataDir });
+  return new FileKnowledgeVersionStore(config.storage.dataDir);
+}
@@ -0,0 +1,80 @@
+/**
+ * Media Stream Session Service
+ * Ties each Twilio media stream to a call the voice webhook accepted. The
+ * webhook registers the call's parameters and hands Twilio a single-use token
+ * in the TwiML; the stream's start message must present that token for the
+ * same call SID, and the parameters registered by the webhook are used rather
+ * than whatever the socket sends
+ */
+
+import crypto from 'crypto';
+import logger from '../utils/logger';
+
+export type MediaStreamParameters = Record<string, string>;
+
+interface AcceptedStream {
+  token: string;
+  parameters: MediaStreamParameters;
+  expiresAt: number;
+}
+
+const DEFAULT_TOKEN_TTL_MS = 2 * 60 * 1000; // Twilio connects the stream right after the webhook answers
+
+export class MediaStreamSessionService {
+  private accepted = new Map<string, AcceptedStream>(); // By call SID
+
+  constructor(private tokenTtlMs: number = DEFAULT_TOKEN_TTL_MS) {}
+
+  /**
+   * Register a call the voice webhook is connecting to a media stream; returns
+   * the stream parameters for the TwiML, including the token
+   */
+  accept(callSid: string, parameters: Record<string, string | undefined>, now: number = Date.now()): MediaStreamParameters {
+    this.prune(now);
+
+    const defined = Object.fromEntries(
+      Object.entries(parameters).filter((entry): entry is [string, string] => entry[1] !== undefined)
+    );
+    const token = crypto.randomBytes(24).toString('base64url');
+    this.accepted.set(callSid, { token, parameters: defined, expiresAt: now + this.tokenTtlMs });
+
+    return { ...defined, token };
+  }
+
+  /**
+   * Check a stream's start message; returns the parameters the webhook
+   * registered, or null when the call was never accepted, the token is wrong
+   * or has expired. Each token can be claimed once
+   */
+  claim(callSid: string | undefined, token: string | undefined, now: number = Date.now()): MediaStreamParameters | null {
+    const stream = callSid ? this.accepted.get(callSid) : undefined;
+    if (!stream || !token) {
+      logger.warn('Rejected media stream for a call the voice webhook did not accept', { callSid, hasToken: !!token });
+      return null;
+    }
+
+    const expected = Buffer.from(stream.token);
+    const actual = Buffer.from(token);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      logger.warn('Rejected media stream with an invalid token', { callSid });
+      return null;
+    }
+
+    this.accepted.delete(callSid!);
+    if (stream.expiresAt <= now) {
+      logger.warn('Rejected media stream with an expired token', { callSid });
+      return null;
+    }
+    return stream.parameters;
+  }
+
+  private prune(now: number): void {
+    for (const [callSid, stream] of this.accepted) {
+      if (stream.expiresAt <= now) {
+        this.accepted.delete(callSid);
+      }
+    }
+  }
+}
+
+export const mediaStreamSessionService = new MediaStreamSessionService();
@@ -26,6 +26,13 @@ export interface ToolDefinition {
   };
 }
 
+// A completed function call from the model
+export interface FunctionCall {
+  callId: string;
+  name: string;
+  arguments: string; // JSON-encoded arguments
+}
+
 export class OpenAIRealtimeService extends EventEmitter {
   private ws: WebSocket | null = null;
   private apiKey: string;
@@ -34,6 +41,7 @@ export class OpenAIRealtimeService extends EventEmitter {
   private reconnectAttempts: number = 0;
   private maxReconnectAttempts: number = 5;
   private reconnectDelay: number = 1000;
+  private closedByClient: boolean = false;
 
   constructor(apiKey: string, config: RealtimeConfig = {}) {
     super();
@@ -65,6 +73,7 @@ export class OpenAIRealtimeService extends EventEmitter {
           model: this.config.model
         });
 
+        this.closedByClient = false;
         this.ws = new WebSocket(url, { headers });
 
         this.ws.on('open', () => {
@@ -100,7 +109,9 @@ export class OpenAIRealtimeService extends EventEmitter {
           });
           this.isConnected = false;
           this.emit('close', code, reason);
-          this.attemptReconnect();
+          if (!this.closedByClient) {
+            this.attemptReconnect();
+          }
         });
 
       } catch (error) {
@@ -139,7 +150,9 @@ export class OpenAIRealtimeService extends EventEmitter {
             silence_duration_ms: 500,
             create_response: true
           },
-          tools: this.config.tools || [], // Use configured tools
+          // Realtime sessions expect flat function tools ({ type, name, description, parameters })
+          tools: (this.config.tools || []).map(tool => ({ type: tool.type, ...tool.function })),
+          tool_choice: 'auto',
           temperature: this.config.temperature,
           max_response_output_tokens: this.config.maxResponseLength
         }
@@ -157,7 +170,7 @@ export class OpenAIRealtimeService extends EventEmitter {
   /**
    * Send audio input to the API
    */
-  sendAudio(audioData: ArrayBuffer): void {
+  sendAudio(audioData: ArrayBuffer | Uint8Array): void {
     if (!this.isConnected) {
       logger.warn('Cannot send audio - not connected', {
         service: 'openai-realtime'
@@ -219,6 +232,11 @@ export class OpenAIRealtimeService extends EventEmitter {
           this.emit('session.created', message.session);
           break;
 
+        case 'session.updated':
+          // Instructions, voice and tools are now in effect
+          this.emit('session.updated', message.session);
+          break;
+
         case 'response.audio.delta':
           // Audio chunk received
           logger.debug('Audio delta received', {
@@ -228,7 +246,8 @@ export class OpenAIRealtimeService extends EventEmitter {
           const audioData = Buffer.from(message.delta, 'base64');
           this.emit('audio', {
             audio: audioData,
-            isFinal: false
+            isFinal: false,
+            itemId: message.item_id
           });
           break;
 
@@ -267,6 +286,14 @@ export class OpenAIRealtimeService extends EventEmitter {
           });
           break;
 
+        case 'response.audio_transcript.done':
+          // Full transcript of what Emma just said
+          this.emit('response.audio_transcript.done', {
+            transcript: message.transcript,
+            itemId: message.item_id
+          });
+          break;
+
         case 'conversation.item.input_audio_transcription.completed':
           // User speech transcribed
           this.emit('transcription', message.transcript);
@@ -289,18 +316,39 @@ export class OpenAIRealtimeService extends EventEmitter {
           this.emit('response.done', message.response);
           break;
 
+        case 'input_audio_buffer.speech_started':
+          // Caller started talking - used for barge-in
+          this.emit('input_audio_buffer.speech_started', {
+            audioStartMs: message.audio_start_ms,
+            itemId: message.item_id
+          });
+          break;
+
+        case 'input_audio_buffer.speech_stopped':
+          this.emit('input_audio_buffer.speech_stopped', {
+            audioEndMs: message.audio_end_ms,
+            itemId: message.item_id
+          });
+          break;
+
         case 'response.created':
           logger.info('Response created', {
             service: 'openai-realtime'
           });
           break;
         
-        case 'tool_calls.requested':
-          logger.info('Tool calls requested by OpenAI', {
+        case 'response.function_call_arguments.done':
+          // The model finished streaming arguments for a function call
+          logger.info('Function call requested by OpenAI', {
             service: 'openai-realtime',
-            toolCalls: message.tool_calls
+            callId: message.call_id,
+            name: message.name
           });
-          this.emit('tool_calls.requested', message.tool_calls);
+          this.emit('function_call', {
+            callId: message.call_id,
+            name: message.name,
+            arguments: message.arguments
+          } as FunctionCall);
           break;
 
         default:
@@ -371,26 +419,54 @@ export class OpenAIRealtimeService extends EventEmitter {
   }
 
   /**
-   * Send tool call results back to OpenAI
+   * Send a function call result back to OpenAI
+   * Call requestResponse() once all outputs for a response have been sent
    */
-  sendToolResults(toolCallId: string, result: any, isError: boolean = false): void {
+  sendFunctionCallOutput(callId: string, output: any): void {
     if (!this.isConnected) {
-      logger.warn('Cannot send tool results - not connected', {
+      logger.warn('Cannot send function call output - not connected', {
         service: 'openai-realtime'
       });
       return;
     }
 
-    const toolResponseMessage = {
-      type: 'tool_calls.update',
-      tool_call_id: toolCallId,
-      result: isError ? { error: result } : result,
-    };
-    this.send(toolResponseMessage);
-    logger.info('Sent tool results to OpenAI', {
+    this.send({
+      type: 'conversation.item.create',
+      item: {
+        type: 'function_call_output',
+        call_id: callId,
+        output: typeof output === 'string' ? output : JSON.stringify(output)
+      }
+    });
+    logger.info('Sent function call output to OpenAI', {
       service: 'openai-realtime',
-      toolCallId,
-      result: isError ? `Error: ${result}` : 'Success'
+      callId
+    });
+  }
+
+  /**
+   * Ask the model to generate a response (e.g. after function call outputs)
+   */
+  requestResponse(): void {
+    this.send({ type: 'response.create' });
+  }
+
+  /**
+   * Stop the response currently being generated
+   */
+  cancelResponse(): void {
+    this.send({ type: 'response.cancel' });
+  }
+
+  /**
+   * Trim an assistant audio item to what the caller actually heard
+   */
+  truncateItem(itemId: string, audioEndMs: number): void {
+    this.send({
+      type: 'conversation.item.truncate',
+      item_id: itemId,
+      content_index: 0,
+      audio_end_ms: Math.max(0, Math.round(audioEndMs))
     });
   }
 
@@ -399,6 +475,7 @@ export class OpenAIRealtimeService extends EventEmitter {
    */
   disconnect(): void {
     if (this.ws) {
+      this.closedByClient = true;
       this.isConnected = false;
       this.ws.close();
       this.ws = null;
@@ -411,6 +488,13 @@ export class OpenAIRealtimeService extends EventEmitter {
   get connected(): boolean {
     return this.isConnected;
   }
+
+  /**
+   * Model the session runs on, so its usage is priced at that model's rates
+   */
+  get model(): string | undefined {
+    return this.config.model;
+  }
 }
 
 // Helper function to convert audio formats
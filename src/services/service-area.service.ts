@@ -0,0 +1,120 @@
+/**
+ * Service Area Service
+ * Resolves which territories and consultants cover a customer's zip code
+ */
+
+import { SERVICE_TERRITORIES, ServiceTerritory, ZIP_COORDINATES, GeoPoint } from '../config/service-areas';
+import logger from '../utils/logger';
+
+export interface ServiceAreaMatch {
+  zipCode: string;
+  served: boolean;
+  territories: Array<Pick<ServiceTerritory, 'id' | 'name'>>;
+  staffIds: string[];
+}
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+export class ServiceAreaService {
+  constructor(
+    private territories: ServiceTerritory[] = SERVICE_TERRITORIES,
+    private zipCoordinates: Record<string, GeoPoint> = ZIP_COORDINATES
+  ) {}
+
+  /**
+   * Normalize user-provided zip codes (e.g. "02101-1234", " 2101") to 5 digits
+   */
+  normalizeZipCode(zipCode: string): string | null {
+    const digits = (zipCode || '').trim().split('-')[0].replace(/\D/g, '');
+    if (digits.length === 0 || digits.length > 5) return null;
+    return digits.padStart(5, '0');
+  }
+
+  /**
+   * Find every territory that covers a zip code
+   */
+  resolveTerritories(zipCode: string): ServiceTerritory[] {
+    const zip = this.normalizeZipCode(zipCode);
+    if (!zip) return [];
+
+    return this.territories.filter(territory => this.covers(territory, zip));
+  }
+
+  /**
+   * Look up coverage for a zip code
+   */
+  lookup(zipCode: string): ServiceAreaMatch {
+    const zip = this.normalizeZipCode(zipCode) || zipCode;
+    const territories = this.resolveTerritories(zip);
+    const staffIds = Array.from(new Set(territories.flatMap(t => t.staffIds)));
+
+    const match: ServiceAreaMatch = {
+      zipCode: zip,
+      served: staffIds.length > 0,
+      territories: territories.map(t => ({ id: t.id, name: t.name })),
+      staffIds,
+    };
+
+    logger.info('Resolved service area', match);
+
+    return match;
+  }
+
+  /**
+   * Whether any consultant covers the zip code
+   */
+  isServed(zipCode: string): boolean {
+    return this.lookup(zipCode).served;
+  }
+
+  /**
+   * Whether a specific consultant covers the zip code
+   */
+  staffCoversZip(staffId: string, zipCode: string): boolean {
+    return this.lookup(zipCode).staffIds.includes(staffId);
+  }
+
+  private covers(territory: ServiceTerritory, zip: string): boolean {
+    if (territory.excludedZipCodes?.includes(zip)) return false;
+    if (territory.zipCodes?.includes(zip)) return true;
+    if (territory.zipPrefixes?.some(prefix => zip.startsWith(prefix))) return true;
+
+    if (territory.center && territory.radiusMiles) {
+      const point = this.zipCoordinates[zip];
+      if (point && this.distanceMiles(territory.center, point) <= territory.radiusMiles) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Great-circle distance between two points (haversine)
+   */
+  private distanceMiles(a: GeoPoint, b: GeoPoint): number {
+    const toRadians = (deg: number) => (deg * Math.PI) / 180;
+    const dLat = toRadians(b.latitude - a.latitude);
+    const dLon = toRadians(b.longitude - a.longitude);
+    const h = Math.sin(dLat / 2) ** 2 +
+      Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+
+    return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(h));
+  }
+}
+
+export const serviceAreaService = new ServiceAreaService();
+
+/**
+ * Tool response returned when a caller is outside every territory
+ */
+export function outOfServiceAreaResponse(match: ServiceAreaMatch) {
+  return {
+    success: false,
+    message: `We don't currently serve zip code ${match.zipCode}. Let the caller know politely that we have no Design Consultants covering their area, and do not offer or book an appointment.`,
+    data: {
+      outOfServiceArea: true,
+      zipCode: match.zipCode
+    }
+  };
+}
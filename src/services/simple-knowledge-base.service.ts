@@ -1,27 +1,83 @@
 /**
  * Simple Knowledge Base Service
- * A basic implementation that can be enhanced with vector search later
+ * Loads a knowledge base from JSON and ranks entries for a question with
+ * local TF-IDF retrieval (or plain keyword matching)
  */
 
+import { EventEmitter } from 'events';
 import fs from 'fs/promises';
 import path from 'path';
+import { config } from '../config';
 import logger from '../utils/logger';
+import { TfIdfIndex } from '../utils/text-search';
 
-interface KnowledgeEntry {
+export interface KnowledgeEntry {
   id: string;
   category: string;
   question: string;
   answer: string;
   keywords: string[];
-  priority: number;
+  priority: number; // 1-10, higher wins ties and fills prompt budgets first
+  source?: string; // Document the entry was ingested from; hand-written entries have none
+}
+
+export interface KnowledgeSearchOptions {
+  limit?: number;
+  category?: string;
+  mode?: 'tfidf' | 'keyword';
+}
+
+export interface KnowledgeSearchResult {
+  entry: KnowledgeEntry;
+  score: number; // Relevance adjusted for priority
+}
+
+export const DEFAULT_KNOWLEDGE_BASE_ID = 'default';
+
+/**
+ * Emits 'updated' with the knowledge base ID whenever entries change, so
+ * caches built from them (e.g. embedded prompt knowledge) can be dropped
+ */
+export const knowledgeBaseEvents = new EventEmitter();
+
+// How much priority can lift an entry relative to an equally relevant one
+const PRIORITY_WEIGHT = 0.15;
+
+/**
+ * File backing a knowledge base: the default lives at data/knowledge-base.json,
+ * others at data/knowledge-bases/<id>.json
+ */
+export function getKnowledgeBasePath(knowledgeBaseId: string = DEFAULT_KNOWLEDGE_BASE_ID): string {
+  if (knowledgeBaseId === DEFAULT_KNOWLEDGE_BASE_ID) {
+    return path.join(config.knowledgeBase.dir, 'knowledge-base.json');
+  }
+  return path.join(config.knowledgeBase.dir, 'knowledge-bases', `${path.basename(knowledgeBaseId)}.json`);
+}
+
+/**
+ * Whether a knowledge base has been created; the default always exists
+ */
+export async function knowledgeBaseExists(knowledgeBaseId: string): Promise<boolean> {
+  if (knowledgeBaseId === DEFAULT_KNOWLEDGE_BASE_ID) return true;
+  try {
+    await fs.access(getKnowledgeBasePath(knowledgeBaseId));
+    return true;
+  } catch {
+    return false;
+  }
 }
 
 export class SimpleKnowledgeBaseService {
   private knowledgeBase: Map<string, KnowledgeEntry> = new Map();
   private keywordIndex: Map<string, Set<string>> = new Map();
-  
-  constructor() {
-    this.loadKnowledgeBase();
+  private searchIndex = new TfIdfIndex();
+  private loading: Promise<void>;
+
+  constructor(
+    readonly knowledgeBaseId: string = DEFAULT_KNOWLEDGE_BASE_ID,
+    private readonly knowledgePath: string = getKnowledgeBasePath(knowledgeBaseId)
+  ) {
+    this.loading = this.loadKnowledgeBase();
   }
 
   /**
@@ -29,93 +85,99 @@ export class SimpleKnowledgeBaseService {
    */
   private async loadKnowledgeBase() {
     try {
-      const knowledgePath = path.join(__dirname, '../../data/knowledge-base.json');
-      const data = await fs.readFile(knowledgePath, 'utf-8');
+      const data = await fs.readFile(this.knowledgePath, 'utf-8');
       const entries: KnowledgeEntry[] = JSON.parse(data);
-      
-      // Build knowledge base and keyword index
-      entries.forEach(entry => {
-        this.knowledgeBase.set(entry.id, entry);
-        
-        // Index keywords
-        entry.keywords.forEach(keyword => {
-          const normalized = keyword.toLowerCase();
-          if (!this.keywordIndex.has(normalized)) {
-            this.keywordIndex.set(normalized, new Set());
-          }
-          this.keywordIndex.get(normalized)!.add(entry.id);
-        });
-      });
-      
-      logger.info(`Loaded ${entries.length} knowledge base entries`);
+
+      this.knowledgeBase = new Map(entries.map(entry => [entry.id, entry]));
+      this.rebuildIndexes();
+
+      logger.info(`Loaded ${entries.length} knowledge base entries`, { path: this.knowledgePath });
     } catch (error) {
-      logger.warn('No knowledge base file found, starting with empty knowledge base');
+      logger.warn('No knowledge base file found, starting with empty knowledge base', { path: this.knowledgePath });
     }
   }
 
+  /**
+   * Rank entries for a question, best first
+   */
+  async searchEntries(query: string, options: KnowledgeSearchOptions = {}): Promise<KnowledgeSearchResult[]> {
+    await this.loading;
+
+    const limit = options.limit || config.knowledgeBase.topK;
+    const mode = options.mode || config.knowledgeBase.searchMode;
+    const relevance = mode === 'keyword' ? this.keywordScores(query) : this.tfIdfScores(query);
+
+    return Array.from(relevance.entries())
+      .map(([id, score]) => ({ entry: this.knowledgeBase.get(id)!, relevance: score }))
+      .filter(({ entry }) => entry && (!options.category || entry.category === options.category))
+      .map(({ entry, relevance }) => ({
+        entry,
+        score: relevance * (1 - PRIORITY_WEIGHT + PRIORITY_WEIGHT * Math.min(Math.max(entry.priority, 0), 10) / 10),
+      }))
+      .sort((a, b) => b.score - a.score || b.entry.priority - a.entry.priority)
+      .slice(0, limit);
+  }
+
   /**
    * Search knowledge base for relevant information
    */
   async search(query: string): Promise<string> {
-    const normalizedQuery = query.toLowerCase();
-    const words = normalizedQuery.split(/\s+/);
-    
-    // Score each entry based on keyword matches
-    const scores = new Map<string, number>();
-    
-    words.forEach(word => {
-      const entryIds = this.keywordIndex.get(word);
-      if (entryIds) {
-        entryIds.forEach(id => {
-          scores.set(id, (scores.get(id) || 0) + 1);
-        });
-      }
-    });
-    
-    // Sort by score and priority
-    const sortedEntries = Array.from(scores.entries())
-      .sort((a, b) => {
-        const scoreA = a[1];
-        const scoreB = b[1];
-        if (scoreA !== scoreB) return scoreB - scoreA;
-        
-        // If scores are equal, sort by priority
-        const entryA = this.knowledgeBase.get(a[0])!;
-        const entryB = this.knowledgeBase.get(b[0])!;
-        return entryB.priority - entryA.priority;
-      })
-      .slice(0, 3); // Top 3 results
-    
-    // Format results
-    if (sortedEntries.length === 0) {
+    const results = await this.searchEntries(query);
+
+    if (results.length === 0) {
       return "I don't have specific information about that in my knowledge base.";
     }
-    
-    const results = sortedEntries.map(([id]) => {
-      const entry = this.knowledgeBase.get(id)!;
-      return entry.answer;
-    });
-    
-    return results.join('\n\n');
+
+    return results.map(result => result.entry.answer).join('\n\n');
   }
 
   /**
    * Add or update a knowledge entry
    */
   async addEntry(entry: KnowledgeEntry) {
+    await this.loading;
     this.knowledgeBase.set(entry.id, entry);
-    
-    // Update keyword index
-    entry.keywords.forEach(keyword => {
-      const normalized = keyword.toLowerCase();
-      if (!this.keywordIndex.has(normalized)) {
-        this.keywordIndex.set(normalized, new Set());
-      }
-      this.keywordIndex.get(normalized)!.add(entry.id);
-    });
-    
-    // Save to file
-    await this.saveKnowledgeBase();
+    await this.commit();
+  }
+
+  async getEntry(id: string): Promise<KnowledgeEntry | null> {
+    await this.loading;
+    return this.knowledgeBase.get(id) || null;
+  }
+
+  async deleteEntry(id: string): Promise<boolean> {
+    await this.loading;
+    if (!this.knowledgeBase.delete(id)) return false;
+    await this.commit();
+    return true;
+  }
+
+  /**
+   * Replace every entry (imports and version restores)
+   */
+  async replaceEntries(entries: KnowledgeEntry[]) {
+    await this.loading;
+    this.knowledgeBase = new Map(entries.map(entry => [entry.id, entry]));
+    await this.commit();
+  }
+
+  /**
+   * Re-read the file after it was edited by hand
+   */
+  async reload(): Promise<number> {
+    await this.loading;
+    this.loading = this.loadKnowledgeBase();
+    await this.loading;
+    knowledgeBaseEvents.emit('updated', this.knowledgeBaseId);
+    return this.knowledgeBase.size;
+  }
+
+  /**
+   * All entries, highest priority first
+   */
+  async getEntries(): Promise<KnowledgeEntry[]> {
+    await this.loading;
+    return Array.from(this.knowledgeBase.values()).sort((a, b) => b.priority - a.priority);
   }
 
   /**
@@ -123,18 +185,73 @@ export class SimpleKnowledgeBaseService {
    */
   private async saveKnowledgeBase() {
     const entries = Array.from(this.knowledgeBase.values());
-    const knowledgePath = path.join(__dirname, '../../data/knowledge-base.json');
-    
+
     // Ensure directory exists
-    await fs.mkdir(path.dirname(knowledgePath), { recursive: true });
-    
+    await fs.mkdir(path.dirname(this.knowledgePath), { recursive: true });
+
     await fs.writeFile(
-      knowledgePath,
+      this.knowledgePath,
       JSON.stringify(entries, null, 2),
       'utf-8'
     );
   }
 
+  /**
+   * Re-index, persist and tell caches the entries changed
+   */
+  private async commit() {
+    this.rebuildIndexes();
+    await this.saveKnowledgeBase();
+    knowledgeBaseEvents.emit('updated', this.knowledgeBaseId);
+  }
+
+  /**
+   * Cosine similarity between the query and each entry's text
+   */
+  private tfIdfScores(query: string): Map<string, number> {
+    const matches = this.searchIndex.search(query, this.knowledgeBase.size);
+    return new Map(
+      matches
+        .filter(match => match.score >= config.knowledgeBase.minScore)
+        .map(match => [match.id, match.score])
+    );
+  }
+
+  /**
+   * Share of query words that are entry keywords
+   */
+  private keywordScores(query: string): Map<string, number> {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const scores = new Map<string, number>();
+
+    words.forEach(word => {
+      this.keywordIndex.get(word)?.forEach(id => {
+        scores.set(id, (scores.get(id) || 0) + 1 / words.length);
+      });
+    });
+
+    return scores;
+  }
+
+  private rebuildIndexes(): void {
+    this.keywordIndex = new Map();
+    this.knowledgeBase.forEach(entry => {
+      entry.keywords.forEach(keyword => {
+        const normalized = keyword.toLowerCase();
+        if (!this.keywordIndex.has(normalized)) {
+          this.keywordIndex.set(normalized, new Set());
+        }
+        this.keywordIndex.get(normalized)!.add(entry.id);
+      });
+    });
+
+    // Questions and keywords describe what an entry answers, so count them twice
+    this.searchIndex.build(Array.from(this.knowledgeBase.values()).map(entry => ({
+      id: entry.id,
+      text: [entry.question, entry.question, entry.keywords.join(' '), entry.keywords.join(' '), entry.category, entry.answer].join(' '),
+    })));
+  }
+
   /**
    * Get all categories
    */
@@ -160,5 +277,19 @@ export class SimpleKnowledgeBaseService {
   }
 }
 
+const knowledgeBases = new Map<string, SimpleKnowledgeBaseService>();
+
+/**
+ * Shared service for a knowledge base, loaded on first use
+ */
+export function getKnowledgeBase(knowledgeBaseId: string = DEFAULT_KNOWLEDGE_BASE_ID): SimpleKnowledgeBaseService {
+  let knowledgeBase = knowledgeBases.get(knowledgeBaseId);
+  if (!knowledgeBase) {
+    knowledgeBase = new SimpleKnowledgeBaseService(knowledgeBaseId);
+    knowledgeBases.set(knowledgeBaseId, knowledgeBase);
+  }
+  return knowledgeBase;
+}
+
 // Singleton instance
-export const knowledgeBaseService = new SimpleKnowledgeBaseService();
\ No newline at end of file
+export const knowledgeBaseService = getKnowledgeBase();
@@ -0,0 +1,214 @@
+/**
+ * Staff Calendar Service
+ * Computes deterministic consultant availability from working hours,
+ * existing appointments and travel buffers between in-home visits
+ */
+
+import { config } from '../config';
+import { STAFF_ROSTER, StaffMember, WEEKDAYS } from '../config/staff-roster';
+import {
+  addDays,
+  getWeekday,
+  getZonedDateTime,
+  minutesToTime,
+  timeToMinutes,
+  zonedTimeToUtc,
+} from '../utils/time-zone';
+import type { Appointment } from './appointment-management.service';
+
+export interface CalendarSlot {
+  staffId: string;
+  staffName: string;
+  date: string; // YYYY-MM-DD in the consultant's time zone
+  time: string; // HH:mm in the consultant's time zone
+  timeZone: string;
+  start: string; // ISO 8601 UTC
+  end: string; // ISO 8601 UTC
+}
+
+/**
+ * Anything that occupies a consultant's time - booked appointments or slot holds
+ */
+export type CalendarEntry = Pick<Appointment, 'id' | 'staffId' | 'scheduledTime' | 'status'>;
+
+export interface CalendarSettings {
+  timeZone: string;
+  appointmentDurationMinutes: number;
+  bufferMinutes: number;
+  slotIntervalMinutes: number;
+  minimumLeadTimeMinutes: number;
+  defaultSearchDays: number;
+}
+
+export interface AvailabilityOptions {
+  dates?: string[]; // YYYY-MM-DD
+  staffIds?: string[];
+  now?: Date;
+}
+
+/**
+ * Appointment statuses that no longer occupy a consultant's calendar
+ */
+const NON_BLOCKING_STATUSES: Appointment['status'][] = ['cancelled'];
+
+export class StaffCalendarService {
+  constructor(
+    private roster: StaffMember[] = STAFF_ROSTER,
+    private settings: CalendarSettings = config.calendar
+  ) {}
+
+  /**
+   * Get all staff members
+   */
+  getStaff(): StaffMember[] {
+    return this.roster;
+  }
+
+  /**
+   * Get a staff member by ID
+   */
+  getStaffMember(staffId: string): StaffMember | null {
+    return this.roster.find(s => s.id === staffId) || null;
+  }
+
+  /**
+   * Convert a wall-clock date/time in a consultant's time zone to UTC
+   */
+  toUtc(date: string, time: string, staffId?: string): Date {
+    const staff = staffId ? this.getStaffMember(staffId) : null;
+    return zonedTimeToUtc(date, time, staff?.timeZone || this.settings.timeZone);
+  }
+
+  /**
+   * Compute open slots for the requested dates, ordered by start time
+   */
+  getAvailableSlots(appointments: CalendarEntry[], options: AvailabilityOptions = {}): CalendarSlot[] {
+    const now = options.now || new Date();
+    const dates = options.dates && options.dates.length > 0
+      ? options.dates
+      : this.getDefaultDates(now);
+    const staff = options.staffIds
+      ? this.roster.filter(s => options.staffIds!.includes(s.id))
+      : this.roster;
+
+    const slots: CalendarSlot[] = [];
+
+    dates.forEach(date => {
+      staff.forEach(member => {
+        this.getCandidateSlots(member, date).forEach(slot => {
+          if (this.isOpen(slot, appointments, now)) {
+            slots.push(slot);
+          }
+        });
+      });
+    });
+
+    return slots.sort((a, b) => a.start.localeCompare(b.start) || a.staffName.localeCompare(b.staffName));
+  }
+
+  /**
+   * Check whether a consultant can take an appointment starting at the given
+   * time - the same rules as the availability listing: working hours, slot
+   * interval alignment, minimum lead time and conflicts
+   */
+  isSlotAvailable(
+    appointments: CalendarEntry[],
+    staffId: string,
+    scheduledTime: string,
+    excludeAppointmentId?: string,
+    now: Date = new Date()
+  ): boolean {
+    const member = this.getStaffMember(staffId);
+    if (!member) return false;
+
+    const start = new Date(scheduledTime);
+    if (isNaN(start.getTime()) || start.getUTCSeconds() !== 0 || start.getUTCMilliseconds() !== 0) {
+      return false;
+    }
+
+    const { date, time } = getZonedDateTime(start, member.timeZone);
+    const hours = member.workingHours[WEEKDAYS[getWeekday(date)]];
+    if (!hours) return false;
+
+    const startMinutes = timeToMinutes(time);
+    const dayStart = timeToMinutes(hours.start);
+    if (startMinutes < dayStart ||
+        startMinutes + this.settings.appointmentDurationMinutes > timeToMinutes(hours.end) ||
+        (startMinutes - dayStart) % this.settings.slotIntervalMinutes !== 0) {
+      return false;
+    }
+
+    const slot = this.buildSlot(member, date, time);
+    const others = appointments.filter(a => a.id !== excludeAppointmentId);
+    return this.isOpen(slot, others, now);
+  }
+
+  /**
+   * Appointments that overlap a slot once travel buffers are included
+   */
+  findConflicts<T extends CalendarEntry>(slot: Pick<CalendarSlot, 'staffId' | 'start' | 'end'>, appointments: T[]): T[] {
+    const bufferMs = this.settings.bufferMinutes * 60000;
+    const durationMs = this.settings.appointmentDurationMinutes * 60000;
+    const slotStart = new Date(slot.start).getTime();
+    const slotEnd = new Date(slot.end).getTime();
+
+    return appointments.filter(apt => {
+      if (apt.staffId !== slot.staffId || NON_BLOCKING_STATUSES.includes(apt.status)) {
+        return false;
+      }
+      const aptStart = new Date(apt.scheduledTime).getTime();
+      const aptEnd = aptStart + durationMs;
+      return slotStart < aptEnd + bufferMs && aptStart < slotEnd + bufferMs;
+    });
+  }
+
+  /**
+   * Next N calendar days (starting tomorrow) in the business time zone
+   */
+  private getDefaultDates(now: Date): string[] {
+    const today = getZonedDateTime(now, this.settings.timeZone).date;
+    return Array.from({ length: this.settings.defaultSearchDays }, (_, i) => addDays(today, i + 1));
+  }
+
+  /**
+   * All slot start times within a consultant's working hours for a date
+   */
+  private getCandidateSlots(member: StaffMember, date: string): CalendarSlot[] {
+    const hours = member.workingHours[WEEKDAYS[getWeekday(date)]];
+    if (!hours) return [];
+
+    const slots: CalendarSlot[] = [];
+    const lastStart = timeToMinutes(hours.end) - this.settings.appointmentDurationMinutes;
+
+    for (let minutes = timeToMinutes(hours.start); minutes <= lastStart; minutes += this.settings.slotIntervalMinutes) {
+      slots.push(this.buildSlot(member, date, minutesToTime(minutes)));
+    }
+
+    return slots;
+  }
+
+  private buildSlot(member: StaffMember, date: string, time: string): CalendarSlot {
+    const start = zonedTimeToUtc(date, time, member.timeZone);
+    const end = new Date(start.getTime() + this.settings.appointmentDurationMinutes * 60000);
+
+    return {
+      staffId: member.id,
+      staffName: member.name,
+      date,
+      time,
+      timeZone: member.timeZone,
+      start: start.toISOString(),
+      end: end.toISOString(),
+    };
+  }
+
+  private isOpen(slot: CalendarSlot, appointments: CalendarEntry[], now: Date): boolean {
+    const earliestStart = now.getTime() + this.settings.minimumLeadTimeMinutes * 60000;
+    if (new Date(slot.start).getTime() < earliestStart) {
+      return false;
+    }
+    return this.findConflicts(slot, appointments).length === 0;
+  }
+}
+
+export const staffCalendarService = new StaffCalendarService();
@@ -0,0 +1,152 @@
+/**
+ * Tool Registry
+ * Holds tool definitions with their handlers and validates arguments before execution
+ */
+
+import { ToolDefinition } from './openai-realtime.service';
+import type { CallContext } from './call-context.service';
+import { validateSchema, JsonSchema, SchemaValidationError } from '../utils/json-schema-validator';
+import logger from '../utils/logger';
+
+export interface ToolCallRequest {
+  call_id: string;
+  name: string;
+  arguments: any; // Parsed object or the raw JSON string from the model
+  sessionId?: string; // Call/session the tool runs in - owns any slot holds
+  context?: CallContext; // Live call details for the session
+}
+
+export interface ToolCallResponse {
+  call_id: string;
+  output: any;
+}
+
+export type ToolHandler = (args: any, request: ToolCallRequest) => Promise<any> | any;
+
+interface RegisteredTool {
+  definition: ToolDefinition;
+  handler: ToolHandler;
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, RegisteredTool>();
+
+  /**
+   * Register a tool; names must be unique
+   */
+  register(definition: ToolDefinition, handler: ToolHandler): this {
+    const name = definition.function.name;
+    if (this.tools.has(name)) {
+      throw new Error(`Tool already registered: ${name}`);
+    }
+
+    this.tools.set(name, { definition, handler });
+    return this;
+  }
+
+  /**
+   * Remove a tool
+   */
+  unregister(name: string): boolean {
+    return this.tools.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * Definitions for every registered tool, in registration order
+   */
+  getDefinitions(): ToolDefinition[] {
+    return Array.from(this.tools.values()).map(tool => tool.definition);
+  }
+
+  /**
+   * Validate arguments against a tool's parameter schema
+   */
+  validate(name: string, args: unknown): SchemaValidationError[] {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return [{ path: '', keyword: 'tool', message: `Unknown tool: ${name}` }];
+    }
+    return validateSchema(tool.definition.function.parameters as JsonSchema, args);
+  }
+
+  /**
+   * Validate and execute a tool call
+   * Failures are returned as tool output so the model can correct itself
+   */
+  async execute(toolCall: ToolCallRequest): Promise<ToolCallResponse> {
+    const respond = (output: any): ToolCallResponse => ({ call_id: toolCall.call_id, output });
+
+    logger.info('Executing tool call', {
+      toolName: toolCall.name,
+      callId: toolCall.call_id,
+      arguments: toolCall.arguments
+    });
+
+    const tool = this.tools.get(toolCall.name);
+    if (!tool) {
+      logger.warn('Unknown tool requested', { toolName: toolCall.name, callId: toolCall.call_id });
+      return respond({
+        success: false,
+        message: `Unknown tool: ${toolCall.name}`,
+        error: 'unknown_tool'
+      });
+    }
+
+    let args: unknown = toolCall.arguments ?? {};
+    if (typeof args === 'string') {
+      try {
+        args = args.trim() ? JSON.parse(args) : {};
+      } catch (error) {
+        return respond({
+          success: false,
+          message: `Arguments for ${toolCall.name} are not valid JSON. Call the tool again with a JSON object.`,
+          error: 'invalid_arguments',
+          validationErrors: [{ path: '', keyword: 'json', message: error instanceof Error ? error.message : 'Invalid JSON' }]
+        });
+      }
+    }
+
+    const validationErrors = this.validate(toolCall.name, args);
+    if (validationErrors.length > 0) {
+      logger.warn('Tool call arguments failed validation', {
+        toolName: toolCall.name,
+        callId: toolCall.call_id,
+        validationErrors
+      });
+      return respond({
+        success: false,
+        message: `Invalid arguments for ${toolCall.name}: ${validationErrors.map(e => e.message).join('; ')}. Fix these fields and call the tool again.`,
+        error: 'invalid_arguments',
+        validationErrors
+      });
+    }
+
+    try {
+      const result = await tool.handler(args, { ...toolCall, arguments: args });
+
+      logger.info('Tool call executed successfully', {
+        toolName: toolCall.name,
+        callId: toolCall.call_id,
+        success: result?.success
+      });
+
+      return respond(result);
+    } catch (error) {
+      logger.error('Tool call execution failed', {
+        toolName: toolCall.name,
+        callId: toolCall.call_id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return respond({
+        success: false,
+        message: 'Tool execution failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Transfer Store
+ * Storage backends for human transfers and the callbacks they fall back to
+ */
+
+import path from 'path';
+import { config } from '../config';
+import { JsonFileStore } from '../utils/json-file-store';
+import logger from '../utils/logger';
+import type { HumanTransfer } from './human-transfer.service';
+
+/**
+ * Storage interface used by HumanTransferService
+ */
+export interface TransferStore {
+  getTransfer(id: string): Promise<HumanTransfer | null>;
+  listTransfers(): Promise<HumanTransfer[]>;
+  saveTransfer(transfer: HumanTransfer): Promise<void>;
+}
+
+/**
+ * In-memory store - data is lost on restart (used for tests and scripts)
+ */
+export class InMemoryTransferStore implements TransferStore {
+  private transfers: Map<string, HumanTransfer> = new Map();
+
+  async getTransfer(id: string): Promise<HumanTransfer | null> {
+    return this.transfers.get(id) || null;
+  }
+
+  async listTransfers(): Promise<HumanTransfer[]> {
+    return Array.from(this.transfers.values());
+  }
+
+  async saveTransfer(transfer: HumanTransfer): Promise<void> {
+    this.transfers.set(transfer.id, transfer);
+  }
+}
+
+/**
+ * File-backed store - transfers and pending callbacks survive restarts
+ */
+export class FileTransferStore implements TransferStore {
+  private transfers: JsonFileStore<HumanTransfer>;
+
+  constructor(dataDir: string) {
+    this.transfers = new JsonFileStore(path.join(dataDir, 'transfers.json'));
+  }
+
+  async getTransfer(id: string): Promise<HumanTransfer | null> {
+    return this.transfers.get(id);
+  }
+
+  async listTransfers(): Promise<HumanTransfer[]> {
+    return this.transfers.list();
+  }
+
+  async saveTransfer(transfer: HumanTransfer): Promise<void> {
+    await this.transfers.set(transfer.id, transfer);
+  }
+}
+
+/**
+ * Create the store configured by STORAGE_DRIVER
+ */
+export function createTransferStore(): TransferStore {
+  if (config.storage.driver === 'memory') {
+    logger.info('Using in-memory transfer store');
+    return new InMemoryTransferStore();
+  }
+
+  logger.info('Using file-backed transfer store', { dataDir: config.storage.dataDir });
+  return new FileTransferStore(config.storage.dataDir);
+}
@@ -4,6 +4,7 @@
  */
 
 import twilio from 'twilio';
+import axios from 'axios';
 import { config } from '../config';
 import logger from '../utils/logger';
 
@@ -25,8 +26,8 @@ export class TwilioService { // Renamed from TwilioServiceInternal and exported
         this.twilioClientInstance = twilio(config.twilio.accountSid, config.twilio.authToken);
         logger.info('Twilio client initialized successfully');
 
-        if ((config.twilio as any).phoneNumbers) { // Temporary 'as any' until config type is updated
-          this.availableTwilioNumbers = ((config.twilio as any).phoneNumbers as string).split(',').map((num: string) => num.trim()).filter((num: string) => num.length > 0);
+        if (config.twilio.phoneNumbers.length > 0) {
+          this.availableTwilioNumbers = config.twilio.phoneNumbers.filter(num => num.length > 0);
           logger.info(`Loaded ${this.availableTwilioNumbers.length} Twilio numbers for outbound calls.`);
         } else {
           logger.warn('TWILIO_PHONE_NUMBERS not configured in config.twilio.phoneNumbers. Outbound calls using a pool will not work.');
@@ -49,6 +50,13 @@ export class TwilioService { // Renamed from TwilioServiceInternal and exported
     return null;
   }
 
+  /**
+   * Number of pool numbers free for a new outbound call
+   */
+  static getAvailableNumberCount(): number {
+    return this.availableTwilioNumbers.filter(number => !this.numbersInUse.has(number)).length;
+  }
+
   /**
    * Validate Twilio webhook signature
    */
@@ -123,6 +131,26 @@ export class TwilioService { // Renamed from TwilioServiceInternal and exported
     return twiml.toString();
   }
 
+  /**
+   * Create a TwiML response that streams call audio to a WebSocket (<Connect><Stream>)
+   */
+  static createMediaStreamResponse(
+    streamUrl: string,
+    parameters: Record<string, string | undefined> = {}
+  ): string {
+    const twiml = new twilio.twiml.VoiceResponse();
+
+    const connect = twiml.connect();
+    const stream = connect.stream({ url: streamUrl });
+    Object.entries(parameters).forEach(([name, value]) => {
+      if (value !== undefined) {
+        stream.parameter({ name, value });
+      }
+    });
+
+    return twiml.toString();
+  }
+
   /**
    * Create a TwiML response that connects to a conference
    */
@@ -133,9 +161,14 @@ export class TwilioService { // Renamed from TwilioServiceInternal and exported
       startConferenceOnEnter?: boolean;
       endConferenceOnExit?: boolean;
       waitUrl?: string;
+      message?: string; // Spoken before joining
     } = {}
   ): string {
     const twiml = new twilio.twiml.VoiceResponse();
+
+    if (options.message) {
+      twiml.say({ voice: 'alice', language: 'en-US' }, options.message);
+    }
     
     const dial = twiml.dial();
     dial.conference({
@@ -148,6 +181,113 @@ export class TwilioService { // Renamed from TwilioServiceInternal and exported
     return twiml.toString();
   }
 
+  /**
+   * Create a TwiML response that takes a voicemail, posting the recording to actionUrl
+   */
+  static createVoicemailResponse(message: string, actionUrl: string, maxLengthSeconds: number): string {
+    const twiml = new twilio.twiml.VoiceResponse();
+
+    twiml.say({ voice: 'alice', language: 'en-US' }, message);
+    twiml.record({
+      action: actionUrl,
+      method: 'POST',
+      maxLength: maxLengthSeconds,
+      playBeep: true,
+    });
+
+    return twiml.toString();
+  }
+
+  /**
+   * Create a TwiML response that (optionally) speaks and hangs up
+   */
+  static createHangupResponse(message?: string): string {
+    const twiml = new twilio.twiml.VoiceResponse();
+
+    if (message) {
+      twiml.say({ voice: 'alice', language: 'en-US' }, message);
+    }
+    twiml.hangup();
+
+    return twiml.toString();
+  }
+
+  /**
+   * Replace the TwiML a live call is running (e.g. move it into a conference)
+   */
+  static async redirectCall(callSid: string, twiml: string): Promise<void> {
+    if (!this.twilioClientInstance) {
+      throw new Error('Twilio client not initialized - missing credentials');
+    }
+
+    try {
+      await this.twilioClientInstance.calls(callSid).update({ twiml });
+      logger.info('Redirected call', { callSid });
+    } catch (error) {
+      logger.error('Failed to redirect call', { error, callSid });
+      throw error;
+    }
+  }
+
+  /**
+   * Dial a number from a fixed caller ID (not the outbound pool), e.g. staff during a transfer
+   */
+  static async placeCall(params: {
+    to: string;
+    from: string;
+    url: string;
+    statusCallbackUrl: string;
+    timeoutSeconds: number;
+  }): Promise<any> {
+    if (!this.twilioClientInstance) {
+      throw new Error('Twilio client not initialized - missing credentials');
+    }
+
+    try {
+      const call = await this.twilioClientInstance.calls.create({
+        to: params.to,
+        from: params.from,
+        url: params.url,
+        method: 'POST',
+        timeout: params.timeoutSeconds,
+        statusCallback: params.statusCallbackUrl,
+        statusCallbackEvent: ['answered', 'completed'],
+        statusCallbackMethod: 'POST',
+      });
+
+      logger.info('Placed call', { callSid: call.sid, to: params.to, from: params.from });
+      return call;
+    } catch (error) {
+      logger.error('Failed to place call', { error, to: params.to });
+      throw error;
+    }
+  }
+
+  /**
+   * Send a text message, e.g. a verification code
+   */
+  static async sendSms(to: string, from: string, body: string): Promise<string> {
+    if (!this.twilioClientInstance) {
+      throw new Error('Twilio client not initialized - missing credentials');
+    }
+
+    try {
+      const message = await this.twilioClientInstance.messages.create({ to, from, body });
+      logger.info('Sent SMS', { messageSid: message.sid, to });
+      return message.sid;
+    } catch (error) {
+      logger.error('Failed to send SMS', { error, to });
+      throw error;
+    }
+  }
+
+  /**
+   * Whether answering machine detection decided a machine (or fax) picked up
+   */
+  static isMachineAnswer(answeredBy?: string): boolean {
+    return !!answeredBy && (answeredBy.startsWith('machine') || answeredBy === 'fax');
+  }
+
   /**
    * Make an outbound call using an available number from the pool
    */
@@ -155,7 +295,8 @@ export class TwilioService { // Renamed from TwilioServiceInternal and exported
     to: string,
     // from: string, // 'from' is now determined by the pool
     url: string,
-    statusCallbackUrl?: string // Optional: URL for status callbacks
+    statusCallbackUrl?: string, // Optional: URL for status callbacks
+    options: { machineDetection?: boolean } = {}
   ): Promise<any> {
     if (!this.twilioClientInstance) { // Changed TwilioServiceInternal to 'this'
       throw new Error('Twilio client not initialized - missing credentials');
@@ -179,6 +320,12 @@ export class TwilioService { // Renamed from TwilioServiceInternal and exported
         callPayload.statusCallbackEvent = ['initiated', 'ringing', 'answered', 'completed', 'failed', 'canceled', 'no-answer']; // Added more events
         callPayload.statusCallbackMethod = 'POST';
       }
+      if (options.machineDetection ?? config.twilio.machineDetection) {
+        // Twilio waits for the greeting to end before fetching the webhook,
+        // which then carries AnsweredBy (human, machine_end_beep, fax, ...)
+        callPayload.machineDetection = 'DetectMessageEnd';
+        callPayload.machineDetectionTimeout = config.twilio.machineDetectionTimeoutSeconds;
+      }
 
       const call = await this.twilioClientInstance.calls.create(callPayload); // Changed TwilioServiceInternal to 'this'
       
@@ -213,6 +360,47 @@ export class TwilioService { // Renamed from TwilioServiceInternal and exported
     }
   }
 
+  /**
+   * Start a dual-channel recording of a live call (caller and agent on separate channels)
+   */
+  static async startCallRecording(callSid: string, statusCallbackUrl: string): Promise<any> {
+    if (!this.twilioClientInstance) {
+      throw new Error('Twilio client not initialized - missing credentials');
+    }
+
+    try {
+      const recording = await this.twilioClientInstance.calls(callSid).recordings.create({
+        recordingChannels: 'dual',
+        recordingStatusCallback: statusCallbackUrl,
+        recordingStatusCallbackEvent: ['completed'],
+        recordingStatusCallbackMethod: 'POST',
+      });
+
+      logger.info('Started call recording', { callSid, recordingSid: recording.sid });
+      return recording;
+    } catch (error) {
+      logger.error('Failed to start call recording', { error, callSid });
+      throw error;
+    }
+  }
+
+  /**
+   * Download a recording's audio (MP3) as a stream. The URL is built from the
+   * recording SID so the account credentials only ever go to Twilio's API
+   */
+  static async fetchRecordingAudio(recordingSid: string): Promise<NodeJS.ReadableStream> {
+    if (!/^RE[0-9a-f]{32}$/i.test(recordingSid)) {
+      throw new Error('Invalid recording SID');
+    }
+
+    const url = `https://api.twilio.com/2010-04-01/Accounts/${config.twilio.accountSid}/Recordings/${recordingSid}.mp3`;
+    const response = await axios.get(url, {
+      responseType: 'stream',
+      auth: { username: config.twilio.accountSid, password: config.twilio.authToken },
+    });
+    return response.data;
+  }
+
   /**
    * Get call details
    */
@@ -0,0 +1,109 @@
+/**
+ * Audio codec helpers
+ * G.711 mu-law <-> PCM16 conversion and sample rate conversion for phone audio
+ */
+
+const MULAW_BIAS = 0x84;
+const MULAW_CLIP = 32635;
+
+/**
+ * Decode 8-bit mu-law samples to 16-bit linear PCM
+ */
+export function mulawToPcm16(mulaw: Buffer): Int16Array {
+  const pcm = new Int16Array(mulaw.length);
+  for (let i = 0; i < mulaw.length; i++) {
+    pcm[i] = decodeMulawSample(mulaw[i]);
+  }
+  return pcm;
+}
+
+/**
+ * Encode 16-bit linear PCM samples to 8-bit mu-law
+ */
+export function pcm16ToMulaw(pcm: Int16Array): Buffer {
+  const mulaw = Buffer.alloc(pcm.length);
+  for (let i = 0; i < pcm.length; i++) {
+    mulaw[i] = encodeMulawSample(pcm[i]);
+  }
+  return mulaw;
+}
+
+/**
+ * Resample PCM16 audio. Downsampling averages each source window (simple
+ * low-pass), upsampling interpolates linearly between neighbouring samples
+ */
+export function resamplePcm16(samples: Int16Array, fromRate: number, toRate: number): Int16Array {
+  if (fromRate === toRate || samples.length === 0) {
+    return samples;
+  }
+
+  const ratio = fromRate / toRate;
+  const output = new Int16Array(Math.floor(samples.length / ratio));
+
+  if (ratio > 1) {
+    for (let i = 0; i < output.length; i++) {
+      const start = Math.floor(i * ratio);
+      const end = Math.min(Math.floor((i + 1) * ratio), samples.length);
+      let sum = 0;
+      for (let j = start; j < end; j++) {
+        sum += samples[j];
+      }
+      output[i] = Math.round(sum / Math.max(end - start, 1));
+    }
+  } else {
+    for (let i = 0; i < output.length; i++) {
+      const position = i * ratio;
+      const index = Math.floor(position);
+      const next = Math.min(index + 1, samples.length - 1);
+      const fraction = position - index;
+      output[i] = Math.round(samples[index] + (samples[next] - samples[index]) * fraction);
+    }
+  }
+
+  return output;
+}
+
+/**
+ * View little-endian PCM16 bytes as samples (copies when the buffer is unaligned)
+ */
+export function bufferToPcm16(buffer: Buffer): Int16Array {
+  const sampleCount = Math.floor(buffer.length / 2);
+  if (buffer.byteOffset % 2 === 0) {
+    return new Int16Array(buffer.buffer, buffer.byteOffset, sampleCount);
+  }
+  const samples = new Int16Array(sampleCount);
+  for (let i = 0; i < sampleCount; i++) {
+    samples[i] = buffer.readInt16LE(i * 2);
+  }
+  return samples;
+}
+
+/**
+ * Little-endian PCM16 bytes for a set of samples
+ */
+export function pcm16ToBuffer(samples: Int16Array): Buffer {
+  return Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength);
+}
+
+function encodeMulawSample(sample: number): number {
+  const sign = sample < 0 ? 0x80 : 0;
+  let magnitude = Math.min(Math.abs(sample), MULAW_CLIP) + MULAW_BIAS;
+
+  let exponent = 7;
+  for (let mask = 0x4000; (magnitude & mask) === 0 && exponent > 0; mask >>= 1) {
+    exponent--;
+  }
+  const mantissa = (magnitude >> (exponent + 3)) & 0x0f;
+
+  return ~(sign | (exponent << 4) | mantissa) & 0xff;
+}
+
+function decodeMulawSample(value: number): number {
+  const byte = ~value & 0xff;
+  const sign = byte & 0x80;
+  const exponent = (byte >> 4) & 0x07;
+  const mantissa = byte & 0x0f;
+  const magnitude = (((mantissa << 3) + MULAW_BIAS) << exponent) - MULAW_BIAS;
+
+  return sign ? -magnitude : magnitude;
+}
@@ -1,36 +1,13 @@
 /**
  * Cost tracking utility for API usage
  * Tracks costs for Gemini chat and TTS API calls
+ * Rates come from src/config/pricing.ts and every charge is written to the
+ * persisted cost ledger
  */
 
 import logger from './logger';
-
-/**
- * Gemini API pricing (as of 2025)
- * Note: These are example rates - update with actual pricing
- */
-const PRICING = {
-  // Gemini 2.0 Flash pricing per 1M tokens
-  geminiFlash: {
-    input: 0.075,  // $0.075 per 1M input tokens
-    output: 0.30,  // $0.30 per 1M output tokens
-  },
-  // Gemini 2.5 Pro TTS pricing per 1M characters
-  geminiTTS: {
-    characters: 16.00, // $16 per 1M characters
-  },
-  // OpenAI Realtime API (gpt-4o-realtime-preview) pricing
-  // IMPORTANT: Replace these with actual current OpenAI rates
-  openaiRealtime: {
-    inputText: 0.005 / 1000,   // Example: $5 per 1M input text tokens
-    inputAudio: 0.00017 / 60, // Example: $0.00017 per second of audio (approx, needs conversion to tokens or per-second rate)
-                               // OpenAI might bill audio differently (e.g., per second or per audio token)
-                               // For gpt-4o, audio input is $0.0075 / 1M tokens. Let's use token based for now.
-    inputAudioTokens: 0.0075 / 1_000_000, // $7.50 per 1M input audio tokens
-    outputText: 0.015 / 1000,  // Example: $15 per 1M output text tokens
-    outputAudioTokens: 0.015 / 1_000_000, // $15.00 per 1M output audio tokens
-  }
-};
+import { DEFAULT_MODELS } from '../config/pricing';
+import { CostLedgerService, costLedgerService } from '../services/cost-ledger.service';
 
 /**
  * Session cost tracker
@@ -68,6 +45,8 @@ export interface SessionCost {
 export class CostTracker {
   private sessions: Map<string, SessionCost> = new Map();
 
+  constructor(private ledger: CostLedgerService = costLedgerService) {}
+
   /**
    * Start tracking a new session
    */
@@ -105,7 +84,7 @@ export class CostTracker {
    * Track chat API usage
    * Note: Token counting is approximate - use tiktoken for accurate counts
    */
-  trackChatUsage(sessionId: string, input: string, output: string): void {
+  trackChatUsage(sessionId: string, input: string, output: string, model?: string): void {
     const session = this.sessions.get(sessionId);
     if (!session) return;
 
@@ -113,20 +92,18 @@ export class CostTracker {
     const inputTokens = Math.ceil(input.length / 4);
     const outputTokens = Math.ceil(output.length / 4);
 
-    // Calculate costs (convert to cost per token)
-    const inputCost = (inputTokens / 1_000_000) * PRICING.geminiFlash.input;
-    const outputCost = (outputTokens / 1_000_000) * PRICING.geminiFlash.output;
+    const cost = this.ledger.record(sessionId, 'gemini_chat', model, { inputTokens, outputTokens });
 
     session.chatCosts.inputTokens += inputTokens;
     session.chatCosts.outputTokens += outputTokens;
-    session.chatCosts.totalCost += inputCost + outputCost;
-    session.totalCost += inputCost + outputCost;
+    session.chatCosts.totalCost += cost;
+    session.totalCost += cost;
 
     logger.info('Tracked chat usage', {
       sessionId,
       inputTokens,
       outputTokens,
-      cost: inputCost + outputCost,
+      cost,
       totalSessionCost: session.totalCost,
     });
   }
@@ -134,12 +111,12 @@ export class CostTracker {
   /**
    * Track TTS API usage
    */
-  trackTTSUsage(sessionId: string, text: string): void {
+  trackTTSUsage(sessionId: string, text: string, model?: string): void {
     const session = this.sessions.get(sessionId);
     if (!session) return;
 
     const characters = text.length;
-    const cost = (characters / 1_000_000) * PRICING.geminiTTS.characters;
+    const cost = this.ledger.record(sessionId, 'gemini_tts', model, { characters });
 
     session.ttsCosts.characters += characters;
     session.ttsCosts.totalCost += cost;
@@ -156,7 +133,7 @@ export class CostTracker {
   /**
    * Track OpenAI Realtime API usage
    */
-  trackOpenAIRealtimeUsage(sessionId: string, usage: any): void {
+  trackOpenAIRealtimeUsage(sessionId: string, usage: any, model?: string): void {
     const session = this.sessions.get(sessionId);
     if (!session || !usage) return;
 
@@ -179,12 +156,18 @@ export class CostTracker {
     const outputTextTokens = usage.output_token_details?.text_tokens || 0;
     const outputAudioTokens = usage.output_token_details?.audio_tokens || 0;
 
-    const inputTextCost = inputTextTokens * PRICING.openaiRealtime.inputAudioTokens; // Assuming text tokens are priced like audio for simplicity, update if different
-    const inputAudioCost = inputAudioTokens * PRICING.openaiRealtime.inputAudioTokens;
-    const outputTextCost = outputTextTokens * PRICING.openaiRealtime.outputAudioTokens; // Assuming text tokens are priced like audio
-    const outputAudioCost = outputAudioTokens * PRICING.openaiRealtime.outputAudioTokens;
-    
-    const currentTurnCost = inputTextCost + inputAudioCost + outputTextCost + outputAudioCost;
+    const billedModel = model || DEFAULT_MODELS.openai_realtime;
+    const inputTextCost = this.ledger.price('openai_realtime', billedModel, { inputTokens: inputTextTokens });
+    const inputAudioCost = this.ledger.price('openai_realtime', billedModel, { inputAudioTokens });
+    const outputTextCost = this.ledger.price('openai_realtime', billedModel, { outputTokens: outputTextTokens });
+    const outputAudioCost = this.ledger.price('openai_realtime', billedModel, { outputAudioTokens });
+
+    const currentTurnCost = this.ledger.record(sessionId, 'openai_realtime', billedModel, {
+      inputTokens: inputTextTokens,
+      inputAudioTokens,
+      outputTokens: outputTextTokens,
+      outputAudioTokens,
+    });
 
     session.openAICosts.inputTextTokens += inputTextTokens;
     session.openAICosts.inputAudioTokens += inputAudioTokens;
@@ -218,6 +201,8 @@ export class CostTracker {
     if (!session) return null;
 
     session.endTime = new Date();
+    this.ledger.endSession(sessionId)
+      .catch(error => logger.error('Failed to write session to the cost ledger', { sessionId, error }));
     
     logger.info('Session cost summary', {
       sessionId,
@@ -0,0 +1,19 @@
+/**
+ * CSV helpers
+ */
+
+/**
+ * Quote a value when it contains a delimiter, quote or line break
+ */
+export function escapeCsvValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * A header row and data rows as CSV text
+ */
+export function toCsv(header: string[], rows: Array<Array<string | number | undefined>>): string {
+  return [header, ...rows]
+    .map(row => row.map(value => escapeCsvValue(value === undefined ? '' : String(value))).join(','))
+    .join('\n') + '\n';
+}
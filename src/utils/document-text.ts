@@ -0,0 +1,351 @@
+/**
+ * Document text extraction
+ * Turns Markdown, HTML and PDF documents into headed sections of plain text
+ * and splits them into chunks small enough to answer one question each
+ */
+
+import zlib from 'zlib';
+
+export interface DocumentSection {
+  heading?: string;
+  text: string;
+}
+
+export interface ParsedDocument {
+  title?: string;
+  sections: DocumentSection[];
+}
+
+export interface DocumentChunk {
+  heading?: string;
+  text: string;
+  part: number; // 1-based position within its section
+  parts: number;
+}
+
+/**
+ * Sections start at level 1-3 headings; deeper headings stay in the text
+ */
+export function parseMarkdown(markdown: string): ParsedDocument {
+  const sections: DocumentSection[] = [];
+  let title: string | undefined;
+  let heading: string | undefined;
+  let lines: string[] = [];
+
+  const finish = () => {
+    const text = lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+    if (text) sections.push({ heading, text });
+    lines = [];
+  };
+
+  const body = markdown
+    .replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n/, '') // Front matter
+    .replace(/<!--[\s\S]*?-->/g, '');
+
+  body.split(/\r?\n/).forEach(line => {
+    const match = line.match(/^(#{1,3})\s+(.*?)\s*#*$/);
+    if (match) {
+      finish();
+      heading = cleanInline(match[2]);
+      if (match[1].length === 1 && !title) title = heading;
+      return;
+    }
+    if (/^\s*(```|~~~)/.test(line) || /^\s*\|?\s*:?-{3,}/.test(line) || /^\s*([-*_]\s*){3,}$/.test(line)) {
+      return; // Code fences, table separators, horizontal rules
+    }
+
+    const listItem = /^\s*([-*+]|\d+[.)])\s+/.test(line);
+    const text = cleanInline(
+      line
+        .replace(/^#{4,6}\s+/, '')
+        .replace(/^\s*>\s?/, '')
+        .replace(/^\s*([-*+]|\d+[.)])\s+/, '')
+        .replace(/^\s*\|(.*)\|\s*$/, (_row, cells: string) => cells.split('|').map(cell => cell.trim()).join(', '))
+    );
+    // List items become sentences so they still read apart once lines are joined
+    lines.push(listItem && text && !/[.!?:;]$/.test(text) ? `${text}.` : text);
+  });
+  finish();
+
+  return { title, sections };
+}
+
+/**
+ * Converts the page body to Markdown-like text so headings become sections
+ */
+export function parseHtml(html: string): ParsedDocument {
+  const titleMatch = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+
+  const markdown = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(head|script|style|noscript|svg|template|nav)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_tag, level: string, inner: string) => {
+      const text = decodeEntities(stripTags(inner)).replace(/\s+/g, ' ').trim();
+      return Number(level) <= 3 ? `\n\n${'#'.repeat(Number(level))} ${text}\n\n` : `\n\n${text}\n\n`;
+    })
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<\/?(p|div|section|article|main|aside|header|footer|ul|ol|table|tr|blockquote|pre|dl|dt|dd|figure|form)\b[^>]*>/gi, '\n\n')
+    .replace(/<\/t[dh]>/gi, ' ');
+
+  const text = decodeEntities(stripTags(markdown))
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .join('\n');
+
+  const document = parseMarkdown(text);
+  const title = titleMatch ? decodeEntities(stripTags(titleMatch[1])).trim() : undefined;
+  return { title: title || document.title, sections: document.sections };
+}
+
+/**
+ * Text drawn by the PDF's content streams, in drawing order. Scanned pages
+ * and fonts with custom encodings yield little or no text
+ */
+export function parsePdf(data: Buffer): ParsedDocument {
+  const raw = data.toString('latin1');
+  if (!raw.startsWith('%PDF')) {
+    throw new Error('Not a PDF document');
+  }
+  if (/\/Encrypt\s/.test(raw)) {
+    throw new Error('Encrypted PDFs are not supported');
+  }
+
+  const pages: string[] = [];
+  const streamStart = /(?<![A-Za-z])stream\r?\n/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = streamStart.exec(raw)) !== null) {
+    const start = match.index + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end < 0) break;
+    streamStart.lastIndex = end + 'endstream'.length;
+
+    const dictionary = raw.slice(raw.lastIndexOf('obj', match.index), match.index);
+    if (/\/Subtype\s*\/Image|\/Length[123]\b|\/Type\s*\/(XRef|ObjStm|Metadata)/.test(dictionary)) continue;
+
+    const length = dictionary.match(/\/Length\s+(\d+)(?!\s+\d+\s+R)/);
+    let bytes = data.subarray(start, length ? Math.min(start + Number(length[1]), end) : end);
+
+    if (/\/FlateDecode/.test(dictionary)) {
+      try {
+        bytes = zlib.inflateSync(bytes);
+      } catch {
+        continue;
+      }
+    } else if (/\/Filter/.test(dictionary)) {
+      continue; // Other encodings hold images or fonts, not page text
+    }
+
+    const text = contentStreamText(bytes.toString('latin1'));
+    if (text) pages.push(text);
+  }
+
+  const titleMatch = raw.match(/\/Title\s*\(((?:\\.|[^\\)])*)\)/);
+  const title = titleMatch ? unescapePdfString(titleMatch[1]).trim() : undefined;
+
+  return {
+    title: title || undefined,
+    sections: pages.map(text => ({ text })),
+  };
+}
+
+/**
+ * Split sections into one-line chunks of at most maxWords, breaking between
+ * paragraphs (then sentences) where possible
+ */
+export function chunkSections(sections: DocumentSection[], maxWords: number): DocumentChunk[] {
+  return sections.flatMap(section => {
+    const pieces = section.text
+      .split(/\n\s*\n/)
+      .map(paragraph => paragraph.replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+      .flatMap(paragraph => splitToFit(paragraph, maxWords));
+
+    const texts: string[] = [];
+    let current: string[] = [];
+    let words = 0;
+
+    pieces.forEach(piece => {
+      const count = wordCount(piece);
+      if (current.length > 0 && words + count > maxWords) {
+        texts.push(current.join(' '));
+        current = [];
+        words = 0;
+      }
+      current.push(piece);
+      words += count;
+    });
+    if (current.length > 0) texts.push(current.join(' '));
+
+    return texts.map((text, i) => ({ heading: section.heading, text, part: i + 1, parts: texts.length }));
+  });
+}
+
+/**
+ * Break an over-long paragraph at sentence ends, or at word boundaries as a last resort
+ */
+function splitToFit(paragraph: string, maxWords: number): string[] {
+  if (wordCount(paragraph) <= maxWords) return [paragraph];
+
+  const sentences = paragraph.split(/(?<=[.!?])\s+(?=["'(A-Z0-9])/);
+  return sentences.flatMap(sentence => {
+    const words = sentence.split(' ');
+    const parts: string[] = [];
+    for (let i = 0; i < words.length; i += maxWords) {
+      parts.push(words.slice(i, i + maxWords).join(' '));
+    }
+    return parts;
+  });
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Markdown emphasis, links, images and inline code reduced to their text
+ */
+function cleanInline(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(^|[\s(])[*_](\S(?:.*?\S)?)[*_](?=[\s).,!?:;]|$)/g, '$1$2')
+    .replace(/<[^>]+>/g, '')
+    .trim();
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, '');
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '-', mdash: '-',
+  lsquo: "'", rsquo: "'", ldquo: '"', rdquo: '"', hellip: '...', copy: '(c)', reg: '(R)', trade: '(TM)',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) && value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Text shown by the Tj, TJ, ' and " operators; line moves become newlines
+ */
+function contentStreamText(content: string): string {
+  if (!/\bBT\b/.test(content)) return '';
+
+  let text = '';
+  let operands: (string | number | (string | number)[])[] = [];
+  let array: (string | number)[] | null = null;
+  let i = 0;
+
+  const push = (value: string | number) => {
+    if (array) array.push(value);
+    else operands.push(value);
+  };
+  const newline = () => {
+    if (text && !text.endsWith('\n')) text += '\n';
+  };
+
+  while (i < content.length) {
+    const char = content[i];
+
+    if (char === '(') {
+      let depth = 1;
+      let value = '';
+      i++;
+      while (i < content.length && depth > 0) {
+        const c = content[i];
+        if (c === '\\') {
+          value += c + (content[i + 1] ?? '');
+          i += 2;
+          continue;
+        }
+        if (c === '(') depth++;
+        if (c === ')') depth--;
+        if (depth > 0) value += c;
+        i++;
+      }
+      push(unescapePdfString(value));
+    } else if (char === '<' && content[i + 1] !== '<') {
+      const end = content.indexOf('>', i);
+      push(decodeHexString(content.slice(i + 1, end < 0 ? content.length : end)));
+      i = end < 0 ? content.length : end + 1;
+    } else if (char === '[') {
+      array = [];
+      i++;
+    } else if (char === ']') {
+      if (array) operands.push(array);
+      array = null;
+      i++;
+    } else if (char === '%') {
+      while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++;
+    } else if (/[-+.\d]/.test(char)) {
+      const number = content.slice(i).match(/^[-+]?(\d+\.?\d*|\.\d+)/);
+      push(number ? Number(number[0]) : 0);
+      i += number ? number[0].length : 1;
+    } else if (char === '/') {
+      const name = content.slice(i).match(/^\/[^\s/<>[\]()%]*/);
+      i += name ? name[0].length : 1;
+    } else if (/[A-Za-z'"*]/.test(char)) {
+      const operator = content.slice(i).match(/^[A-Za-z'"*]+/)![0];
+      i += operator.length;
+
+      if (operator === 'Tj' || operator === "'" || operator === '"') {
+        if (operator !== 'Tj') newline();
+        const value = operands[operands.length - 1];
+        if (typeof value === 'string') text += value;
+      } else if (operator === 'TJ') {
+        const value = operands[operands.length - 1];
+        if (Array.isArray(value)) {
+          value.forEach(part => {
+            if (typeof part === 'string') text += part;
+            else if (part < -200 && !text.endsWith(' ')) text += ' '; // Large kerning gaps separate words
+          });
+        }
+      } else if (operator === 'Td' || operator === 'TD') {
+        const y = operands[operands.length - 1];
+        if (typeof y === 'number' && y !== 0) newline();
+        else if (text && !/\s$/.test(text)) text += ' ';
+      } else if (operator === 'T*' || operator === 'Tm' || operator === 'ET') {
+        newline();
+      }
+      operands = [];
+    } else {
+      i++;
+    }
+  }
+
+  return text
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+function unescapePdfString(value: string): string {
+  const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '', f: '', '(': '(', ')': ')', '\\': '\\' };
+  return value.replace(/\\(\r\n|[\r\n]|[0-7]{1,3}|.)/g, (_match, code: string) => {
+    if (/^[\r\n]/.test(code)) return '';
+    if (/^[0-7]+$/.test(code)) return String.fromCharCode(parseInt(code, 8));
+    return escapes[code] ?? code;
+  });
+}
+
+/**
+ * Hex strings are kept only when they hold plain single-byte text
+ */
+function decodeHexString(hex: string): string {
+  const digits = hex.replace(/[^0-9a-f]/gi, '');
+  const bytes = (digits.length % 2 ? `${digits}0` : digits).match(/../g) || [];
+  const text = bytes.map(byte => String.fromCharCode(parseInt(byte, 16))).join('');
+  return /^[\x20-\x7e\xa0-\xff]*$/.test(text) ? text : '';
+}
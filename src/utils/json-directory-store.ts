@@ -0,0 +1,104 @@
+/**
+ * JSON directory store utility
+ * Persists keyed records as one JSON file each, so a write costs one record
+ * rather than the whole collection and nothing is held in memory
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import logger from './logger';
+
+export class JsonDirectoryStore<T> {
+  private writeQueues: Map<string, Promise<void>> = new Map();
+
+  constructor(private readonly dirPath: string) {}
+
+  /**
+   * Get a record by key
+   */
+  async get(key: string): Promise<T | null> {
+    return this.readFile(this.filePath(key));
+  }
+
+  /**
+   * List all records
+   */
+  async list(): Promise<T[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dirPath);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    // One unreadable record is reported and skipped rather than hiding the rest
+    const records: Array<T | null> = await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(file => this.readFile(path.join(this.dirPath, file)).catch((error): T | null => {
+          logger.error('Skipping unreadable JSON record', { error: error instanceof Error ? error.message : error });
+          return null;
+        }))
+    );
+    return records.filter((record): record is T => record !== null);
+  }
+
+  /**
+   * Insert or replace a record. Writes go to a temp file that is renamed into
+   * place, chained per key so concurrent updates never interleave on disk
+   */
+  set(key: string, value: T): Promise<void> {
+    const filePath = this.filePath(key);
+    const data = JSON.stringify(value, null, 2);
+    const write = async () => {
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      await fs.mkdir(this.dirPath, { recursive: true });
+      await fs.writeFile(tmpPath, data, 'utf-8');
+      await fs.rename(tmpPath, filePath);
+    };
+
+    const queued = (this.writeQueues.get(key) || Promise.resolve()).then(write, write);
+    this.writeQueues.set(key, queued);
+    queued.finally(() => {
+      if (this.writeQueues.get(key) === queued) this.writeQueues.delete(key);
+    }).catch(() => undefined);
+    return queued;
+  }
+
+  /**
+   * Delete a record
+   */
+  async delete(key: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.filePath(key));
+      return true;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.dirPath, `${encodeURIComponent(key)}.json`);
+  }
+
+  /**
+   * A missing file is no record; a corrupt one is an error, not an empty record
+   */
+  private async readFile(filePath: string): Promise<T | null> {
+    let data: string;
+    try {
+      data = await fs.readFile(filePath, 'utf-8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+
+    try {
+      return JSON.parse(data);
+    } catch (error) {
+      throw new Error(`Corrupt JSON record ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
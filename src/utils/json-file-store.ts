@@ -0,0 +1,147 @@
+/**
+ * JSON file store utility
+ * Persists keyed records to a single JSON file with serialized, atomic writes
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import logger from './logger';
+
+export class JsonFileStore<T> {
+  private records: Map<string, T> | null = null;
+  private loading: Promise<Map<string, T>> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Get a record by key
+   */
+  async get(key: string): Promise<T | null> {
+    const records = await this.load();
+    return records.get(key) ?? null;
+  }
+
+  /**
+   * List all records
+   */
+  async list(): Promise<T[]> {
+    const records = await this.load();
+    return Array.from(records.values());
+  }
+
+  /**
+   * List all records with their keys
+   */
+  async entries(): Promise<Array<[string, T]>> {
+    const records = await this.load();
+    return Array.from(records.entries());
+  }
+
+  /**
+   * Insert or replace a record and persist the file
+   */
+  async set(key: string, value: T): Promise<void> {
+    const records = await this.load();
+    records.set(key, value);
+    await this.persist();
+  }
+
+  /**
+   * Insert or replace several records with a single write
+   */
+  async setMany(items: Array<[string, T]>): Promise<void> {
+    if (items.length === 0) return;
+    const records = await this.load();
+    items.forEach(([key, value]) => records.set(key, value));
+    await this.persist();
+  }
+
+  /**
+   * Delete a record and persist the file
+   */
+  async delete(key: string): Promise<boolean> {
+    const records = await this.load();
+    const existed = records.delete(key);
+    if (existed) {
+      await this.persist();
+    }
+    return existed;
+  }
+
+  /**
+   * Number of stored records
+   */
+  async size(): Promise<number> {
+    const records = await this.load();
+    return records.size;
+  }
+
+  /**
+   * Load records from disk once, sharing the in-flight read between callers
+   */
+  private async load(): Promise<Map<string, T>> {
+    if (this.records) return this.records;
+    if (!this.loading) {
+      this.loading = this.readFile().then(
+        records => {
+          this.records = records;
+          return records;
+        },
+        error => {
+          // Let the next call retry rather than caching the failure
+          this.loading = null;
+          throw error;
+        }
+      );
+    }
+    return this.loading;
+  }
+
+  /**
+   * A missing file is an empty store. Any other failure (corrupt JSON,
+   * permissions) is thrown - starting empty would overwrite the file on the
+   * next write and lose every record in it
+   */
+  private async readFile(): Promise<Map<string, T>> {
+    let data: string;
+    try {
+      data = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return new Map();
+      logger.error('Failed to read JSON store', {
+        filePath: this.filePath,
+        error: error instanceof Error ? error.message : error
+      });
+      throw error;
+    }
+
+    try {
+      const parsed: Record<string, T> = JSON.parse(data);
+      return new Map(Object.entries(parsed));
+    } catch (error) {
+      logger.error('JSON store file is corrupt - refusing to load it', {
+        filePath: this.filePath,
+        error: error instanceof Error ? error.message : error
+      });
+      throw new Error(`Corrupt JSON store file ${this.filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Write the current records to a temp file and rename it into place.
+   * Writes are chained so concurrent updates never interleave on disk.
+   */
+  private persist(): Promise<void> {
+    const write = async () => {
+      const records = this.records ?? new Map<string, T>();
+      const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tmpPath, JSON.stringify(Object.fromEntries(records), null, 2), 'utf-8');
+      await fs.rename(tmpPath, this.filePath);
+    };
+
+    this.writeQueue = this.writeQueue.then(write, write);
+    return this.writeQueue;
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Minimal JSON Schema validator
+ * Covers the subset of keywords used by tool parameter schemas
+ */
+
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  format?: string;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  default?: unknown;
+}
+
+export interface SchemaValidationError {
+  path: string; // e.g. "preferredDates[1]" - empty for the root value
+  keyword: string; // Schema keyword that failed (type, required, enum, ...)
+  message: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const FORMAT_CHECKS: Record<string, (value: string) => boolean> = {
+  'date': value => DATE_PATTERN.test(value) && !isNaN(Date.parse(`${value}T00:00:00Z`)),
+  'date-time': value => DATE_TIME_PATTERN.test(value) && !isNaN(Date.parse(value)),
+  'email': value => EMAIL_PATTERN.test(value),
+};
+
+/**
+ * Validate a value against a schema, returning every violation found
+ */
+export function validateSchema(schema: JsonSchema, value: unknown, path: string = ''): SchemaValidationError[] {
+  const errors: SchemaValidationError[] = [];
+  const fail = (keyword: string, message: string) => errors.push({ path, keyword, message });
+  const label = path || 'value';
+
+  if (schema.type && !matchesType(schema.type, value)) {
+    fail('type', `${label} must be ${article(schema.type)} ${schema.type}`);
+    return errors;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    fail('enum', `${label} must be one of: ${schema.enum.join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail('minLength', `${label} must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail('maxLength', `${label} must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      fail('pattern', `${label} does not match the expected format (${schema.pattern})`);
+    }
+    const checkFormat = schema.format ? FORMAT_CHECKS[schema.format] : undefined;
+    if (checkFormat && !checkFormat(value)) {
+      fail('format', `${label} must be a valid ${schema.format}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail('minimum', `${label} must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail('maximum', `${label} must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail('minItems', `${label} must contain at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail('maxItems', `${label} must contain at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validateSchema(schema.items!, item, `${path}[${i}]`)));
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const properties = schema.properties || {};
+
+    (schema.required || []).forEach(key => {
+      if (value[key] === undefined) {
+        errors.push({ path: joinPath(path, key), keyword: 'required', message: `${joinPath(path, key)} is required` });
+      }
+    });
+
+    Object.entries(value).forEach(([key, propValue]) => {
+      const propPath = joinPath(path, key);
+      if (properties[key]) {
+        errors.push(...validateSchema(properties[key], propValue, propPath));
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: propPath, keyword: 'additionalProperties', message: `${propPath} is not an allowed property` });
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateSchema(schema.additionalProperties, propValue, propPath));
+      }
+    });
+  }
+
+  return errors;
+}
+
+function matchesType(type: NonNullable<JsonSchema['type']>, value: unknown): boolean {
+  switch (type) {
+    case 'object': return isPlainObject(value);
+    case 'array': return Array.isArray(value);
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'null': return value === null;
+    default: return typeof value === type;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function article(type: string): string {
+  return /^[aeiou]/.test(type) ? 'an' : 'a';
+}
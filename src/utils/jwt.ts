@@ -0,0 +1,69 @@
+/**
+ * JWT verification
+ * HS256 only - enough for tokens minted by our own auth server or scripts
+ */
+
+import crypto from 'crypto';
+
+export interface JwtPayload {
+  sub?: string;
+  iss?: string;
+  exp?: number; // Seconds since the epoch
+  nbf?: number;
+  scope?: string; // Space-separated, as in OAuth 2
+  scopes?: string[];
+  [claim: string]: unknown;
+}
+
+export type JwtVerification =
+  | { valid: true; payload: JwtPayload }
+  | { valid: false; reason: string };
+
+/**
+ * Whether a bearer token is shaped like a JWT (header.payload.signature)
+ */
+export function isJwt(token: string): boolean {
+  return /^[\w-]+\.[\w-]+\.[\w-]+$/.test(token);
+}
+
+/**
+ * Check a token's signature, expiry and (optionally) issuer
+ */
+export function verifyJwt(token: string, secret: string, options: { issuer?: string; now?: Date } = {}): JwtVerification {
+  if (!secret) return { valid: false, reason: 'JWTs are not accepted' };
+  if (!isJwt(token)) return { valid: false, reason: 'Malformed token' };
+
+  const [encodedHeader, encodedPayload, signature] = token.split('.');
+
+  let header: { alg?: string };
+  let payload: JwtPayload;
+  try {
+    header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf-8'));
+    payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf-8'));
+  } catch {
+    return { valid: false, reason: 'Malformed token' };
+  }
+
+  if (header.alg !== 'HS256') return { valid: false, reason: 'Unsupported algorithm' };
+
+  const expected = crypto.createHmac('sha256', secret).update(`${encodedHeader}.${encodedPayload}`).digest();
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return { valid: false, reason: 'Invalid signature' };
+  }
+
+  const nowSeconds = Math.floor((options.now || new Date()).getTime() / 1000);
+  if (typeof payload.exp === 'number' && nowSeconds >= payload.exp) return { valid: false, reason: 'Token expired' };
+  if (typeof payload.nbf === 'number' && nowSeconds < payload.nbf) return { valid: false, reason: 'Token not yet valid' };
+  if (options.issuer && payload.iss !== options.issuer) return { valid: false, reason: 'Unexpected issuer' };
+
+  return { valid: true, payload };
+}
+
+/**
+ * Scopes granted by a token's "scope" or "scopes" claim
+ */
+export function getJwtScopes(payload: JwtPayload): string[] {
+  if (Array.isArray(payload.scopes)) return payload.scopes.filter(scope => typeof scope === 'string');
+  return typeof payload.scope === 'string' ? payload.scope.split(' ').filter(Boolean) : [];
+}
@@ -0,0 +1,160 @@
+/**
+ * Knowledge base import/export formats
+ * Converts knowledge entries to and from CSV and Markdown FAQ documents.
+ * Parsers return raw fields - validation happens in KnowledgeManagementService
+ */
+
+import type { KnowledgeEntry } from '../services/simple-knowledge-base.service';
+import { escapeCsvValue } from './csv';
+
+export type KnowledgeFormat = 'json' | 'csv' | 'markdown';
+
+export const KNOWLEDGE_FORMATS: KnowledgeFormat[] = ['json', 'csv', 'markdown'];
+
+export type RawKnowledgeEntry = Partial<Record<keyof KnowledgeEntry, unknown>>;
+
+const CSV_COLUMNS: (keyof KnowledgeEntry)[] = ['id', 'category', 'question', 'answer', 'keywords', 'priority', 'source'];
+
+/**
+ * CSV with one entry per row; keywords are separated by semicolons
+ */
+export function entriesToCsv(entries: KnowledgeEntry[]): string {
+  const rows = entries.map(entry => CSV_COLUMNS.map(column => {
+    const value = entry[column];
+    return Array.isArray(value) ? value.join('; ') : String(value ?? '');
+  }));
+  return [CSV_COLUMNS, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\n') + '\n';
+}
+
+export function entriesFromCsv(text: string): RawKnowledgeEntry[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const columns = header.map(name => name.trim());
+  return rows
+    .filter(row => row.some(value => value.trim()))
+    .map(row => {
+      const raw: Record<string, unknown> = {};
+      columns.forEach((column, i) => {
+        const value = (row[i] ?? '').trim();
+        if (!value) return;
+        if (column === 'keywords') raw.keywords = value.split(';').map(k => k.trim()).filter(Boolean);
+        else if (column === 'priority') raw.priority = Number(value);
+        else raw[column] = value;
+      });
+      return raw as RawKnowledgeEntry;
+    });
+}
+
+/**
+ * Markdown FAQ: "## category" sections with "### question" headings followed by
+ * the answer; id, keywords and priority ride along in an HTML comment
+ */
+export function entriesToMarkdown(entries: KnowledgeEntry[], title: string = 'Knowledge Base'): string {
+  const categories = new Map<string, KnowledgeEntry[]>();
+  entries.forEach(entry => {
+    categories.set(entry.category, [...(categories.get(entry.category) || []), entry]);
+  });
+
+  const sections = Array.from(categories.entries()).map(([category, categoryEntries]) => [
+    `## ${category}`,
+    ...categoryEntries.map(entry => [
+      `### ${entry.question}`,
+      `<!-- id: ${entry.id} | priority: ${entry.priority} | keywords: ${entry.keywords.join(', ')}${entry.source ? ` | source: ${entry.source}` : ''} -->`,
+      '',
+      entry.answer,
+    ].join('\n')),
+  ].join('\n\n'));
+
+  return `# ${title}\n\n${sections.join('\n\n')}\n`;
+}
+
+export function entriesFromMarkdown(text: string): RawKnowledgeEntry[] {
+  const entries: RawKnowledgeEntry[] = [];
+  let category: string | undefined;
+  let current: { raw: Record<string, unknown>; answer: string[] } | null = null;
+
+  const finish = () => {
+    if (!current) return;
+    const answer = current.answer.join('\n').trim();
+    entries.push({ ...current.raw, ...(answer ? { answer } : {}) } as RawKnowledgeEntry);
+    current = null;
+  };
+
+  text.split(/\r?\n/).forEach(line => {
+    const heading = line.match(/^(#{1,3})\s+(.*?)\s*#*$/);
+    if (heading) {
+      const level = heading[1].length;
+      if (level === 3) {
+        finish();
+        current = { raw: { category, question: heading[2] }, answer: [] };
+        return;
+      }
+      finish();
+      if (level === 2) category = heading[2].replace(/^category:\s*/i, '');
+      return;
+    }
+
+    const meta = line.match(/^<!--\s*(.*?)\s*-->$/);
+    if (meta && current) {
+      meta[1].split('|').forEach(part => {
+        const [key, ...rest] = part.split(':');
+        const value = rest.join(':').trim();
+        const name = key.trim().toLowerCase();
+        if (name === 'id') current!.raw.id = value;
+        if (name === 'priority') current!.raw.priority = Number(value);
+        if (name === 'keywords') current!.raw.keywords = value.split(',').map(k => k.trim()).filter(Boolean);
+        if (name === 'source') current!.raw.source = value;
+      });
+      return;
+    }
+
+    current?.answer.push(line);
+  });
+  finish();
+
+  return entries;
+}
+
+/**
+ * RFC 4180 CSV: quoted fields may contain commas, quotes ("") and newlines
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
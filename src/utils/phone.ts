@@ -0,0 +1,22 @@
+/**
+ * Phone number helpers
+ */
+
+/**
+ * Digits-only form of a US phone number for comparisons
+ * (+1-555-012-3456, (555) 012-3456 and +15550123456 all match)
+ */
+export function normalizePhone(phone?: string): string {
+  return (phone || '').replace(/\D/g, '').replace(/^1(?=\d{10}$)/, '');
+}
+
+/**
+ * A phone number as text-to-speech should read it: "5 5 5, 0 1 2, 3 4 5 6"
+ */
+export function formatPhoneForSpeech(phone?: string): string {
+  const digits = normalizePhone(phone);
+  if (digits.length !== 10) return digits.split('').join(' ');
+  return [digits.slice(0, 3), digits.slice(3, 6), digits.slice(6)]
+    .map(group => group.split('').join(' '))
+    .join(', ');
+}
@@ -0,0 +1,77 @@
+/**
+ * Prompt template rendering
+ * Fills {{variable}} placeholders in agent prompts. A placeholder may carry a
+ * fallback used when the call has no value for it: {{customerName|there}}
+ */
+
+export type PromptVariables = Record<string, string | undefined>;
+
+export interface PromptPlaceholder {
+  name: string;
+  fallback?: string;
+}
+
+export interface PromptRenderResult {
+  prompt: string;
+  unresolved: string[]; // Placeholders with neither a value nor a fallback
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*(?:\|([^{}]*))?\}\}/g;
+
+/**
+ * Every placeholder in a template, in order of appearance
+ */
+export function findPlaceholders(template: string): PromptPlaceholder[] {
+  return Array.from(template.matchAll(PLACEHOLDER_PATTERN), match => ({
+    name: match[1],
+    fallback: match[2],
+  }));
+}
+
+/**
+ * Replace placeholders with call variables (or their fallbacks)
+ */
+export function renderPromptTemplate(template: string, variables: PromptVariables): PromptRenderResult {
+  const unresolved = new Set<string>();
+
+  const prompt = template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string, fallback?: string) => {
+    const value = variables[name];
+    if (value !== undefined && value !== '') return value;
+    if (fallback !== undefined) return fallback;
+
+    unresolved.add(name);
+    return placeholder;
+  });
+
+  // Anything still wrapped in braces is a malformed placeholder
+  findMalformedPlaceholders(prompt.replace(PLACEHOLDER_PATTERN, '')).forEach(text => unresolved.add(text));
+
+  return { prompt, unresolved: Array.from(unresolved) };
+}
+
+/**
+ * Check a template before it is saved
+ * @param known - Variables the platform can supply
+ * @param perCall - Variables that are not available on every call and so need a fallback
+ */
+export function validatePromptTemplate(template: string, known: string[], perCall: string[] = []): string[] {
+  const errors: string[] = [];
+
+  findPlaceholders(template).forEach(({ name, fallback }) => {
+    if (!known.includes(name)) {
+      errors.push(`Unknown placeholder {{${name}}} - available: ${known.join(', ')}`);
+    } else if (perCall.includes(name) && fallback === undefined) {
+      errors.push(`{{${name}}} is not known on every call - add a fallback, e.g. {{${name}|...}}`);
+    }
+  });
+
+  findMalformedPlaceholders(template.replace(PLACEHOLDER_PATTERN, '')).forEach(text => {
+    errors.push(`Malformed placeholder: ${text}`);
+  });
+
+  return Array.from(new Set(errors));
+}
+
+function findMalformedPlaceholders(text: string): string[] {
+  return Array.from(text.matchAll(/\{\{[^{}\n]{0,40}(?:\}\})?/g), match => match[0]);
+}
@@ -0,0 +1,129 @@
+/**
+ * Local text search
+ * TF-IDF vectors with cosine similarity - ranks documents by relevance to a
+ * free-text query without any external embedding service
+ */
+
+export interface SearchDocument {
+  id: string;
+  text: string;
+}
+
+export interface SearchMatch {
+  id: string;
+  score: number; // Cosine similarity, 0-1
+}
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'can',
+  'could', 'did', 'do', 'does', 'each', 'for', 'from', 'had', 'has', 'have', 'how', 'i', 'if', 'in',
+  'into', 'is', 'it', 'its', 'just', 'may', 'me', 'much', 'must', 'my', 'of', 'on', 'only', 'or', 'our',
+  'should', 'so', 'some', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they',
+  'this', 'those', 'to', 'us', 'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who',
+  'will', 'with', 'would', 'you', 'your',
+]);
+
+/**
+ * Lowercase words with stop words removed and simple plural/verb endings stripped
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) || [])
+    .filter(word => !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * Distinct meaningful words of a text, most frequent first and then in order
+ * of appearance (unstemmed, for keyword lists)
+ */
+export function extractKeywords(text: string, limit: number = 8): string[] {
+  const words = (text.toLowerCase().match(/[a-z0-9]+/g) || [])
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word) && !/^\d+$/.test(word));
+  const counts = countTerms(words);
+  return Array.from(counts.keys())
+    .sort((a, b) => counts.get(b)! - counts.get(a)!)
+    .slice(0, limit);
+}
+
+function stem(word: string): string {
+  if (word.length <= 4) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.endsWith('ing') && word.length > 5) return word.slice(0, -3);
+  if (word.endsWith('ed') && word.length > 5) return word.slice(0, -2);
+  if (word.endsWith('es') && /(s|x|z|ch|sh)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+export class TfIdfIndex {
+  private vectors = new Map<string, Map<string, number>>();
+  private idf = new Map<string, number>();
+
+  constructor(documents: SearchDocument[] = []) {
+    this.build(documents);
+  }
+
+  get size(): number {
+    return this.vectors.size;
+  }
+
+  /**
+   * Replace the indexed documents
+   */
+  build(documents: SearchDocument[]): void {
+    const termCounts = documents.map(doc => ({ id: doc.id, counts: countTerms(tokenize(doc.text)) }));
+
+    const documentFrequency = new Map<string, number>();
+    termCounts.forEach(({ counts }) => {
+      counts.forEach((_count, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+    });
+
+    // Smoothed IDF keeps terms found in every document slightly positive
+    this.idf = new Map();
+    documentFrequency.forEach((df, term) => {
+      this.idf.set(term, Math.log((1 + documents.length) / (1 + df)) + 1);
+    });
+
+    this.vectors = new Map(termCounts.map(({ id, counts }) => [id, this.toVector(counts)]));
+  }
+
+  /**
+   * Documents most similar to the query, best first; documents sharing no terms are skipped
+   */
+  search(query: string, limit: number = 5): SearchMatch[] {
+    const queryVector = this.toVector(countTerms(tokenize(query)));
+    if (queryVector.size === 0) return [];
+
+    const matches: SearchMatch[] = [];
+    this.vectors.forEach((vector, id) => {
+      let score = 0;
+      queryVector.forEach((weight, term) => {
+        score += weight * (vector.get(term) || 0);
+      });
+      if (score > 0) matches.push({ id, score });
+    });
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  /**
+   * Unit-length TF-IDF vector; terms unknown to the index are dropped
+   */
+  private toVector(counts: Map<string, number>): Map<string, number> {
+    const vector = new Map<string, number>();
+    counts.forEach((count, term) => {
+      const idf = this.idf.get(term);
+      if (idf) vector.set(term, (1 + Math.log(count)) * idf);
+    });
+
+    const norm = Math.sqrt(Array.from(vector.values()).reduce((sum, w) => sum + w * w, 0));
+    vector.forEach((weight, term) => vector.set(term, weight / norm));
+    return vector;
+  }
+}
+
+function countTerms(terms: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  terms.forEach(term => counts.set(term, (counts.get(term) || 0) + 1));
+  return counts;
+}
@@ -0,0 +1,92 @@
+/**
+ * Time zone helpers
+ * Converts between wall-clock times in an IANA time zone and UTC instants
+ * using the built-in Intl API (no external date library required)
+ */
+
+export interface ZonedDateTime {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:mm
+  weekday: number; // 0 = Sunday
+}
+
+/**
+ * Offset of the time zone from UTC at the given instant, in minutes
+ */
+export function getTimeZoneOffsetMinutes(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)!.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+
+  return Math.round((asUtc - instant.getTime()) / 60000);
+}
+
+/**
+ * Convert a wall-clock date and time in a time zone to a UTC instant
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const naive = new Date(`${date}T${time}:00.000Z`);
+  const offset = getTimeZoneOffsetMinutes(naive, timeZone);
+  const guess = new Date(naive.getTime() - offset * 60000);
+
+  // Re-check the offset at the guessed instant to handle DST transitions
+  const correctedOffset = getTimeZoneOffsetMinutes(guess, timeZone);
+  return correctedOffset === offset ? guess : new Date(naive.getTime() - correctedOffset * 60000);
+}
+
+/**
+ * Get the wall-clock date, time and weekday of an instant in a time zone
+ */
+export function getZonedDateTime(instant: Date, timeZone: string): ZonedDateTime {
+  const local = new Date(instant.getTime() + getTimeZoneOffsetMinutes(instant, timeZone) * 60000);
+  const iso = local.toISOString();
+
+  return {
+    date: iso.slice(0, 10),
+    time: iso.slice(11, 16),
+    weekday: local.getUTCDay(),
+  };
+}
+
+/**
+ * Add days to a YYYY-MM-DD calendar date
+ */
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00.000Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Weekday (0 = Sunday) of a YYYY-MM-DD calendar date
+ */
+export function getWeekday(date: string): number {
+  return new Date(`${date}T00:00:00.000Z`).getUTCDay();
+}
+
+/**
+ * Convert HH:mm to minutes since midnight
+ */
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Convert minutes since midnight to HH:mm
+ */
+export function minutesToTime(totalMinutes: number): string {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
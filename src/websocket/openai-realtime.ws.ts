@@ -4,77 +4,16 @@
  */
 
 import { WebSocket } from 'ws';
-import { OpenAIRealtimeService, ToolDefinition } from '../services/openai-realtime.service';
-import { EMMA_SYSTEM_PROMPT } from '../config/emma-prompt';
+import { OpenAIRealtimeService } from '../services/openai-realtime.service';
+import { agentProfileService } from '../services/agent-profile.service';
+import { agentPromptService } from '../services/agent-prompt.service';
+import { RealtimeToolRunner } from './realtime-tool-runner';
 import logger from '../utils/logger';
 import { costTracker } from '../utils/cost-tracker';
-import axios from 'axios'; // Added for making HTTP requests
-
-// --- Tool Definitions ---
-// Note: Following VAPI/ElevenLabs approach, knowledge base is embedded in prompt, not accessed via tools
-
-const getAppointmentAvailabilityTool: ToolDefinition = {
-  type: 'function',
-  function: {
-    name: 'get_appointment_availability',
-    description: 'Fetches all available appointment slots for sales representatives for the current week from the CRM. The agent will then filter these by the user\'s desired date.',
-    parameters: {
-      type: 'object',
-      properties: {}, // No parameters needed as it fetches all weekly availability
-      required: [],
-    },
-  },
-};
-
-const createAppointmentEventTool: ToolDefinition = {
-  type: 'function',
-  function: {
-    name: 'create_appointment_event',
-    description: 'Creates a new sales appointment event in the CRM.',
-    parameters: {
-      type: 'object',
-      properties: {
-        scheduledTime: {
-          type: 'string',
-          description: 'The scheduled time for the appointment in ISO 8601 format (e.g., YYYY-MM-DDTHH:mm:ssZ).',
-        },
-        customerName: {
-          type: 'string',
-          description: 'Full name of the customer.',
-        },
-        address: {
-          type: 'string',
-          description: 'Full street address for the appointment.',
-        },
-        city: {
-          type: 'string',
-          description: 'City for the appointment.',
-        },
-        state: {
-          type: 'string',
-          description: 'State for the appointment (e.g., MA).',
-        },
-        zipCode: {
-          type: 'string',
-          description: 'Zip code for the appointment.',
-        },
-        staffId: {
-          type: 'string',
-          description: 'The ID of the sales representative (Staff) assigned to the event. This should be determined from the availability check.',
-        },
-        notes: {
-          type: 'string',
-          description: 'Any notes for the appointment or for the sales representative.',
-        },
-        // Add other relevant optional fields from your CRM API docs if needed by the agent
-        // e.g., productCategory, customerId (if known)
-      },
-      required: ['scheduledTime', 'customerName', 'address', 'city', 'state', 'zipCode', 'staffId'],
-    },
-  },
-};
-
-const crmApiBaseUrl = process.env.CRM_API_BASE_URL; // Ensure this is set in your .env file
+import { costLedgerService } from '../services/cost-ledger.service';
+import { appointmentManagementService } from '../services/appointment-management.service';
+import { callContextService } from '../services/call-context.service';
+import { callRecordingService } from '../services/call-recording.service';
 
 export function handleOpenAIRealtimeWebSocket(ws: WebSocket, _req: any) {
   logger.info('New OpenAI Realtime WebSocket connection');
@@ -82,6 +21,8 @@ export function handleOpenAIRealtimeWebSocket(ws: WebSocket, _req: any) {
   let realtimeService: OpenAIRealtimeService | null = null;
   let isConnected = false;
   let currentSessionId: string | null = null; // Added to store session ID
+  let toolRunner: RealtimeToolRunner | null = null;
+  let closed = false; // Set by the close handler; awaits below check it before starting anything
 
   // Initialize OpenAI Realtime service with Emma prompt
   const apiKey = process.env.OPENAI_API_KEY;
@@ -103,16 +44,25 @@ export function handleOpenAIRealtimeWebSocket(ws: WebSocket, _req: any) {
         case 'session.update':
           // Initialize the OpenAI Realtime service if not already done
           if (!realtimeService) {
+            const budget = await costLedgerService.checkBudget();
+            if (!budget.allowed) {
+              ws.send(JSON.stringify({ type: 'error', error: { message: budget.message, code: 'budget_exhausted' } }));
+              ws.close();
+              break;
+            }
+
+            // Clients pick an agent with agentId; otherwise the default agent answers
+            const profile = await agentProfileService.resolveProfile(message.agentId);
+            const instructions = await agentPromptService.renderForCall(profile);
+            const tools = agentProfileService.getToolDefinitions(profile);
+            if (realtimeService || closed) break;
+
             realtimeService = new OpenAIRealtimeService(apiKey, {
-              voice: message.session?.voice || 'alloy',
-              instructions: EMMA_SYSTEM_PROMPT,
+              voice: message.session?.voice || profile.voice,
+              instructions,
               temperature: message.session?.temperature || 0.8,
               maxResponseLength: message.session?.max_response_output_tokens || 4096,
-              tools: [
-                getAppointmentAvailabilityTool,
-                createAppointmentEventTool
-                // Knowledge base is embedded in prompt (VAPI/ElevenLabs approach)
-              ],
+              tools,
             });
 
             // Set up event forwarding from OpenAI to client
@@ -125,6 +75,14 @@ export function handleOpenAIRealtimeWebSocket(ws: WebSocket, _req: any) {
               currentSessionId = data.id; // Store session ID
               if (currentSessionId) {
                 costTracker.startSession(currentSessionId); // Start cost tracking
+                const context = callContextService.start({
+                  sessionId: currentSessionId,
+                  channel: 'web',
+                  direction: 'inbound',
+                  agent: agentProfileService.toCallAgent(profile),
+                });
+                callRecordingService.startCall(context);
+                callRecordingService.attachRealtimeSession(currentSessionId, realtimeService!);
               }
               ws.send(JSON.stringify({ type: 'session.created', ...data }));
             });
@@ -152,12 +110,20 @@ export function handleOpenAIRealtimeWebSocket(ws: WebSocket, _req: any) {
               }
             });
 
-            realtimeService.on('response.done', (data) => {
+            realtimeService.on('response.done', async (data) => {
               // data here is the full response object from OpenAI, which includes 'usage'
               if (currentSessionId && data && data.usage) {
-                costTracker.trackOpenAIRealtimeUsage(currentSessionId, data.usage);
+                costTracker.trackOpenAIRealtimeUsage(currentSessionId, data.usage, realtimeService?.model);
               }
               ws.send(JSON.stringify({ type: 'response.done', response: data }));
+
+              // Return every tool result from this response, then let Emma continue
+              const ranTools = await toolRunner?.flush();
+              if (!ranTools && toolRunner?.shouldEndCall) {
+                // Emma has said goodbye after calling end_call
+                ws.send(JSON.stringify({ type: 'session.ended' }));
+                ws.close();
+              }
             });
 
             realtimeService.on('transcription', (transcript) => {
@@ -176,97 +142,32 @@ export function handleOpenAIRealtimeWebSocket(ws: WebSocket, _req: any) {
               ws.send(JSON.stringify({ type: 'error', error: error.message }));
             });
 
-            // Handle tool call requests from OpenAI
-            realtimeService.on('tool_calls.requested', async (toolCalls) => {
-              if (!realtimeService || !crmApiBaseUrl) {
-                logger.error('Realtime service or CRM API Base URL not available for tool call');
-                // Optionally send a generic error back for all tool calls if this happens
-                for (const toolCall of toolCalls) {
-                  realtimeService?.sendToolResults(toolCall.id, 'Internal configuration error, cannot execute tool.', true);
-                }
-                return;
-              }
-              
-              for (const toolCall of toolCalls) {
-                if (toolCall.type !== 'function') {
-                  logger.warn('Received non-function tool call type', { toolCall });
-                  realtimeService.sendToolResults(toolCall.id, `Error: Tool type ${toolCall.type} is not supported.`, true);
-                  continue;
-                }
-
-                const { name, arguments: argsString } = toolCall.function;
-                let args: any;
-                try {
-                  args = JSON.parse(argsString);
-                } catch (e: any) {
-                  logger.error('Error parsing tool arguments', { toolCallId: toolCall.id, argsString, error: e.message });
-                  realtimeService.sendToolResults(toolCall.id, `Error: Invalid arguments format: ${e.message}`, true);
-                  continue;
-                }
-
-                logger.info(`Executing ${name} tool`, { args });
-
-                if (name === 'get_appointment_availability') {
-                  try {
-                    // Call GET /sales-rep-availability
-                    const response = await axios.get(`${crmApiBaseUrl}/sales-rep-availability`);
-                    logger.info('CRM get_appointment_availability raw response', { data: response.data });
-                    // The API returns data under a "data" key, and also a "success" and "message"
-                    if (response.data && response.data.success && response.data.data) {
-                      realtimeService.sendToolResults(toolCall.id, response.data.data);
-                    } else {
-                      throw new Error(response.data.message || 'Failed to retrieve availability or unexpected format.');
-                    }
-                  } catch (e: any) {
-                    logger.error('Error calling get_appointment_availability CRM API', { toolCallId: toolCall.id, error: e.response?.data || e.message });
-                    realtimeService.sendToolResults(toolCall.id, `Error fetching availability: ${e.message}`, true);
-                  }
-                } else if (name === 'create_appointment_event') {
-                  try {
-                    // Construct the payload for POST /events
-                    const payload = {
-                      Event_Type: "Sales Appointment", // Default as per API docs example
-                      Scheduled_Time: args.scheduledTime, // ISO format
-                      Status: "Scheduled", // Default initial status
-                      Customer_Name: args.customerName,
-                      Address: args.address,
-                      Street: args.address, // Assuming full address is passed and can be used for Street
-                      City: args.city,
-                      State: args.state,
-                      ZipCode: args.zipCode,
-                      Staff: args.staffId, // This is the User UUID for the sales rep
-                      Notes_for_Sales_Rep: args.notes,
-                      // You might need to add other fields like 'Name' for the event itself
-                      Name: `Consultation for ${args.customerName} on ${new Date(args.scheduledTime).toLocaleDateString()}`,
-                      // Ensure all required fields by your specific CRM setup are included
-                    };
-                    const response = await axios.post(`${crmApiBaseUrl}/events`, payload);
-                    logger.info('CRM create_appointment_event response', { data: response.data });
-                     // Assuming 201 Created is success and it returns the created event
-                    if (response.status === 201 && response.data) {
-                      realtimeService.sendToolResults(toolCall.id, { success: true, eventId: response.data.Id, message: "Appointment created successfully." });
-                    } else {
-                       throw new Error(response.data.error || 'Failed to create appointment or unexpected format.');
-                    }
-                  } catch (e: any) {
-                    logger.error('Error calling create_appointment_event CRM API', { toolCallId: toolCall.id, error: e.response?.data || e.message });
-                    realtimeService.sendToolResults(toolCall.id, `Error creating appointment: ${e.message}`, true);
-                  }
-                } else {
-                  logger.warn('Received unhandled tool name', { name });
-                  realtimeService.sendToolResults(toolCall.id, `Error: Tool ${name} is not supported.`, true);
-                }
+            // Execute tool calls through the shared Emma tool set
+            toolRunner = new RealtimeToolRunner(realtimeService, {
+              getSessionId: () => currentSessionId || undefined,
+              onToolStarted: (call) => {
+                ws.send(JSON.stringify({ type: 'tool_call.started', name: call.name, call_id: call.callId }));
+              },
+              onToolCompleted: (call, output) => {
+                ws.send(JSON.stringify({ type: 'tool_call.completed', name: call.name, call_id: call.callId, output }));
               }
             });
 
             // Connect to OpenAI
+            const service = realtimeService;
             try {
-              await realtimeService.connect();
+              await service.connect();
+              // The browser left while the session was opening
+              if (closed) {
+                service.disconnect();
+                break;
+              }
               isConnected = true;
               logger.info('Connected to OpenAI Realtime API', {
                 service: 'openai-realtime-ws',
-                hasEmmaPrompt: !!EMMA_SYSTEM_PROMPT,
-                promptLength: EMMA_SYSTEM_PROMPT.length
+                agentId: profile.id,
+                promptLength: instructions.length,
+                toolCount: tools.length
               });
             } catch (error) {
               logger.error('Failed to connect to OpenAI Realtime API', error);
@@ -282,7 +183,7 @@ export function handleOpenAIRealtimeWebSocket(ws: WebSocket, _req: any) {
           if (realtimeService && isConnected && message.audio) {
             // Convert base64 to ArrayBuffer and send to OpenAI
             const audioBuffer = Buffer.from(message.audio, 'base64');
-            realtimeService.sendAudio(audioBuffer.buffer);
+            realtimeService.sendAudio(audioBuffer);
           }
           break;
 
@@ -324,15 +225,21 @@ export function handleOpenAIRealtimeWebSocket(ws: WebSocket, _req: any) {
   // Handle WebSocket close
   ws.on('close', () => {
     logger.info('OpenAI Realtime WebSocket connection closed');
+    closed = true;
     if (realtimeService) {
       realtimeService.disconnect();
       realtimeService = null;
     }
     if (currentSessionId) {
       costTracker.endSession(currentSessionId); // End cost tracking
+      appointmentManagementService.releaseHoldsForHolder(currentSessionId); // Free slots offered during the call
+      callRecordingService.endCall(currentSessionId, callContextService.get(currentSessionId))
+        .catch(error => logger.error('Failed to archive session transcript', { error }));
+      callContextService.end(currentSessionId);
       currentSessionId = null;
     }
     isConnected = false;
+    toolRunner?.reset();
   });
 
   // Handle WebSocket errors
@@ -0,0 +1,97 @@
+/**
+ * Realtime tool runner
+ * Executes the model's function calls through EmmaToolsService and returns
+ * the results once the response that requested them has finished
+ */
+
+import { OpenAIRealtimeService, FunctionCall } from '../services/openai-realtime.service';
+import { emmaToolsService, ToolCallResponse } from '../services/emma-tools.service';
+import { callRecordingService } from '../services/call-recording.service';
+import { TRANSFER_TO_HUMAN_TOOL } from '../services/human-transfer.service';
+
+export interface RealtimeToolRunnerOptions {
+  getSessionId: () => string | undefined; // Owner of any slot holds placed by tools
+  onToolStarted?: (call: FunctionCall) => void;
+  onToolCompleted?: (call: FunctionCall, output: any) => void;
+}
+
+export class RealtimeToolRunner {
+  private pending: Promise<ToolCallResponse>[] = [];
+  private endCallRequested = false;
+  private transferRequested = false;
+
+  constructor(
+    private realtimeService: OpenAIRealtimeService,
+    private options: RealtimeToolRunnerOptions
+  ) {
+    realtimeService.on('function_call', (call: FunctionCall) => this.run(call));
+  }
+
+  /**
+   * Whether a successful end_call is waiting for Emma's goodbye to finish
+   */
+  get shouldEndCall(): boolean {
+    return this.endCallRequested && this.pending.length === 0;
+  }
+
+  /**
+   * Whether a transfer to staff is waiting for Emma to finish telling the caller
+   */
+  get shouldTransfer(): boolean {
+    return this.transferRequested && this.pending.length === 0;
+  }
+
+  /**
+   * Call on response.done - sends tool outputs and asks Emma to continue.
+   * Returns false when the response requested no tools
+   */
+  async flush(): Promise<boolean> {
+    if (this.pending.length === 0) {
+      return false;
+    }
+
+    const results = await Promise.all(this.pending);
+    this.pending = [];
+    results.forEach(result => this.realtimeService.sendFunctionCallOutput(result.call_id, result.output));
+    this.realtimeService.requestResponse();
+    return true;
+  }
+
+  /**
+   * Drop outstanding calls when the session ends
+   */
+  reset(): void {
+    this.pending = [];
+    this.endCallRequested = false;
+    this.transferRequested = false;
+  }
+
+  private run(call: FunctionCall): void {
+    const sessionId = this.options.getSessionId();
+    this.options.onToolStarted?.(call);
+    if (sessionId) {
+      callRecordingService.recordToolCallStarted(sessionId, call);
+    }
+
+    this.pending.push(
+      emmaToolsService.executeToolCall({
+        call_id: call.callId,
+        name: call.name,
+        arguments: call.arguments, // Parsed and validated by the tool registry
+        sessionId
+      }).then(result => {
+        if (call.name === 'end_call' && result.output?.success) {
+          this.endCallRequested = true;
+        }
+        if (call.name === TRANSFER_TO_HUMAN_TOOL && result.output?.data?.transferPending) {
+          this.transferRequested = true;
+        }
+        if (sessionId) {
+          callRecordingService.recordToolCallCompleted(sessionId, call.callId, result.output);
+        }
+        this.options.onToolCompleted?.(call, result.output);
+        return result;
+      })
+    );
+  }
+}
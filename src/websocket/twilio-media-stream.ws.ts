@@ -0,0 +1,371 @@
+/**
+ * WebSocket handler for Twilio Media Streams
+ * Bridges a phone call's 8kHz mu-law audio to an OpenAI Realtime session running Emma
+ */
+
+import { WebSocket } from 'ws';
+import { OpenAIRealtimeService } from '../services/openai-realtime.service';
+import { AgentProfile, agentProfileService } from '../services/agent-profile.service';
+import { agentPromptService } from '../services/agent-prompt.service';
+import { appointmentManagementService } from '../services/appointment-management.service';
+import { TwilioService } from '../services/twilio.service';
+import { CONFIRMATION_CAMPAIGN, confirmationCampaignService } from '../services/confirmation-campaign.service';
+import { CallContext, callContextService, toCallDirection } from '../services/call-context.service';
+import { callRecordingService } from '../services/call-recording.service';
+import { humanTransferService } from '../services/human-transfer.service';
+import { config } from '../config';
+import { RealtimeToolRunner } from './realtime-tool-runner';
+import { bufferToPcm16, mulawToPcm16, pcm16ToBuffer, pcm16ToMulaw, resamplePcm16 } from '../utils/audio-codec';
+import logger from '../utils/logger';
+import { costTracker } from '../utils/cost-tracker';
+import { costLedgerService } from '../services/cost-ledger.service';
+import { mediaStreamSessionService } from '../services/media-stream-session.service';
+
+export const TWILIO_MEDIA_STREAM_PATH = '/ws/twilio-media';
+
+const TWILIO_SAMPLE_RATE = 8000;
+const REALTIME_SAMPLE_RATE = 24000;
+const END_CALL_MARK = 'end_call';
+const TRANSFER_MARK = 'transfer';
+
+/**
+ * Messages Twilio sends over a media stream
+ */
+interface TwilioStreamMessage {
+  event: 'connected' | 'start' | 'media' | 'mark' | 'dtmf' | 'stop';
+  streamSid?: string;
+  start?: {
+    streamSid: string;
+    callSid: string;
+    customParameters?: Record<string, string>;
+  };
+  media?: {
+    track?: string;
+    timestamp: string; // Milliseconds since the stream started
+    payload: string; // Base64 mu-law audio
+  };
+  mark?: { name: string };
+  dtmf?: { digit: string };
+}
+
+export function handleTwilioMediaStreamWebSocket(ws: WebSocket, req: any) {
+  logger.info('New Twilio media stream connection');
+
+  let realtimeService: OpenAIRealtimeService | null = null;
+  let toolRunner: RealtimeToolRunner | null = null;
+  let streamSid: string | null = null;
+  let callSid: string | null = null;
+  let greeted = false;
+  let closed = false;
+
+  // Barge-in bookkeeping: what Emma has said that Twilio may still be playing
+  let latestMediaTimestamp = 0;
+  let responseStartTimestamp: number | null = null;
+  let lastAssistantItemId: string | null = null;
+  let pendingMarks: string[] = [];
+
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    logger.error('OpenAI API key not configured - closing media stream');
+    ws.close();
+    return;
+  }
+
+  const sendToTwilio = (message: object) => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  };
+
+  const sendMark = (name: string) => {
+    sendToTwilio({ event: 'mark', streamSid, mark: { name } });
+    pendingMarks.push(name);
+  };
+
+  /**
+   * Caller started talking over Emma - stop playback and trim what she "said"
+   */
+  const handleBargeIn = () => {
+    if (!realtimeService || pendingMarks.length === 0 || responseStartTimestamp === null) {
+      return;
+    }
+
+    const heardMs = latestMediaTimestamp - responseStartTimestamp;
+    logger.info('Caller interrupted Emma', { callSid, heardMs });
+
+    if (lastAssistantItemId) {
+      realtimeService.truncateItem(lastAssistantItemId, heardMs);
+    }
+    realtimeService.cancelResponse();
+    sendToTwilio({ event: 'clear', streamSid });
+
+    pendingMarks = [];
+    responseStartTimestamp = null;
+    lastAssistantItemId = null;
+  };
+
+  /**
+   * Ask Twilio to record the call; the recording webhook links it to the transcript
+   */
+  const startAudioRecording = (sid: string) => {
+    const baseUrl = config.campaigns.publicBaseUrl || `https://${req?.headers?.host}`;
+    TwilioService.startCallRecording(sid, `${baseUrl}/webhooks/twilio/recording`)
+      .catch(error => logger.error('Call continues without an audio recording', { callSid: sid, error }));
+  };
+
+  const hangUp = async () => {
+    if (!callSid) return;
+    try {
+      await TwilioService.endCall(callSid);
+    } catch (error) {
+      logger.error('Failed to end call after end_call tool', { callSid, error });
+    }
+  };
+
+  /**
+   * Move the caller out of the media stream and into the transfer conference
+   */
+  const startTransfer = async () => {
+    if (!callSid) return;
+    try {
+      await humanTransferService.startTransfer(callSid);
+    } catch (error) {
+      logger.error('Failed to start transfer to human', { callSid, error });
+    }
+  };
+
+  /**
+   * The agent's instructions, plus the appointment details on campaign calls
+   */
+  const buildInstructions = async (context: CallContext, profile: AgentProfile): Promise<string> => {
+    const instructions = await agentPromptService.renderForCall(profile, context);
+    if (context.campaign !== CONFIRMATION_CAMPAIGN || !context.appointmentId) {
+      return instructions;
+    }
+
+    const appointment = await appointmentManagementService.getAppointmentById(context.appointmentId);
+    if (!appointment) {
+      logger.warn('Confirmation call for unknown appointment', { callSid, appointmentId: context.appointmentId });
+      return instructions;
+    }
+    return instructions + confirmationCampaignService.buildCallContext(appointment);
+  };
+
+  const startRealtimeSession = async (context: CallContext, profile: AgentProfile) => {
+    let instructions: string;
+    try {
+      instructions = await buildInstructions(context, profile);
+    } catch (error) {
+      logger.error('Could not build instructions for phone call', { callSid, agentId: profile.id, error });
+      ws.close();
+      return;
+    }
+    if (closed) return;
+
+    const tools = agentProfileService.getToolDefinitions(profile);
+    realtimeService = new OpenAIRealtimeService(apiKey, {
+      voice: profile.voice,
+      instructions,
+      tools,
+    });
+
+    toolRunner = new RealtimeToolRunner(realtimeService, {
+      getSessionId: () => callSid || undefined,
+    });
+    callRecordingService.attachRealtimeSession(context.sessionId, realtimeService);
+
+    realtimeService.on('session.updated', () => {
+      // Emma opens the call once her instructions are in place
+      if (!greeted) {
+        greeted = true;
+        realtimeService?.requestResponse();
+      }
+    });
+
+    realtimeService.on('audio', (data) => {
+      if (data.isFinal || !streamSid) return;
+
+      const pcm24k = bufferToPcm16(Buffer.from(data.audio));
+      const mulaw = pcm16ToMulaw(resamplePcm16(pcm24k, REALTIME_SAMPLE_RATE, TWILIO_SAMPLE_RATE));
+      sendToTwilio({ event: 'media', streamSid, media: { payload: mulaw.toString('base64') } });
+
+      if (responseStartTimestamp === null) {
+        responseStartTimestamp = latestMediaTimestamp;
+      }
+      if (data.itemId) {
+        lastAssistantItemId = data.itemId;
+      }
+      sendMark('response_part');
+    });
+
+    realtimeService.on('input_audio_buffer.speech_started', handleBargeIn);
+
+    realtimeService.on('response.done', async (data) => {
+      if (callSid && data?.usage) {
+        costTracker.trackOpenAIRealtimeUsage(callSid, data.usage, realtimeService?.model);
+      }
+
+      const ranTools = await toolRunner?.flush();
+      if (!ranTools && toolRunner?.shouldTransfer) {
+        // Transfer once Twilio has played "connecting you now"
+        sendMark(TRANSFER_MARK);
+      } else if (!ranTools && toolRunner?.shouldEndCall) {
+        // Hang up once Twilio has played the goodbye
+        sendMark(END_CALL_MARK);
+      }
+    });
+
+    realtimeService.on('error', (error) => {
+      logger.error('OpenAI Realtime error on phone call', { callSid, error: error.message });
+    });
+
+    const service = realtimeService;
+    try {
+      await service.connect();
+      // Twilio hung up while the session was opening; cleanup() has already run
+      if (closed) {
+        service.disconnect();
+        return;
+      }
+      logger.info('Phone call bridged to OpenAI Realtime', {
+        callSid,
+        agentId: profile.id,
+        toolCount: tools.length
+      });
+    } catch (error) {
+      logger.error('Failed to connect phone call to OpenAI Realtime API', { callSid, error });
+      ws.close();
+    }
+  };
+
+  const cleanup = () => {
+    if (closed) return;
+    closed = true;
+
+    if (realtimeService) {
+      realtimeService.disconnect();
+      realtimeService = null;
+    }
+    toolRunner?.reset();
+    if (callSid) {
+      costTracker.endSession(callSid);
+      appointmentManagementService.releaseHoldsForHolder(callSid);
+      callRecordingService.endCall(callSid, callContextService.get(callSid))
+        .catch(error => logger.error('Failed to archive call transcript', { callSid, error }));
+      callContextService.end(callSid);
+    }
+  };
+
+  /**
+   * Connect a stream the voice webhook accepted to a new realtime session
+   */
+  const handleStart = async (start: NonNullable<TwilioStreamMessage['start']>) => {
+    // Only the token comes from the socket; the call's details are the ones
+    // the voice webhook registered for it
+    const parameters = mediaStreamSessionService.claim(start.callSid, start.customParameters?.token);
+    if (!parameters) {
+      ws.close();
+      return;
+    }
+
+    streamSid = start.streamSid;
+    callSid = start.callSid;
+    logger.info('Twilio media stream started', { streamSid, callSid, parameters });
+
+    // The voice webhook refuses calls once a budget is spent; this catches
+    // calls that were already connecting when it ran out
+    const budget = await costLedgerService.checkBudget();
+    if (!budget.allowed) {
+      await hangUp();
+      callSid = null; // Nothing was started for this call
+      ws.close();
+      return;
+    }
+
+    const direction = toCallDirection(parameters.direction);
+    const profile = await agentProfileService.resolveProfile(parameters.agentId);
+    // The stream may have closed while we waited; cleanup() only ends what
+    // was started before it ran, so start nothing more
+    if (closed) return;
+    const context = callContextService.start({
+      sessionId: callSid,
+      channel: 'phone',
+      direction,
+      callSid,
+      callerNumber: direction === 'outbound' ? parameters.to : parameters.from,
+      campaign: parameters.campaign,
+      appointmentId: parameters.appointmentId,
+      agent: agentProfileService.toCallAgent(profile),
+    });
+    costTracker.startSession(callSid);
+    await callRecordingService.startCall(context);
+    if (closed) return;
+    if (config.recording.audio) {
+      startAudioRecording(callSid);
+    }
+    await startRealtimeSession(context, profile);
+  };
+
+  ws.on('message', async (data: Buffer) => {
+    let message: TwilioStreamMessage;
+    try {
+      message = JSON.parse(data.toString());
+    } catch (error) {
+      logger.warn('Ignoring malformed media stream message');
+      return;
+    }
+
+    try {
+      switch (message.event) {
+        case 'start':
+          if (!message.start || streamSid) break;
+          await handleStart(message.start);
+          break;
+
+        case 'media': {
+          if (!message.media || (message.media.track && message.media.track !== 'inbound')) break;
+          latestMediaTimestamp = parseInt(message.media.timestamp, 10) || latestMediaTimestamp;
+
+          if (realtimeService?.connected) {
+            const pcm8k = mulawToPcm16(Buffer.from(message.media.payload, 'base64'));
+            const pcm24k = pcm16ToBuffer(resamplePcm16(pcm8k, TWILIO_SAMPLE_RATE, REALTIME_SAMPLE_RATE));
+            realtimeService.sendAudio(pcm24k);
+          }
+          break;
+        }
+
+        case 'mark':
+          pendingMarks.shift();
+          if (pendingMarks.length === 0) {
+            responseStartTimestamp = null;
+          }
+          if (message.mark?.name === END_CALL_MARK) {
+            await hangUp();
+          } else if (message.mark?.name === TRANSFER_MARK) {
+            await startTransfer();
+          }
+          break;
+
+        case 'stop':
+          logger.info('Twilio media stream stopped', { streamSid, callSid });
+          cleanup();
+          break;
+
+        default:
+          break;
+      }
+    } catch (error) {
+      logger.error('Error handling media stream message - closing the stream', { callSid, event: message.event, error });
+      ws.close();
+    }
+  });
+
+  ws.on('close', () => {
+    logger.info('Twilio media stream connection closed', { callSid });
+    cleanup();
+  });
+
+  ws.on('error', (error) => {
+    logger.error('Twilio media stream error', { callSid, error });
+  });
+}